@@ -1,38 +1,243 @@
-import React, { useState, useCallback } from 'react';
-import { ReportData, ProcessedImageFile, UrlImageEntry } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { ReportData, ReportVersion, ReportSignOff, CriticalFindingsNotification, ReportChatMessage, UserProfile, ProcessedImageFile, ImageAnnotation, UrlImageEntry, ReportImageInput, ProviderSettings, SpeechSettings, ReportTemplate, StudyRecord, StudySummary, PriorStudy, ClinicalContext, DicomMetadata, PreprocessingSettings } from './types';
 import FileUploadSection from './components/FileUploadSection';
 import UrlInputSection from './components/UrlInputSection';
 import ReportOutput from './components/ReportOutput';
-import { generateReportFromImage, generateSpeechFromText, fetchImageAsBase64 } from './services/geminiService';
-import { Part } from '@google/genai';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import SpeechSettingsPanel from './components/SpeechSettingsPanel';
+import HistorySidebar from './components/HistorySidebar';
+import TemplateManagerModal from './components/TemplateManagerModal';
+import PriorStudyPanel from './components/PriorStudyPanel';
+import ClinicalContextForm from './components/ClinicalContextForm';
+import ReportChatPanel from './components/ReportChatPanel';
+import ReportVersionHistory from './components/ReportVersionHistory';
+import ReportStatusPanel from './components/ReportStatusPanel';
+import { configureProviders, configureSpeech, streamReportFromImage, askAboutReport, assessCriticalFindings, getReportModelLabel, generateSectionedSpeech, fetchImageAsBase64 } from './services/geminiService';
+import { summarizeDicomStudy, formatDicomDate } from './services/dicomService';
+import { MAX_PRIOR_IMAGES } from './services/reportPrompt';
+import { EMPTY_CLINICAL_CONTEXT, clinicalHeaderFields } from './services/clinicalContext';
+import { DeidentifiedImage, collectPhiValues, deidentifyClinicalContext, deidentifyFetchedImage, deidentifyProcessedFile, deidentifyStudyInfo, requireRedactionReview, scrubPhiText, summarizeDeidentification } from './services/deidentification';
+import { formatReportAsMarkdown, parsePartialStructuredReport } from './services/structuredReport';
+import { loadPreprocessingSettings, loadProviderSettings, loadSpeechSettings, loadUserProfile, savePreprocessingSettings, saveProviderSettings, saveSpeechSettings, saveUserProfile } from './services/settingsStore';
+import { estimateUploadCost, formatBytes } from './services/imagePreprocessing';
+import { applyReportVersion, createReportVersion } from './services/reportVersions';
+import { addAddendum, isReportLocked, signReport } from './services/reportStatus';
+import { applyCriticalFindingsAssessment, currentCriticalNotification, recordCriticalNotification } from './services/criticalFindings';
+import { rainerLogoBase64, hasRainerLogo, LEGAL_DISCLAIMER, LEGAL_DISCLAIMER_TITLE } from './constants';
+import { loadReportTemplates, saveReportTemplates, loadSelectedTemplateId, saveSelectedTemplateId } from './services/templateStore';
+import { listStudies, getStudy, saveStudy, deleteStudy, duplicateStudy } from './services/studyStore';
 
-const rainerLogoBase64 = "data:image/png;base64,PLACEHOLDER_FOR_RAINER_LOGO_BASE64_STRING"; 
+const DEFAULT_PROMPT = "Descreva este Raio-x";
 
-const MAX_IMAGES = 10; // Updated from 5 to 10
+// Converte os arquivos e URLs do formulário nas imagens enviadas ao modelo; as URLs são baixadas pelo servidor.
+// Imagens já anonimizadas (tarjas sobre os pixels, dados do paciente fora dos nomes) na ordem de envio ao modelo.
+async function collectReportImages(processedFiles: ProcessedImageFile[], urlEntries: UrlImageEntry[], phiValues: string[], maxImages: number): Promise<DeidentifiedImage[]> {
+  const images: DeidentifiedImage[] = [];
+  requireRedactionReview(processedFiles.slice(0, maxImages));
+  for (const file of processedFiles.slice(0, maxImages)) {
+    images.push(await deidentifyProcessedFile(file, phiValues));
+  }
+
+  for (const entry of urlEntries) {
+    if (images.length < maxImages && entry.value.trim()) {
+      let fetchedImage;
+      try {
+        fetchedImage = await fetchImageAsBase64(entry.value.trim());
+      } catch (err) {
+        throw new Error(`Falha ao carregar imagem da URL "${entry.value.substring(0,30)}...": ${err instanceof Error ? err.message : String(err)}`);
+      }
+      images.push(await deidentifyFetchedImage({
+        mimeType: fetchedImage.mimeType,
+        base64: fetchedImage.base64,
+        name: entry.value.trim().split(/[?#]/)[0].split('/').pop() || undefined,
+        annotation: entry.annotation,
+      }, phiValues));
+    }
+  }
+  return images;
+}
+
+const phiValuesOf = (files: ProcessedImageFile[]) =>
+  collectPhiValues(files.map(file => file.dicom?.metadata).filter((metadata): metadata is DicomMetadata => !!metadata));
+
+// Valores do paciente lidos do DICOM do exame atual e do anterior: saem de todo texto enviado ao modelo
+// (laudo, conversa, fala e achados críticos).
+const studyPhiValues = (files: ProcessedImageFile[], priorStudy: PriorStudy | null | undefined) =>
+  phiValuesOf([...files, ...(priorStudy?.images ?? [])]);
 
 interface AppState {
   prompt: string;
   processedFiles: ProcessedImageFile[];
   urlEntries: UrlImageEntry[];
   reportData: ReportData | null;
+  priorStudy: PriorStudy | null; // Exame anterior para o modo de comparação
+  clinicalContext: ClinicalContext; // Dados do paciente e do pedido, enviados ao modelo e impressos no cabeçalho
   isLoading: boolean; // True if any backend operation (text or audio generation) is in progress
+  isStreaming: boolean; // True while report text is still arriving from the model
   error: string | null;
+  reportImages: ReportImageInput[] | null; // Imagens usadas no laudo em tela, reaproveitadas no chat; null até serem carregadas
+  isAssessingCriticalFindings: boolean; // Segunda leitura do laudo em andamento; edições ficam bloqueadas até terminar
 }
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
-    prompt: "Descreva este Raio-x",
+    prompt: DEFAULT_PROMPT,
     processedFiles: [],
     urlEntries: [{ id: crypto.randomUUID(), value: '' }],
     reportData: null,
+    priorStudy: null,
+    clinicalContext: EMPTY_CLINICAL_CONTEXT,
     isLoading: false,
+    isStreaming: false,
     error: null,
+    reportImages: null,
+    isAssessingCriticalFindings: false,
   });
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const maxImages = providerSettings.maxImagesPerReport;
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [userProfile, setUserProfile] = useState<UserProfile>(loadUserProfile);
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(loadPreprocessingSettings);
+  // Estudo do histórico exibido na tela: guarda as entradas usadas na geração, mesmo que o formulário mude depois.
+  const [activeStudy, setActiveStudy] = useState<StudyRecord | null>(null);
+  const [studies, setStudies] = useState<StudySummary[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ReportTemplate[]>(loadReportTemplates);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(loadSelectedTemplateId);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) ?? null;
+
+  useEffect(() => {
+    saveReportTemplates(templates);
+  }, [templates]);
+
+  useEffect(() => {
+    saveSelectedTemplateId(selectedTemplateId);
+  }, [selectedTemplateId]);
+
+  useEffect(() => {
+    configureProviders(providerSettings);
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    configureSpeech(speechSettings);
+    saveSpeechSettings(speechSettings);
+  }, [speechSettings]);
+
+  useEffect(() => {
+    saveUserProfile(userProfile);
+  }, [userProfile]);
+
+  useEffect(() => {
+    savePreprocessingSettings(preprocessingSettings);
+  }, [preprocessingSettings]);
+
+  const refreshStudies = useCallback(async () => {
+    try {
+      setStudies(await listStudies());
+      setHistoryError(null);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStudies();
+  }, [refreshStudies]);
+
+  // Falhas ao salvar não interrompem o laudo em tela; apenas aparecem no histórico.
+  const persistStudy = useCallback(async (record: StudyRecord) => {
+    setActiveStudy(record);
+    try {
+      await saveStudy(record);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    await refreshStudies();
+  }, [refreshStudies]);
+
+  const handleTemplateChange = useCallback((id: string) => {
+    const template = templates.find(t => t.id === id) ?? null;
+    setSelectedTemplateId(template?.id ?? null);
+    if (template?.defaultPrompt.trim()) {
+      setState(prev => ({ ...prev, prompt: template.defaultPrompt }));
+    }
+  }, [templates]);
+
+  const updateUrlEntryAnnotation = useCallback((idToUpdate: string, annotation: ImageAnnotation) => {
+    setState(prev => ({
+      ...prev,
+      urlEntries: prev.urlEntries.map(entry =>
+        entry.id === idToUpdate ? { ...entry, annotation } : entry
+      )
+    }));
+  }, []);
 
   const handleFileSelectionChange = useCallback((newFilesFromInput: ProcessedImageFile[]) => {
     setState(prev => ({ ...prev, processedFiles: newFilesFromInput, error: null }));
   }, []);
 
+  const handleMarkFileAsPrior = useCallback((fileId: string) => {
+    setState(prev => {
+      const file = prev.processedFiles.find(f => f.id === fileId);
+      if (!file) return prev;
+      const priorStudy = prev.priorStudy ?? {
+        studyDate: formatDicomDate(file.dicom?.metadata.studyDate) ?? '',
+        reportText: '',
+        images: [],
+      };
+      if (priorStudy.images.length >= MAX_PRIOR_IMAGES) {
+        return { ...prev, error: `O exame anterior aceita no máximo ${MAX_PRIOR_IMAGES} imagens.` };
+      }
+      return {
+        ...prev,
+        processedFiles: prev.processedFiles.filter(f => f.id !== fileId),
+        priorStudy: { ...priorStudy, images: [...priorStudy.images, file] },
+        error: null,
+      };
+    });
+  }, []);
+
+  const handleReturnPriorImage = useCallback((fileId: string) => {
+    setState(prev => {
+      const file = prev.priorStudy?.images.find(f => f.id === fileId);
+      if (!prev.priorStudy || !file) return prev;
+      const filledUrls = prev.urlEntries.filter(u => u.value.trim()).length;
+      if (prev.processedFiles.length + filledUrls >= maxImages) {
+        return { ...prev, error: `Você pode fornecer no máximo ${maxImages} imagens no exame atual.` };
+      }
+      return {
+        ...prev,
+        processedFiles: [...prev.processedFiles, file],
+        priorStudy: { ...prev.priorStudy, images: prev.priorStudy.images.filter(f => f.id !== fileId) },
+        error: null,
+      };
+    });
+  }, [maxImages]);
+
+  const handleLoadPriorFromHistory = useCallback(async (id: string) => {
+    try {
+      const record = await getStudy(id);
+      if (!record) {
+        setHistoryError("Estudo não encontrado no histórico.");
+        return;
+      }
+      const priorStudy: PriorStudy = {
+        studyDate: record.reportData.structured?.examDate
+          ?? new Date(record.createdAt).toLocaleDateString('pt-BR'),
+        reportText: record.reportData.text.replace(/\*\*/g, ''),
+        images: record.processedFiles.slice(0, MAX_PRIOR_IMAGES).map(file => ({ ...file, id: crypto.randomUUID() })),
+        sourceStudyId: record.id,
+      };
+      setState(prev => ({ ...prev, priorStudy, error: null }));
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
   const addUrlEntry = useCallback(() => {
     setState(prev => {
       const currentFileCount = prev.processedFiles.length;
@@ -40,12 +245,12 @@ const App: React.FC = () => {
       const currentFilledUrlCount = prev.urlEntries.filter(u => u.value.trim()).length;
       const totalStagedImages = currentFileCount + currentFilledUrlCount;
 
-      if (currentUrlFieldsCount < MAX_IMAGES && totalStagedImages < MAX_IMAGES) {
+      if (currentUrlFieldsCount < maxImages && totalStagedImages < maxImages) {
         return { ...prev, urlEntries: [...prev.urlEntries, { id: crypto.randomUUID(), value: '' }] };
       }
       return prev;
     });
-  }, []);
+  }, [maxImages]);
 
   const removeUrlEntry = useCallback((idToRemove: string) => {
     setState(prev => ({ 
@@ -65,40 +270,29 @@ const App: React.FC = () => {
 
 
   const handleSubmit = async () => {
-    setState(prev => ({ ...prev, isLoading: true, error: null, reportData: null }));
-    
-    const imageParts: Part[] = [];
-    let processingError: string | null = null;
-
-    for (const file of state.processedFiles) {
-      if (imageParts.length < MAX_IMAGES) {
-        imageParts.push({ inlineData: { mimeType: file.mimeType, data: file.base64 } });
-      }
-    }
+    setState(prev => ({ ...prev, isLoading: true, error: null, reportData: null, reportImages: null }));
 
-    for (const entry of state.urlEntries) {
-      if (imageParts.length < MAX_IMAGES && entry.value.trim()) {
-        try {
-          const fetchedImage = await fetchImageAsBase64(entry.value.trim());
-          imageParts.push({ inlineData: { mimeType: fetchedImage.mimeType, data: fetchedImage.base64 } });
-        } catch (err) {
-          processingError = `Falha ao carregar imagem da URL "${entry.value.substring(0,30)}...": ${err instanceof Error ? err.message : String(err)}`;
-          break; 
-        }
+    const phiValues = studyPhiValues(state.processedFiles, state.priorStudy);
+    let deidentifiedImages: DeidentifiedImage[];
+    const deidentifiedPriorImages: DeidentifiedImage[] = [];
+    try {
+      requireRedactionReview(state.priorStudy?.images ?? [], ' Imagens do exame anterior podem ser devolvidas ao exame atual para isso.');
+      deidentifiedImages = await collectReportImages(state.processedFiles, state.urlEntries, phiValues, maxImages);
+      for (const file of state.priorStudy?.images ?? []) {
+        deidentifiedPriorImages.push(await deidentifyProcessedFile(file, phiValues));
       }
-    }
-
-    if (processingError) {
-      setState(prev => ({ ...prev, isLoading: false, error: processingError }));
+    } catch (err) {
+      setState(prev => ({ ...prev, isLoading: false, error: err instanceof Error ? err.message : String(err) }));
       return;
     }
+    const images = deidentifiedImages.map(result => result.image);
 
-    if (imageParts.length === 0) {
+    if (images.length === 0) {
       setState(prev => ({ ...prev, isLoading: false, error: "Nenhuma imagem fornecida. Adicione arquivos ou URLs." }));
       return;
     }
-     if (imageParts.length > MAX_IMAGES) {
-      setState(prev => ({ ...prev, isLoading: false, error: `Você pode fornecer no máximo ${MAX_IMAGES} imagens.` }));
+     if (images.length > maxImages) {
+      setState(prev => ({ ...prev, isLoading: false, error: `Você pode fornecer no máximo ${maxImages} imagens.` }));
       return;
     }
 
@@ -107,34 +301,230 @@ const App: React.FC = () => {
       return;
     }
 
+    // Textos enviados ao modelo passam pela mesma remoção dos dados do paciente lidos do DICOM.
+    // O estudo salvo mantém o que foi digitado, e o cabeçalho do laudo é refeito com esses valores ao final.
+    const studyInfo = deidentifyStudyInfo(summarizeDicomStudy(state.processedFiles), phiValues);
+    const prompt = scrubPhiText(state.prompt, phiValues);
+    const clinicalContext = deidentifyClinicalContext(state.clinicalContext, phiValues);
+    const priorReport = scrubPhiText(state.priorStudy?.reportText ?? '', phiValues);
+    const deidentification = summarizeDeidentification(
+      [...deidentifiedImages, ...deidentifiedPriorImages],
+      studyInfo.count + prompt.count + clinicalContext.count + priorReport.count,
+    );
+    const studyInputs = { prompt: state.prompt, processedFiles: state.processedFiles, urlEntries: state.urlEntries, templateId: selectedTemplate?.id, priorStudy: state.priorStudy ?? undefined, clinicalContext: state.clinicalContext, deidentification };
+    const prior = state.priorStudy
+      ? {
+          studyDate: state.priorStudy.studyDate.trim(),
+          reportText: priorReport.text,
+          images: deidentifiedPriorImages.map(result => result.image),
+        }
+      : undefined;
+    // Gerar de novo com um laudo em tela mantém o estudo e acrescenta o novo rascunho ao histórico de versões;
+    // assinaturas preliminares anteriores continuam no registro, presas às versões que assinaram.
+    // Um laudo final não é substituído: o novo rascunho vira outro estudo.
+    const previousStudy = activeStudy && state.reportData && !isReportLocked(state.reportData.status) ? activeStudy : null;
+    const previousVersions = previousStudy ? state.reportData?.versions ?? [] : [];
+    const previousSignOffs = previousStudy ? state.reportData?.signOffs ?? [] : [];
+    const previousAddenda = previousStudy ? state.reportData?.addenda ?? [] : [];
+    const studyId = previousStudy?.id ?? crypto.randomUUID();
+    const createdAt = previousStudy?.createdAt ?? Date.now();
+    const modelLabel = getReportModelLabel();
+    setActiveStudy(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setState(prev => ({ ...prev, isStreaming: true, reportImages: images }));
+
     try {
-      const reportText = await generateReportFromImage(state.prompt, imageParts);
+      let rawResponse = '';
+      let structured = null;
+      for await (const event of streamReportFromImage({ prompt: prompt.text, images, studyInfo: studyInfo.studyInfo, template: selectedTemplate ?? undefined, prior, clinicalContext: clinicalContext.context }, abortController.signal)) {
+        if (event.type === 'chunk') {
+          rawResponse += event.text;
+          // Renderiza as seções que já chegaram; o laudo só é validado ao final.
+          const partialText = formatReportAsMarkdown(parsePartialStructuredReport(rawResponse));
+          setState(prev => ({ ...prev, reportData: { text: partialText, audioDataUrl: null, structured: null, versions: [], status: 'draft', signOffs: [], addenda: [] } }));
+        } else {
+          structured = { ...event.report, ...clinicalHeaderFields(state.clinicalContext) };
+        }
+      }
+      if (!structured) {
+        throw new Error("O modelo encerrou a resposta sem um laudo completo.");
+      }
+      const reportText = formatReportAsMarkdown(structured);
+      const aiVersion = createReportVersion(reportText, 'ai', modelLabel);
+      const draftData: ReportData = {
+        text: reportText,
+        audioDataUrl: null,
+        structured,
+        versions: [...previousVersions, aiVersion],
+        status: 'draft',
+        signOffs: previousSignOffs,
+        addenda: previousAddenda,
+      };
       // Set text first, audio will be generated next. isLoading remains true.
-      setState(prev => ({ ...prev, reportData: { text: reportText, audioDataUrl: null } })); 
+      setState(prev => ({ ...prev, isStreaming: false, reportData: draftData, isAssessingCriticalFindings: true }));
+      // Salvo já sem áudio, para que uma falha na síntese de voz não perca o laudo.
+      persistStudy({ id: studyId, createdAt, updatedAt: Date.now(), ...studyInputs, reportData: draftData });
+
+      // Segunda leitura em busca de achados críticos, antes do áudio, para que o alerta apareça o quanto antes.
+      const assessment = await assessCriticalFindings(scrubPhiText(reportText, phiValues).text);
+      const reportData = applyCriticalFindingsAssessment(draftData, { ...assessment, versionId: aiVersion.id });
+      setState(prev => ({ ...prev, reportData, isAssessingCriticalFindings: false }));
+      const study: StudyRecord = { id: studyId, createdAt, updatedAt: Date.now(), ...studyInputs, reportData };
+      persistStudy(study);
 
       if (reportText) {
-        const audioDataUrl = await generateSpeechFromText(reportText);
-        setState(prev => ({ ...prev, reportData: { text: reportText, audioDataUrl }, isLoading: false }));
+        const { audioDataUrl, segments } = await generateSectionedSpeech(scrubPhiText(reportText, phiValues).text);
+        const reportDataWithAudio: ReportData = { ...reportData, audioDataUrl, audioSegments: segments };
+        setState(prev => ({ ...prev, reportData: reportDataWithAudio, isLoading: false }));
+        persistStudy({ ...study, updatedAt: Date.now(), reportData: reportDataWithAudio });
       } else {
         setState(prev => ({ ...prev, isLoading: false, error: "Falha ao gerar o texto do laudo."}));
       }
     } catch (err) {
+      if (abortController.signal.aborted) {
+        setState(prev => ({ ...prev, isLoading: false, isStreaming: false, reportData: null, error: "Geração do laudo cancelada." }));
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : JSON.stringify(err);
-      setState(prev => ({ ...prev, isLoading: false, error: `Ocorreu um erro: ${errorMessage}` }));
+      setState(prev => ({ ...prev, isLoading: false, isStreaming: false, isAssessingCriticalFindings: false, error: `Ocorreu um erro: ${errorMessage}` }));
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
-  const handleSaveEditedReport = useCallback((newText: string) => {
+  const handleCancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const updateReportData = useCallback((reportData: ReportData) => {
+    setState(prev => ({ ...prev, reportData }));
+    if (activeStudy) {
+      persistStudy({ ...activeStudy, updatedAt: Date.now(), reportData });
+    }
+  }, [activeStudy, persistStudy]);
+
+  // Registra uma nova versão do texto (edição manual, sugestão do chat ou restauração).
+  // O áudio combinado é invalidado; o áudio por seção fica como cache e só as seções alteradas são sintetizadas de novo.
+  const saveReportVersion = useCallback((version: ReportVersion, chat = state.reportData?.chat) => {
+    if (!state.reportData) return;
+    let reportData: ReportData;
+    try {
+      reportData = applyReportVersion(state.reportData, version);
+    } catch (err) {
+      setState(prev => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+      return;
+    }
     setState(prev => ({
       ...prev,
-      reportData: {
-        text: newText,
-        audioDataUrl: null // Invalidate existing audio
-      },
       isLoading: false, // Finished editing text part
       error: null
     }));
-  }, []);
+    updateReportData({ ...reportData, chat });
+  }, [state.reportData, updateReportData]);
+
+  const handleSaveEditedReport = useCallback((newText: string) => {
+    if (newText === state.reportData?.text) return;
+    saveReportVersion(createReportVersion(newText, 'manual', userProfile.name));
+  }, [state.reportData?.text, userProfile.name, saveReportVersion]);
+
+  const handleRestoreVersion = useCallback((versionId: string) => {
+    const versions = state.reportData?.versions ?? [];
+    const number = versions.findIndex(version => version.id === versionId) + 1;
+    const version = versions[number - 1];
+    if (!version) return;
+    saveReportVersion(createReportVersion(version.text, 'restore', userProfile.name, `Restaurada a versão ${number}`));
+  }, [state.reportData?.versions, userProfile.name, saveReportVersion]);
+
+  // As imagens do laudo são carregadas de novo (arquivos e URLs do estudo) quando o estudo veio do histórico.
+  const handleAskAboutReport = useCallback(async (question: string) => {
+    const reportData = state.reportData;
+    if (!reportData?.text) {
+      throw new Error("Não há laudo para discutir.");
+    }
+    const files = activeStudy?.processedFiles ?? state.processedFiles;
+    const phiValues = studyPhiValues(files, activeStudy ? activeStudy.priorStudy : state.priorStudy);
+    let images = state.reportImages;
+    if (!images) {
+      images = (await collectReportImages(files, activeStudy?.urlEntries ?? state.urlEntries, phiValues, maxImages)).map(result => result.image);
+      const loadedImages = images;
+      setState(prev => ({ ...prev, reportImages: loadedImages }));
+    }
+    const history = reportData.chat ?? [];
+    const userMessage: ReportChatMessage = { id: crypto.randomUUID(), role: 'user', text: question, createdAt: Date.now() };
+    const reply = await askAboutReport({
+      images,
+      studyInfo: deidentifyStudyInfo(summarizeDicomStudy(files), phiValues).studyInfo,
+      reportText: scrubPhiText(reportData.text, phiValues).text,
+      messages: [...history, userMessage].map(message => ({ role: message.role, text: scrubPhiText(message.text, phiValues).text })),
+    });
+    const assistantMessage: ReportChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      text: reply.reply,
+      createdAt: Date.now(),
+      suggestedReport: reply.revisedReport,
+    };
+    updateReportData({ ...reportData, chat: [...history, userMessage, assistantMessage] });
+  }, [state.reportData, state.reportImages, state.processedFiles, state.urlEntries, state.priorStudy, activeStudy, updateReportData, maxImages]);
+
+  const handleApplyChatSuggestion = useCallback((messageId: string) => {
+    const chat = state.reportData?.chat ?? [];
+    const index = chat.findIndex(message => message.id === messageId);
+    const suggestion = chat[index]?.suggestedReport;
+    if (!suggestion) return;
+    const question = chat.slice(0, index).reverse().find(message => message.role === 'user')?.text;
+    const version = createReportVersion(suggestion, 'chat', userProfile.name, question);
+    saveReportVersion(
+      version,
+      chat.map(message => (message.id === messageId ? { ...message, appliedAt: version.createdAt } : message)),
+    );
+  }, [state.reportData, userProfile.name, saveReportVersion]);
+
+  // Falhas de assinatura (perfil incompleto, transição inválida) são lançadas para o painel de status exibir.
+  const handleStartReview = useCallback(() => {
+    if (state.reportData?.status !== 'draft') return;
+    updateReportData({ ...state.reportData, status: 'in-review' });
+  }, [state.reportData, updateReportData]);
+
+  const handleSignReport = useCallback((target: ReportSignOff['status']) => {
+    if (!state.reportData) return;
+    const signed = signReport(state.reportData, target, userProfile);
+    if (target === 'final' && !window.confirm("Após a assinatura final o texto do laudo não poderá mais ser alterado; correções só por adendo. Assinar?")) {
+      return;
+    }
+    updateReportData(signed);
+  }, [state.reportData, userProfile, updateReportData]);
+
+  const handleAddAddendum = useCallback((text: string) => {
+    if (!state.reportData) return;
+    updateReportData(addAddendum(state.reportData, text, userProfile));
+  }, [state.reportData, userProfile, updateReportData]);
+
+  const handleReassessCriticalFindings = useCallback(async () => {
+    const reportData = state.reportData;
+    if (!reportData?.text) return;
+    setState(prev => ({ ...prev, isAssessingCriticalFindings: true, error: null }));
+    try {
+      const phiValues = studyPhiValues(activeStudy?.processedFiles ?? state.processedFiles, activeStudy ? activeStudy.priorStudy : state.priorStudy);
+      const assessment = await assessCriticalFindings(scrubPhiText(reportData.text, phiValues).text);
+      const versionId = reportData.versions[reportData.versions.length - 1]?.id;
+      updateReportData(applyCriticalFindingsAssessment(reportData, { ...assessment, versionId }));
+    } catch (err) {
+      setState(prev => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setState(prev => ({ ...prev, isAssessingCriticalFindings: false }));
+    }
+  }, [state.reportData, state.processedFiles, state.priorStudy, activeStudy, updateReportData]);
+
+  // Falhas de validação são lançadas para o alerta exibir.
+  const handleRecordCriticalNotification = useCallback((notification: Pick<CriticalFindingsNotification, 'notifiedPerson' | 'method' | 'notifiedAt'>) => {
+    if (!state.reportData) return;
+    updateReportData(recordCriticalNotification(state.reportData, notification, userProfile));
+  }, [state.reportData, userProfile, updateReportData]);
 
   const handleGenerateAudioForEditedReport = useCallback(async () => {
     if (!state.reportData?.text) {
@@ -143,20 +533,95 @@ const App: React.FC = () => {
     }
     setState(prev => ({ ...prev, isLoading: true, error: null }));
     try {
-      const audioDataUrl = await generateSpeechFromText(state.reportData.text);
+      const phiValues = studyPhiValues(activeStudy?.processedFiles ?? state.processedFiles, activeStudy ? activeStudy.priorStudy : state.priorStudy);
+      const { audioDataUrl, segments } = await generateSectionedSpeech(scrubPhiText(state.reportData.text, phiValues).text, state.reportData.audioSegments);
+      const reportData: ReportData = { ...state.reportData, audioDataUrl, audioSegments: segments };
       setState(prev => ({
         ...prev,
-        reportData: { ...prev.reportData!, audioDataUrl },
+        reportData,
         isLoading: false
       }));
+      if (activeStudy) {
+        persistStudy({ ...activeStudy, updatedAt: Date.now(), reportData });
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : JSON.stringify(err);
       setState(prev => ({ ...prev, isLoading: false, error: `Falha ao gerar áudio: ${errorMessage}` }));
     }
-  }, [state.reportData?.text]);
+  }, [state.reportData, state.processedFiles, state.priorStudy, activeStudy, persistStudy]);
+
+  const showStudy = useCallback((record: StudyRecord) => {
+    setActiveStudy(record);
+    if (record.templateId && templates.some(t => t.id === record.templateId)) {
+      setSelectedTemplateId(record.templateId);
+    }
+    setState(prev => ({
+      ...prev,
+      prompt: record.prompt,
+      processedFiles: record.processedFiles,
+      urlEntries: record.urlEntries,
+      reportData: record.reportData,
+      priorStudy: record.priorStudy ?? null,
+      clinicalContext: record.clinicalContext ?? EMPTY_CLINICAL_CONTEXT,
+      error: null,
+      reportImages: null,
+    }));
+  }, [templates]);
+
+  const handleOpenStudy = useCallback(async (id: string) => {
+    try {
+      const record = await getStudy(id);
+      if (!record) {
+        setHistoryError("Estudo não encontrado no histórico.");
+        await refreshStudies();
+        return;
+      }
+      showStudy(record);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+    }
+  }, [showStudy, refreshStudies]);
+
+  const handleDuplicateStudy = useCallback(async (id: string) => {
+    try {
+      showStudy(await duplicateStudy(id));
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshStudies();
+  }, [showStudy, refreshStudies]);
+
+  const handleDeleteStudy = useCallback(async (id: string) => {
+    try {
+      await deleteStudy(id);
+      if (activeStudy?.id === id) {
+        setActiveStudy(null);
+      }
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshStudies();
+  }, [activeStudy, refreshStudies]);
+
+  const handleNewStudy = useCallback(() => {
+    setActiveStudy(null);
+    setState(prev => ({
+      ...prev,
+      prompt: selectedTemplate?.defaultPrompt.trim() ? selectedTemplate.defaultPrompt : DEFAULT_PROMPT,
+      processedFiles: [],
+      urlEntries: [{ id: crypto.randomUUID(), value: '' }],
+      reportData: null,
+      priorStudy: null,
+      clinicalContext: EMPTY_CLINICAL_CONTEXT,
+      error: null,
+      reportImages: null,
+    }));
+  }, [selectedTemplate]);
   
   const numFilledUrlEntries = state.urlEntries.filter(u => u.value.trim()).length;
   const totalImagesProvided = state.processedFiles.length + numFilledUrlEntries;
+  // Custo estimado do que sai como arquivo (atuais e anteriores); URLs só são baixadas no envio.
+  const uploadCost = estimateUploadCost([...state.processedFiles, ...(state.priorStudy?.images ?? [])], providerSettings.reportProvider);
 
   // Determine if the main submit button should be for initial generation or new report
   const submitButtonText = state.reportData?.text 
@@ -164,10 +629,20 @@ const App: React.FC = () => {
     : `Gerar Laudo e Áudio (${totalImagesProvided} imagem(s))`;
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 py-8 px-4 sm:px-6 lg:px-8 flex flex-col items-center">
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 py-8 px-4 sm:px-6 lg:px-8 flex flex-col lg:flex-row lg:items-start justify-center gap-6">
+      <HistorySidebar
+        studies={studies}
+        activeStudyId={activeStudy?.id ?? null}
+        onOpenStudy={handleOpenStudy}
+        onDuplicateStudy={handleDuplicateStudy}
+        onDeleteStudy={handleDeleteStudy}
+        onNewStudy={handleNewStudy}
+        error={historyError}
+        disabled={state.isLoading}
+      />
       <div className="max-w-5xl w-full bg-white shadow-2xl rounded-xl overflow-hidden">
         <header className="bg-indigo-600 p-6 flex items-center space-x-4">
-          {rainerLogoBase64 !== "data:image/png;base64,PLACEHOLDER_FOR_RAINER_LOGO_BASE64_STRING" && (
+          {hasRainerLogo && (
             <img 
               src={rainerLogoBase64} 
               alt="RAIner Logo" 
@@ -179,15 +654,69 @@ const App: React.FC = () => {
               Assistente de Radiologia com Gemini
             </h1>
             <p className="text-sm text-indigo-200 mt-2">
-              Análise de múltiplas imagens radiológicas (até {MAX_IMAGES}) e laudos por voz com IA.
+              Análise de múltiplas imagens radiológicas (até {maxImages}) e laudos por voz com IA.
             </p>
           </div>
+          <div className="ml-auto flex-shrink-0 w-56 space-y-1">
+            <label className="block text-xs font-medium text-indigo-100">
+              Radiologista
+              <input
+                value={userProfile.name}
+                onChange={(e) => setUserProfile(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Seu nome (autor das versões)"
+                className="mt-1 block w-full px-2 py-1 rounded-md border border-indigo-300 text-sm text-black"
+              />
+            </label>
+            <input
+              value={userProfile.registry}
+              onChange={(e) => setUserProfile(prev => ({ ...prev, registry: e.target.value }))}
+              placeholder="Registro (ex: CRM-SP 123456)"
+              aria-label="Registro profissional"
+              className="block w-full px-2 py-1 rounded-md border border-indigo-300 text-sm text-black"
+            />
+          </div>
         </header>
 
         <main className="p-6 space-y-6">
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onChange={setProviderSettings}
+            disabled={state.isLoading}
+          />
+          <SpeechSettingsPanel
+            settings={speechSettings}
+            onChange={setSpeechSettings}
+            providerSettings={providerSettings}
+            onProviderSettingsChange={setProviderSettings}
+            disabled={state.isLoading}
+          />
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Coluna 1: Prompt */}
             <div className="p-4 border border-gray-300 rounded-lg shadow-sm bg-white flex flex-col">
+              <label htmlFor="report-template" className="block text-sm font-medium text-gray-700 mb-1">
+                Modelo de Laudo
+              </label>
+              <div className="flex space-x-2 mb-3">
+                <select
+                  id="report-template"
+                  value={selectedTemplate?.id ?? ''}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black"
+                  disabled={state.isLoading}
+                >
+                  <option value="">Sem modelo (genérico)</option>
+                  {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <button
+                  onClick={() => setIsTemplateManagerOpen(true)}
+                  disabled={state.isLoading}
+                  className="py-2 px-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  title="Criar, editar, importar e exportar modelos"
+                >
+                  Gerenciar
+                </button>
+              </div>
               <label htmlFor="prompt" className="block text-sm font-medium text-gray-700 mb-1">
                 Seu Prompt / Instruções
               </label>
@@ -208,8 +737,12 @@ const App: React.FC = () => {
               processedFiles={state.processedFiles}
               onFileSelectionChange={handleFileSelectionChange}
               disabled={state.isLoading}
-              maxOverallImages={MAX_IMAGES}
+              maxOverallImages={maxImages}
               numCurrentUrlImages={numFilledUrlEntries}
+              onMarkAsPrior={handleMarkFileAsPrior}
+              preprocessingSettings={preprocessingSettings}
+              onPreprocessingSettingsChange={setPreprocessingSettings}
+              tokenProvider={providerSettings.reportProvider}
             />
             
             {/* Coluna 3: URL Input */}
@@ -218,22 +751,45 @@ const App: React.FC = () => {
               onAddUrlEntry={addUrlEntry}
               onRemoveUrlEntry={removeUrlEntry}
               onUpdateUrlEntryValue={updateUrlEntryValue}
+              onUpdateUrlEntryAnnotation={updateUrlEntryAnnotation}
               disabled={state.isLoading}
-              maxOverallImages={MAX_IMAGES}
+              maxOverallImages={maxImages}
               numCurrentFileImages={state.processedFiles.length}
             />
           </div>
 
+          <ClinicalContextForm
+            context={state.clinicalContext}
+            onChange={(clinicalContext) => setState(prev => ({ ...prev, clinicalContext }))}
+            disabled={state.isLoading}
+          />
+
+          <PriorStudyPanel
+            priorStudy={state.priorStudy}
+            studies={studies.filter(study => study.id !== activeStudy?.id)}
+            onChange={(priorStudy) => setState(prev => ({ ...prev, priorStudy }))}
+            onLoadFromHistory={handleLoadPriorFromHistory}
+            onReturnImage={handleReturnPriorImage}
+            disabled={state.isLoading}
+          />
+
           <div className="mt-1 p-3 bg-indigo-50 rounded-md text-sm text-indigo-800 text-center shadow">
-            Total de imagens para análise: <strong>{totalImagesProvided} / {MAX_IMAGES}</strong>
+            Total de imagens para análise: <strong>{totalImagesProvided} / {maxImages}</strong>
              <span className="block text-xs text-indigo-600 mt-1">
-                A contagem total de arquivos e URLs preenchidas não deve exceder {MAX_IMAGES}.
+                A contagem total de arquivos e URLs preenchidas não deve exceder {maxImages}.
             </span>
+            {uploadCost.bytes > 0 && (
+              <span className="block text-xs text-indigo-600 mt-1">
+                Envio estimado dos arquivos: {formatBytes(uploadCost.bytes)} · ~{uploadCost.tokens.toLocaleString('pt-BR')} tokens de imagem
+                {uploadCost.unmeasured > 0 ? ` (${uploadCost.unmeasured} sem dimensões conhecidas)` : ''}
+                {numFilledUrlEntries > 0 ? ' · URLs não incluídas' : ''}
+              </span>
+            )}
           </div>
               
           <button
             onClick={handleSubmit}
-            disabled={state.isLoading || !state.prompt.trim() || totalImagesProvided === 0 || totalImagesProvided > MAX_IMAGES}
+            disabled={state.isLoading || !state.prompt.trim() || totalImagesProvided === 0 || totalImagesProvided > maxImages}
             className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
             aria-live="polite"
           >
@@ -252,27 +808,84 @@ const App: React.FC = () => {
           <div className="mt-6">
             <ReportOutput
               reportText={state.reportData?.text ?? null}
+              structuredReport={state.reportData?.structured ?? null}
+              status={state.reportData?.status ?? 'draft'}
+              signOffs={state.reportData?.signOffs ?? []}
+              addenda={state.reportData?.addenda ?? []}
+              criticalFindings={state.reportData?.criticalFindings ?? null}
+              criticalNotification={state.reportData ? currentCriticalNotification(state.reportData) : null}
+              isCriticalFindingsStale={!!state.reportData?.criticalFindings && state.reportData.criticalFindings.versionId !== state.reportData.versions[state.reportData.versions.length - 1]?.id}
+              isAssessingCriticalFindings={state.isAssessingCriticalFindings}
+              onReassessCriticalFindings={handleReassessCriticalFindings}
+              onRecordCriticalNotification={handleRecordCriticalNotification}
               audioDataUrl={state.reportData?.audioDataUrl ?? null}
+              audioSegments={state.reportData?.audioDataUrl ? state.reportData.audioSegments ?? [] : []}
+              keyImageCandidates={activeStudy?.processedFiles ?? state.processedFiles}
               isLoadingReport={state.isLoading && !state.reportData?.text} // True when initial text is loading
-              isLoadingAudio={state.isLoading && !!state.reportData?.text && !state.reportData?.audioDataUrl} // True when audio is loading for existing text
+              isLoadingAudio={state.isLoading && !state.isStreaming && !!state.reportData?.text && !state.reportData?.audioDataUrl} // True when audio is loading for existing text
+              isStreaming={state.isStreaming}
+              onCancelGeneration={handleCancelGeneration}
               error={state.error}
               onSaveEditedReport={handleSaveEditedReport}
               onGenerateAudioRequest={handleGenerateAudioForEditedReport}
             />
           </div>
+
+          {state.reportData?.text && !state.isStreaming && (
+            <div className="mt-6">
+              <ReportStatusPanel
+                status={state.reportData.status}
+                signOffs={state.reportData.signOffs}
+                addenda={state.reportData.addenda}
+                signer={userProfile}
+                onStartReview={handleStartReview}
+                onSign={handleSignReport}
+                onAddAddendum={handleAddAddendum}
+                disabled={state.isLoading || state.isAssessingCriticalFindings}
+              />
+            </div>
+          )}
+
+          {state.reportData && state.reportData.versions.length > 0 && !state.isStreaming && (
+            <div className="mt-6">
+              <ReportVersionHistory
+                versions={state.reportData.versions}
+                currentText={state.reportData.text}
+                onRestore={handleRestoreVersion}
+                disabled={state.isLoading || state.isAssessingCriticalFindings || isReportLocked(state.reportData.status)}
+              />
+            </div>
+          )}
+
+          {state.reportData?.text && !state.isStreaming && (
+            <div className="mt-6">
+              <ReportChatPanel
+                messages={state.reportData.chat ?? []}
+                onAsk={handleAskAboutReport}
+                onApplySuggestion={handleApplyChatSuggestion}
+                canApplySuggestions={!isReportLocked(state.reportData.status)}
+                disabled={state.isLoading || state.isAssessingCriticalFindings}
+              />
+            </div>
+          )}
         </main>
 
+        {isTemplateManagerOpen && (
+          <TemplateManagerModal
+            templates={templates}
+            initialTemplateId={selectedTemplate?.id ?? null}
+            onChange={setTemplates}
+            onClose={() => setIsTemplateManagerOpen(false)}
+          />
+        )}
+
         <footer className="p-6 border-t border-gray-200 bg-gray-50">
-            <h3 className="text-md font-semibold text-gray-700 mb-2">Aviso Legal</h3>
+            <h3 className="text-md font-semibold text-gray-700 mb-2">{LEGAL_DISCLAIMER_TITLE}</h3>
             <p className="text-xs text-gray-600">
-                Este aplicativo é apenas para fins de demonstração e ilustração. 
-                As informações geradas não se destinam a diagnosticar, tratar, curar ou prevenir qualquer doença ou condição, 
-                e não devem ser usadas como substituto de aconselhamento médico profissional. 
-                Sempre consulte um profissional de saúde qualificado para quaisquer preocupações de saúde ou antes de tomar qualquer decisão relacionada à sua saúde ou tratamento.
-                A interpretação das imagens pela IA pode não ser precisa ou completa.
+                {LEGAL_DISCLAIMER}
             </p>
              <p className="text-xs text-gray-500 mt-4 text-center">
-                Desenvolvido com Google Gemini. A chave de API para os serviços Gemini deve ser configurada no ambiente.
+                Desenvolvido com Google Gemini. A chave de API do Gemini fica no servidor da aplicação e nunca é enviada ao navegador.
             </p>
         </footer>
       </div>
@@ -0,0 +1,100 @@
+import React from 'react';
+import { ClinicalContext, ClinicalContextSex } from '../types';
+import { CLINICAL_CONTEXT_SEX_LABELS } from '../services/clinicalContext';
+
+interface ClinicalContextFormProps {
+  context: ClinicalContext;
+  onChange: (context: ClinicalContext) => void;
+  disabled: boolean;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black";
+
+const ClinicalContextForm: React.FC<ClinicalContextFormProps> = ({ context, onChange, disabled }) => {
+  const update = (changes: Partial<ClinicalContext>) => onChange({ ...context, ...changes });
+
+  return (
+    <div className="p-4 border border-gray-300 rounded-lg shadow-sm bg-white space-y-3">
+      <div>
+        <h3 className="text-lg font-medium text-gray-800">Paciente e Pedido</h3>
+        <p className="text-xs text-gray-500">
+          Enviados ao modelo como dados explícitos e impressos no cabeçalho do laudo. Campos em branco saem como não informados.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Idade
+          <input
+            value={context.patientAge}
+            onChange={(e) => update({ patientAge: e.target.value })}
+            placeholder="Ex: 54 ou 8 meses"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Sexo
+          <select
+            value={context.patientSex}
+            onChange={(e) => update({ patientSex: e.target.value as ClinicalContextSex })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">Não informado</option>
+            {(Object.keys(CLINICAL_CONTEXT_SEX_LABELS) as Exclude<ClinicalContextSex, ''>[]).map(sex => (
+              <option key={sex} value={sex}>{CLINICAL_CONTEXT_SEX_LABELS[sex]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Exame solicitado
+          <input
+            value={context.examType}
+            onChange={(e) => update({ examType: e.target.value })}
+            placeholder="Ex: TC de crânio sem contraste"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Médico solicitante
+          <input
+            value={context.requestingPhysician}
+            onChange={(e) => update({ requestingPhysician: e.target.value })}
+            placeholder="Nome e CRM"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Indicação clínica
+          <textarea
+            rows={2}
+            value={context.clinicalIndication}
+            onChange={(e) => update({ clinicalIndication: e.target.value })}
+            placeholder="Ex: Cefaleia súbita há 2 horas"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Antecedentes relevantes
+          <textarea
+            rows={2}
+            value={context.relevantHistory}
+            onChange={(e) => update({ relevantHistory: e.target.value })}
+            placeholder="Ex: Hipertensão, uso de anticoagulante"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ClinicalContextForm;
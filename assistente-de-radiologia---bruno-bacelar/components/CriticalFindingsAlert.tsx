@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { CriticalFindingsAssessment, CriticalFindingsNotification } from '../types';
+import { CRITICAL_SEVERITY_LABELS } from '../services/criticalFindings';
+
+type NotificationInput = Pick<CriticalFindingsNotification, 'notifiedPerson' | 'method' | 'notifiedAt'>;
+
+interface CriticalFindingsAlertProps {
+  assessment: CriticalFindingsAssessment | null;
+  notification: CriticalFindingsNotification | null;
+  isStale: boolean;       // O texto mudou depois da última avaliação
+  isAssessing: boolean;
+  onReassess: () => void;
+  onRecordNotification: (notification: NotificationInput) => void; // Lança em caso de falha; a mensagem é exibida no alerta
+  disabled: boolean;
+}
+
+const NOTIFICATION_METHODS = ['Telefone', 'Pessoalmente', 'Mensagem segura', 'Outro'];
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Valor aceito por <input type="datetime-local"> (horário local, sem segundos).
+const toLocalInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const inputClassName = "mt-1 block w-full px-2 py-1 bg-white border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-red-500 focus:border-red-500";
+
+const CriticalFindingsAlert: React.FC<CriticalFindingsAlertProps> = ({ assessment, notification, isStale, isAssessing, onReassess, onRecordNotification, disabled }) => {
+  const [notifiedPerson, setNotifiedPerson] = useState('');
+  const [method, setMethod] = useState(NOTIFICATION_METHODS[0]);
+  const [notifiedAt, setNotifiedAt] = useState(() => toLocalInputValue(Date.now()));
+  const [confirmed, setConfirmed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reassessButton = (label: string) => (
+    <button
+      onClick={onReassess}
+      disabled={disabled || isAssessing}
+      className="text-xs font-medium text-indigo-700 hover:text-indigo-900 underline disabled:text-gray-400"
+    >
+      {label}
+    </button>
+  );
+
+  if (isAssessing) {
+    return <p className="text-sm text-gray-500 animate-pulse">Verificando achados críticos no laudo...</p>;
+  }
+
+  if (!assessment) {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 rounded-md border border-gray-200 bg-gray-50 text-sm text-gray-700">
+        <span>Achados críticos ainda não verificados neste laudo.</span>
+        {reassessButton('Verificar achados críticos')}
+      </div>
+    );
+  }
+
+  const sourceNote = assessment.source === 'rules'
+    ? `Avaliação por palavras-chave: o modelo não respondeu (${assessment.fallbackReason ?? 'erro desconhecido'}).`
+    : `Avaliado pelo modelo em ${formatDateTime(assessment.assessedAt)}.`;
+
+  if (assessment.findings.length === 0) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-md border border-green-200 bg-green-50 text-sm text-green-800">
+        <span>Nenhum achado crítico identificado. <span className="text-xs text-green-700">{sourceNote}</span></span>
+        {isStale && reassessButton('O texto mudou: reavaliar')}
+      </div>
+    );
+  }
+
+  const handleRecord = () => {
+    setError(null);
+    try {
+      onRecordNotification({ notifiedPerson, method, notifiedAt: new Date(notifiedAt).getTime() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div role="alert" className="p-4 rounded-md border-2 border-red-500 bg-red-50 text-red-900 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <h4 className="text-lg font-bold">⚠ Achados críticos — comunicação obrigatória</h4>
+        {isStale && reassessButton('O texto mudou: reavaliar')}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {assessment.findings.map((finding, index) => (
+          <li key={index}>
+            <span className={`mr-2 text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${finding.severity === 'critical' ? 'bg-red-600 text-white' : 'bg-amber-500 text-white'}`}>
+              {CRITICAL_SEVERITY_LABELS[finding.severity]}
+            </span>
+            <span className="font-semibold">{finding.finding}</span>
+            {finding.excerpt && <span className="block text-xs text-red-800 italic">"{finding.excerpt}"</span>}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-red-700">{sourceNote}</p>
+
+      {notification ? (
+        <p className="text-sm bg-white border border-red-200 rounded-md p-2">
+          Comunicado a <strong>{notification.notifiedPerson}</strong> ({notification.method.toLowerCase()}) em {formatDateTime(notification.notifiedAt)}.
+          Registrado por {notification.acknowledgedBy} em {formatDateTime(notification.recordedAt)}.
+        </p>
+      ) : (
+        <div className="bg-white border border-red-200 rounded-md p-3 space-y-2">
+          <p className="text-sm font-medium">Registre quem foi comunicado. O laudo não pode ser assinado como final antes disso.</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <label className="block text-xs font-medium text-gray-700 md:col-span-1">
+              Quem foi comunicado
+              <input
+                value={notifiedPerson}
+                onChange={(e) => setNotifiedPerson(e.target.value)}
+                placeholder="Nome e função"
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Meio
+              <select value={method} onChange={(e) => setMethod(e.target.value)} className={inputClassName} disabled={disabled}>
+                {NOTIFICATION_METHODS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Quando
+              <input
+                type="datetime-local"
+                value={notifiedAt}
+                max={toLocalInputValue(Date.now())}
+                onChange={(e) => setNotifiedAt(e.target.value)}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-800">
+            <input type="checkbox" checked={confirmed} onChange={(e) => setConfirmed(e.target.checked)} disabled={disabled} />
+            Confirmo que os achados acima foram comunicados.
+          </label>
+          <button
+            onClick={handleRecord}
+            disabled={disabled || !confirmed || !notifiedPerson.trim() || !notifiedAt}
+            className="py-1 px-3 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+          >
+            Registrar comunicação
+          </button>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CriticalFindingsAlert;
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { transcribeDictation } from '../services/geminiService';
+import { DICTATION_COMMANDS, applyDictation, listReportFields, parseDictation } from '../services/dictation';
+
+interface DictationControlsProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  disabled?: boolean;
+}
+
+type DictationStatus = 'idle' | 'recording' | 'transcribing';
+
+const DictationControls: React.FC<DictationControlsProps> = ({ text, onTextChange, disabled = false }) => {
+  const [status, setStatus] = useState<DictationStatus>('idle');
+  const [activeField, setActiveField] = useState(0);
+  const [lastTranscript, setLastTranscript] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // A transcrição chega depois da gravação: aplica-se sobre o texto atual, não sobre o do início do ditado.
+  const textRef = useRef(text);
+  const activeFieldRef = useRef(activeField);
+  textRef.current = text;
+  activeFieldRef.current = activeField;
+
+  const fields = useMemo(() => listReportFields(text), [text]);
+  const isSupported = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    if (activeField > fields.length - 1) setActiveField(Math.max(fields.length - 1, 0));
+  }, [fields.length, activeField]);
+
+  // Libera o microfone se o editor for fechado durante a gravação.
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  const handleRecording = async (recording: Blob) => {
+    setStatus('transcribing');
+    try {
+      const transcript = await transcribeDictation(recording);
+      setLastTranscript(transcript);
+      const result = applyDictation(textRef.current, activeFieldRef.current, parseDictation(transcript));
+      onTextChange(result.text);
+      setActiveField(result.activeField);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        void handleRecording(new Blob(chunksRef.current, { type: recorder.mimeType }));
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setStatus('recording');
+    } catch (err) {
+      console.error("Erro ao acessar o microfone:", err);
+      setError("Não foi possível acessar o microfone. Verifique a permissão do navegador.");
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  if (!isSupported) {
+    return <p className="text-xs text-gray-500">Este navegador não permite gravar áudio; o ditado não está disponível.</p>;
+  }
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-md bg-gray-50 space-y-2">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block text-sm font-medium text-gray-700 flex-1 min-w-[12rem]">
+          Campo ativo do ditado
+          <select
+            value={Math.min(activeField, fields.length - 1)}
+            onChange={(e) => setActiveField(Number(e.target.value))}
+            disabled={disabled || status !== 'idle'}
+            className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black"
+          >
+            {fields.map((field, index) => <option key={`${field.label}-${index}`} value={index}>{field.label}</option>)}
+          </select>
+        </label>
+        {status === 'recording' ? (
+          <button
+            onClick={stopRecording}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+          >
+            ■ Parar ditado
+          </button>
+        ) : (
+          <button
+            onClick={startRecording}
+            disabled={disabled || status === 'transcribing'}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400"
+          >
+            {status === 'transcribing' ? 'Transcrevendo...' : '🎤 Ditar'}
+          </button>
+        )}
+      </div>
+      {status === 'recording' && (
+        <p className="text-sm text-red-600" role="status">Gravando... fale o texto e os comandos; clique em "Parar ditado" ao terminar.</p>
+      )}
+      {lastTranscript !== null && (
+        <p className="text-xs text-gray-600"><span className="font-medium">Última transcrição:</span> {lastTranscript || '(vazia)'}</p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-xs text-gray-500">
+        Comandos: {DICTATION_COMMANDS.map(item => `"${item.phrase}"`).join(', ')}.
+      </p>
+    </div>
+  );
+};
+
+export default DictationControls;
@@ -1,9 +1,32 @@
 import React, { useState, useCallback } from 'react';
-import { ProcessedImageFile } from '../types';
+import { ImageAnnotation, ImageSeries, PreprocessedImageFormat, PreprocessingSettings, ProcessedImageFile, ProviderId, RedactionBox, RegionOfInterest } from '../types';
 import ImagePreviewModal from './ImagePreviewModal'; // Import the modal
+import ImageAnnotationFields from './ImageAnnotationFields';
+import SeriesPanel from './SeriesPanel';
+import { isDicomFile, loadDicomFile, renderDicomFrame } from '../services/dicomService';
+import { LoadedImage, createMultiFrameSeries, loadSeries } from '../services/imageSeries';
+import { detectRedactionBoxes, isRedactionPending } from '../services/deidentification';
+import {
+  ImageGeometryEdit,
+  MAX_DIMENSION_OPTIONS,
+  OUTPUT_FORMAT_LABELS,
+  editImageGeometry,
+  estimateImageCost,
+  formatBytes,
+  isSourceFrame,
+  outputPixelSpacing,
+  preprocessImage,
+  replaceSourceImage,
+  reprocessImage,
+} from '../services/imagePreprocessing';
 
-const MAX_FILE_SIZE_MB = 4;
+// Originais grandes são reduzidos e recomprimidos no navegador antes do envio.
+const MAX_FILE_SIZE_MB = 25;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+// DICOM files carry uncompressed pixel data and are converted to PNG before sending, so they get a larger limit.
+// Checked before reading, so it also applies to multi-frame files (which become a series).
+const MAX_DICOM_FILE_SIZE_MB = 50;
+const MAX_DICOM_FILE_SIZE_BYTES = MAX_DICOM_FILE_SIZE_MB * 1024 * 1024;
 
 interface FileUploadSectionProps {
   processedFiles: ProcessedImageFile[];
@@ -11,6 +34,10 @@ interface FileUploadSectionProps {
   disabled: boolean;
   maxOverallImages: number;
   numCurrentUrlImages: number;
+  onMarkAsPrior?: (fileId: string) => void; // Move o arquivo para o exame anterior (modo de comparação)
+  preprocessingSettings: PreprocessingSettings;
+  onPreprocessingSettingsChange: (settings: PreprocessingSettings) => void;
+  tokenProvider: ProviderId; // Provedor do laudo, para a estimativa de tokens por imagem
 }
 
 const FileUploadSection: React.FC<FileUploadSectionProps> = ({
@@ -19,12 +46,20 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
   disabled,
   maxOverallImages,
   numCurrentUrlImages,
+  onMarkAsPrior,
+  preprocessingSettings,
+  onPreprocessingSettingsChange,
+  tokenProvider,
 }) => {
   const [fileError, setFileError] = useState<string | null>(null);
-  const [selectedImageForPreview, setSelectedImageForPreview] = useState<string | null>(null);
-  const [previewModalAltText, setPreviewModalAltText] = useState<string>('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [selectedFileIdForPreview, setSelectedFileIdForPreview] = useState<string | null>(null);
+  const [expandedFileId, setExpandedFileId] = useState<string | null>(null);
+  const [series, setSeries] = useState<ImageSeries[]>([]);
+  const [seriesProgress, setSeriesProgress] = useState<string | null>(null);
 
 
+  const slotsAvailable = Math.max(0, maxOverallImages - numCurrentUrlImages - processedFiles.length);
   const canAddMoreFiles = (maxOverallImages - numCurrentUrlImages - processedFiles.length) > 0;
   const fileInputDisabled = disabled || !canAddMoreFiles || (numCurrentUrlImages + processedFiles.length >= maxOverallImages);
 
@@ -44,6 +79,28 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
     });
   };
 
+  // Reduz e converte cada imagem; depois procura texto gravado nos pixels (nome, registro, datas)
+  // para tarjar antes do envio ao modelo.
+  const prepareFiles = useCallback(async (loadedImages: LoadedImage[]) => {
+    const detectedFiles: ProcessedImageFile[] = [];
+    for (const { file: loadedFile, originalBytes } of loadedImages) {
+      let file = loadedFile;
+      try {
+        file = await preprocessImage(loadedFile, originalBytes, preprocessingSettings);
+      } catch (error) {
+        setFileError(prevError => (prevError ? prevError + "\n" : "") + `${error instanceof Error ? error.message : String(error)} A imagem original será enviada.`);
+      }
+      try {
+        detectedFiles.push({ ...file, redaction: { boxes: await detectRedactionBoxes(file.previewUrl), detectedAt: Date.now() } });
+      } catch (error) {
+        console.warn("Detecção de texto na imagem falhou:", error);
+        setFileError(prevError => (prevError ? prevError + "\n" : "") + `Não foi possível procurar texto em "${file.name}"; confira a imagem e aplique tarjas manualmente.`);
+        detectedFiles.push(file);
+      }
+    }
+    return detectedFiles;
+  }, [preprocessingSettings]);
+
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     setFileError(null);
     const files = event.target.files;
@@ -60,44 +117,198 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
     }
     
     const filesToProcess = selectedFilesArray.slice(0, Math.max(0, slotsAvailableForNewFiles));
-    const newProcessedFiles: ProcessedImageFile[] = [];
+    const newProcessedFiles: LoadedImage[] = [];
+    const newSeries: ImageSeries[] = [];
+    setIsProcessing(true);
+    try {
+      for (const file of filesToProcess) {
+        const headerBytes = new Uint8Array(await file.slice(0, 132).arrayBuffer());
+        if (isDicomFile(file, headerBytes)) {
+          if (file.size > MAX_DICOM_FILE_SIZE_BYTES) {
+            setFileError(prevError => (prevError ? prevError + "\n" : "") + `O arquivo DICOM "${file.name}" é muito grande (>${MAX_DICOM_FILE_SIZE_MB}MB). Ele não será incluído.`);
+            continue;
+          }
+          try {
+            // Lido uma vez só: um arquivo multiquadro vira série reaproveitando a mesma leitura.
+            const source = await loadDicomFile(file);
+            if (source.numberOfFrames > 1) {
+              newSeries.push(createMultiFrameSeries(file, source));
+            } else {
+              newProcessedFiles.push({ file: await renderDicomFrame(source), originalBytes: file.size });
+            }
+          } catch (error) {
+            setFileError(prevError => (prevError ? prevError + "\n" : "") + `Erro ao ler o DICOM "${file.name}": ${error instanceof Error ? error.message : String(error)}`);
+          }
+          continue;
+        }
+
+        if (file.size > MAX_FILE_SIZE_BYTES) {
+          setFileError(prevError => (prevError ? prevError + "\n" : "") + `O arquivo "${file.name}" é muito grande (>${MAX_FILE_SIZE_MB}MB). Ele não será incluído.`);
+          continue; 
+        }
 
-    for (const file of filesToProcess) {
-      if (file.size > MAX_FILE_SIZE_BYTES) {
-        setFileError(prevError => (prevError ? prevError + "\n" : "") + `O arquivo "${file.name}" é muito grande (>${MAX_FILE_SIZE_MB}MB). Ele não será incluído.`);
-        continue; 
+        try {
+          const base64 = await readFileAsBase64(file);
+          newProcessedFiles.push({
+            file: {
+              id: crypto.randomUUID(),
+              name: file.name,
+              mimeType: file.type,
+              base64: base64.split(',')[1],
+              previewUrl: base64,
+            },
+            originalBytes: file.size,
+          });
+        } catch (error) {
+          setFileError(prevError => (prevError ? prevError + "\n" : "") + `Erro ao processar o arquivo "${file.name}".`);
+        }
+      }
+      if (newSeries.length > 0) {
+        setSeries(prev => [...prev, ...newSeries]);
       }
+      const detectedFiles = await prepareFiles(newProcessedFiles);
+      // Selecionar só arquivos multiquadro não deve apagar as imagens já carregadas.
+      if (detectedFiles.length > 0 || newSeries.length === 0) {
+        onFileSelectionChange(detectedFiles);
+      }
+    } finally {
+      setIsProcessing(false);
+      event.target.value = '';
+    }
+  }, [onFileSelectionChange, maxOverallImages, numCurrentUrlImages, prepareFiles]);
 
-      try {
-        const base64 = await readFileAsBase64(file);
-        newProcessedFiles.push({
-          id: crypto.randomUUID(),
-          name: file.name,
-          mimeType: file.type,
-          base64: base64.split(',')[1],
-          previewUrl: base64,
-        });
-      } catch (error) {
-        setFileError(prevError => (prevError ? prevError + "\n" : "") + `Erro ao processar o arquivo "${file.name}".`);
+  // Uma pasta pode trazer várias séries misturadas; elas ficam à parte até a escolha dos cortes-chave.
+  const handleFolderChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    setFileError(null);
+    setIsProcessing(true);
+    try {
+      const loaded = await loadSeries(files, (done, total) => setSeriesProgress(`Lendo série: ${done}/${total} arquivo(s)…`));
+      setSeries(prev => [...prev, ...loaded.series]);
+      if (loaded.series.length === 0) {
+        setFileError("Nenhuma imagem ou DICOM encontrado na pasta.");
+      } else if (loaded.skipped > 0) {
+        setFileError(`${loaded.skipped} arquivo(s) da pasta não são imagens e foram ignorados.`);
       }
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSeriesProgress(null);
+      setIsProcessing(false);
     }
-    onFileSelectionChange(newProcessedFiles);
-    event.target.value = ''; 
-  }, [onFileSelectionChange, maxOverallImages, numCurrentUrlImages]);
+  };
+
+  const handleAddKeyFrames = async (images: LoadedImage[]) => {
+    setIsProcessing(true);
+    setFileError(null);
+    try {
+      onFileSelectionChange([...processedFiles, ...await prepareFiles(images)]);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
   const handleRemoveFile = (fileIdToRemove: string) => {
     const updatedFiles = processedFiles.filter(file => file.id !== fileIdToRemove);
     onFileSelectionChange(updatedFiles);
   };
 
-  const openImagePreview = (imageUrl: string, altText: string) => {
-    setSelectedImageForPreview(imageUrl);
-    setPreviewModalAltText(altText);
+  const handleAnnotationChange = (fileId: string, annotation: ImageAnnotation) => {
+    onFileSelectionChange(processedFiles.map(file => (file.id === fileId ? { ...file, annotation } : file)));
+  };
+
+  const fileForPreview = processedFiles.find(file => file.id === selectedFileIdForPreview) ?? null;
+
+  // Ex: "1536×1024 · JPEG · 210 KB (original 5,2 MB) · ~1.548 tokens"
+  const describeCost = (file: ProcessedImageFile) => {
+    const cost = estimateImageCost(file, tokenProvider);
+    const format = file.mimeType.replace('image/', '').toUpperCase();
+    const { preprocessing } = file;
+    return [
+      preprocessing ? `${preprocessing.width}×${preprocessing.height}` : null,
+      format,
+      `${formatBytes(cost.bytes)}${preprocessing ? ` (original ${formatBytes(preprocessing.originalBytes)})` : ''}`,
+      cost.tokens !== null ? `~${cost.tokens.toLocaleString('pt-BR')} tokens` : null,
+    ].filter(Boolean).join(' · ');
+  };
+
+  const openImagePreview = (fileId: string) => {
+    setSelectedFileIdForPreview(fileId);
   };
 
   const closeImagePreview = () => {
-    setSelectedImageForPreview(null);
-    setPreviewModalAltText('');
+    setSelectedFileIdForPreview(null);
+  };
+
+  // Alterar as tarjas exige nova confirmação.
+  const handleRedactionBoxesChange = (boxes: RedactionBox[]) => {
+    if (!fileForPreview) return;
+    onFileSelectionChange(processedFiles.map(file => file.id === fileForPreview.id
+      ? { ...file, redaction: { boxes, detectedAt: file.redaction?.detectedAt ?? Date.now() } }
+      : file));
+  };
+
+  const handleConfirmRedaction = () => {
+    if (!fileForPreview) return;
+    onFileSelectionChange(processedFiles.map(file => file.id === fileForPreview.id
+      ? { ...file, redaction: { boxes: file.redaction?.boxes ?? [], detectedAt: file.redaction?.detectedAt ?? Date.now(), reviewedAt: Date.now() } }
+      : file));
+  };
+
+  const handleRegionsChange = (regions: RegionOfInterest[]) => {
+    if (!fileForPreview) return;
+    handleAnnotationChange(fileForPreview.id, { ...fileForPreview.annotation, regions });
+  };
+
+  // Reprocessa um arquivo (ou todos) e devolve a lista atualizada; erros aparecem junto do upload.
+  const runPreprocessing = async (update: (file: ProcessedImageFile) => Promise<ProcessedImageFile>, fileId?: string) => {
+    setIsProcessing(true);
+    setFileError(null);
+    try {
+      const updatedFiles: ProcessedImageFile[] = [];
+      for (const file of processedFiles) {
+        updatedFiles.push(!fileId || file.id === fileId ? await update(file) : file);
+      }
+      onFileSelectionChange(updatedFiles);
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Desfazer o recorte devolve bordas que podem ter texto ainda não tarjado: a detecção roda de novo
+  // (mantendo as tarjas manuais) e as tarjas voltam a exigir conferência.
+  const handleGeometryEdit = (edit: ImageGeometryEdit) => {
+    if (!fileForPreview) return;
+    runPreprocessing(async file => {
+      const edited = await editImageGeometry(file, edit, preprocessingSettings);
+      if (edit.kind !== 'resetCrop') return edited;
+      const manualBoxes = edited.redaction?.boxes.filter(box => box.source === 'manual') ?? [];
+      return { ...edited, redaction: { boxes: [...manualBoxes, ...await detectRedactionBoxes(edited.previewUrl)], detectedAt: Date.now() } };
+    }, fileForPreview.id);
+  };
+
+  const handleNormalizeContrastChange = (normalizeContrast: boolean) => {
+    if (!fileForPreview) return;
+    runPreprocessing(file => reprocessImage(file, preprocessingSettings, { normalizeContrast }), fileForPreview.id);
+  };
+
+  // Tamanho máximo e formato valem para todas as imagens; o contraste é só o padrão das próximas.
+  const handlePreprocessingSettingsChange = (settings: PreprocessingSettings) => {
+    onPreprocessingSettingsChange(settings);
+    if (settings.maxDimension !== preprocessingSettings.maxDimension || settings.outputFormat !== preprocessingSettings.outputFormat) {
+      runPreprocessing(file => reprocessImage(file, settings));
+    }
+  };
+
+  // Substitui os pixels enviados ao modelo pela versão com janela/nível aplicados, que passa a ser a
+  // origem do pré-processamento. Os valores DICOM originais são mantidos para novos ajustes a partir deles.
+  const handleApplyAdjustedImage = (dataUrl: string) => {
+    if (!fileForPreview) return;
+    runPreprocessing(file => replaceSourceImage(file, dataUrl, preprocessingSettings), fileForPreview.id);
   };
 
   return (
@@ -105,12 +316,49 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
       <div className="space-y-4 p-4 border border-gray-300 rounded-lg shadow-sm bg-white h-full flex flex-col">
         <h3 className="text-lg font-medium text-gray-800 mb-1">Carregar Imagens (Arquivos)</h3>
         <p className="text-xs text-gray-500 mb-1">
-          PNG, JPG, WEBP, GIF (Máx {MAX_FILE_SIZE_MB}MB/arquivo).
+          PNG, JPG, WEBP, GIF (Máx {MAX_FILE_SIZE_MB}MB/arquivo) ou DICOM (Máx {MAX_DICOM_FILE_SIZE_MB}MB), inclusive arquivos sem extensão exportados do PACS, reconhecidos pelo cabeçalho "DICM".
+          As imagens são reduzidas e convertidas no navegador antes do envio. Texto gravado na imagem é procurado pela aparência, sem OCR: confira cada imagem e aplique tarjas onde faltar.
         </p>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700" aria-label="Pré-processamento das imagens">
+          <label className="flex items-center gap-1">
+            Lado máximo
+            <select
+              value={preprocessingSettings.maxDimension}
+              onChange={(e) => handlePreprocessingSettingsChange({ ...preprocessingSettings, maxDimension: Number(e.target.value) })}
+              disabled={disabled || isProcessing}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white text-black disabled:opacity-50"
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size} px</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Formato
+            <select
+              value={preprocessingSettings.outputFormat}
+              onChange={(e) => handlePreprocessingSettingsChange({ ...preprocessingSettings, outputFormat: e.target.value as PreprocessedImageFormat })}
+              disabled={disabled || isProcessing}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white text-black disabled:opacity-50"
+            >
+              {(Object.keys(OUTPUT_FORMAT_LABELS) as PreprocessedImageFormat[]).map(format => (
+                <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1" title="Equalização adaptativa de histograma (CLAHE) nas próximas imagens carregadas">
+            <input
+              type="checkbox"
+              checked={preprocessingSettings.normalizeContrast}
+              onChange={(e) => handlePreprocessingSettingsChange({ ...preprocessingSettings, normalizeContrast: e.target.checked })}
+              disabled={disabled || isProcessing}
+            />
+            Normalizar contraste
+          </label>
+          {isProcessing && <span className="text-indigo-600">Processando imagens…</span>}
+        </div>
         <input
           id="image-file-upload"
           type="file"
-          accept="image/png, image/jpeg, image/webp, image/gif"
+          accept="image/png, image/jpeg, image/webp, image/gif, .dcm, application/dicom"
           multiple
           onChange={handleFileChange}
           className="block w-full text-sm text-gray-500
@@ -119,37 +367,116 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
                      file:text-sm file:font-semibold
                      file:bg-indigo-50 file:text-indigo-700
                      hover:file:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={fileInputDisabled}
+          disabled={fileInputDisabled || isProcessing}
           aria-label="Carregar arquivos de imagem"
         />
+        <label className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          <span className="font-medium">Carregar série (pasta):</span>
+          <input
+            type="file"
+            multiple
+            ref={el => el?.setAttribute('webkitdirectory', '')}
+            onChange={handleFolderChange}
+            disabled={disabled || isProcessing}
+            className="text-xs text-gray-500 file:mr-2 file:py-1 file:px-2 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100 disabled:opacity-50"
+            aria-label="Carregar pasta com uma série de imagens ou DICOM"
+          />
+          {seriesProgress && <span className="text-indigo-600">{seriesProgress}</span>}
+        </label>
+        <p className="text-[11px] text-gray-500">
+          Séries e DICOM multiquadro são percorridos na visualização; só os cortes-chave escolhidos são enviados ao modelo.
+        </p>
+        <SeriesPanel
+          series={series}
+          onSeriesChange={setSeries}
+          slotsAvailable={slotsAvailable}
+          onAddKeyFrames={handleAddKeyFrames}
+          disabled={disabled || isProcessing}
+        />
         {fileError && <p className="text-sm text-red-600 mt-2 whitespace-pre-line">{fileError}</p>}
         
         {processedFiles.length > 0 && (
           <div className="mt-3 space-y-2 flex-grow overflow-hidden">
             <p className="text-sm font-medium text-gray-700">Arquivos selecionados:</p>
-            <ul className="space-y-2 max-h-48 overflow-y-auto pr-1">
+            <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
               {processedFiles.map((file) => (
-                <li key={file.id} className="flex items-center justify-between p-2 border rounded-md bg-gray-50">
-                  <button 
-                    onClick={() => openImagePreview(file.previewUrl, `Pré-visualização de ${file.name}`)}
-                    className="flex items-center space-x-2 overflow-hidden cursor-pointer group focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
-                    aria-label={`Ampliar imagem ${file.name}`}
-                  >
-                    <img 
-                        src={file.previewUrl} 
-                        alt={file.name} 
-                        className="h-10 w-10 object-cover rounded border group-hover:ring-2 group-hover:ring-indigo-500 transition-all" 
-                    />
-                    <span className="text-xs text-gray-600 truncate group-hover:text-indigo-600" title={file.name}>{file.name}</span>
-                  </button>
-                  <button 
-                    onClick={() => handleRemoveFile(file.id)} 
-                    disabled={disabled}
-                    className="text-red-500 hover:text-red-700 text-xs disabled:opacity-50 ml-2 flex-shrink-0 p-1"
-                    aria-label={`Remover arquivo ${file.name}`}
-                  >
-                    Remover
-                  </button>
+                <li key={file.id} className="p-2 border rounded-md bg-gray-50">
+                  <div className="flex items-center justify-between">
+                    <button 
+                      onClick={() => openImagePreview(file.id)}
+                      className="flex items-center space-x-2 overflow-hidden cursor-pointer group focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                      aria-label={`Ampliar imagem ${file.name}`}
+                    >
+                      <img 
+                          src={file.previewUrl} 
+                          alt={file.name} 
+                          className="h-10 w-10 object-cover rounded border group-hover:ring-2 group-hover:ring-indigo-500 transition-all" 
+                      />
+                      <span className="text-xs text-gray-600 truncate group-hover:text-indigo-600" title={file.name}>{file.name}</span>
+                      {!!file.redaction?.boxes.length && (
+                        <span
+                          className={`text-[10px] font-semibold rounded px-1 flex-shrink-0 ${file.redaction.reviewedAt ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-800'}`}
+                          title="Texto detectado na imagem será coberto antes do envio ao modelo. Amplie a imagem para conferir."
+                        >
+                          {file.redaction.reviewedAt ? `${file.redaction.boxes.length} tarja(s)` : `Conferir ${file.redaction.boxes.length} tarja(s)`}
+                        </span>
+                      )}
+                      {isRedactionPending(file) && (
+                        <span
+                          className="text-[10px] font-semibold rounded px-1 flex-shrink-0 bg-amber-100 text-amber-800"
+                          title="A procura de texto não rodou nesta imagem. Amplie, aplique tarjas se preciso e confirme para poder enviar."
+                        >
+                          Conferir texto
+                        </span>
+                      )}
+                      {file.dicom && (
+                        <span className="text-[10px] font-semibold uppercase bg-indigo-100 text-indigo-700 rounded px-1 flex-shrink-0" title="Arquivo DICOM convertido para PNG">
+                          DICOM{file.dicom.metadata.modality ? ` ${file.dicom.metadata.modality}` : ''}
+                        </span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => setExpandedFileId(prev => (prev === file.id ? null : file.id))}
+                      className="text-indigo-600 hover:text-indigo-800 text-xs ml-2 flex-shrink-0 p-1"
+                      aria-expanded={expandedFileId === file.id}
+                      title="Incidência, série, fase e observações enviadas ao modelo junto com a imagem"
+                    >
+                      Detalhes{file.annotation?.regions?.length ? ` (${file.annotation.regions.length} ROI)` : ''}
+                    </button>
+                    {onMarkAsPrior && (
+                      <button
+                        onClick={() => onMarkAsPrior(file.id)}
+                        disabled={disabled || isProcessing}
+                        className="text-amber-600 hover:text-amber-800 text-xs disabled:opacity-50 ml-2 flex-shrink-0 p-1"
+                        title="Usar como imagem do exame anterior na comparação"
+                        aria-label={`Marcar ${file.name} como exame anterior`}
+                      >
+                        Anterior
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => handleRemoveFile(file.id)} 
+                      disabled={disabled || isProcessing}
+                      className="text-red-500 hover:text-red-700 text-xs disabled:opacity-50 ml-2 flex-shrink-0 p-1"
+                      aria-label={`Remover arquivo ${file.name}`}
+                    >
+                      Remover
+                    </button>
+                  </div>
+                  <p className="text-[11px] text-gray-500 mt-1">{describeCost(file)}</p>
+                  {expandedFileId === file.id && (
+                    <>
+                      <ImageAnnotationFields
+                        idPrefix={`file-${file.id}`}
+                        annotation={file.annotation}
+                        onChange={(annotation) => handleAnnotationChange(file.id, annotation)}
+                        disabled={disabled}
+                      />
+                      <p className="text-[11px] text-gray-500 mt-1">
+                        Regiões de interesse: desenhe com a ferramenta "Região" na imagem ampliada.
+                      </p>
+                    </>
+                  )}
                 </li>
               ))}
             </ul>
@@ -164,9 +491,24 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
       </div>
       
       <ImagePreviewModal 
-        imageUrl={selectedImageForPreview}
-        altText={previewModalAltText}
+        imageUrl={fileForPreview?.previewUrl ?? null}
+        altText={fileForPreview ? `Pré-visualização de ${fileForPreview.name}` : ''}
         onClose={closeImagePreview}
+        dicomPixelData={isSourceFrame(fileForPreview?.preprocessing) ? fileForPreview?.dicom?.pixelData : undefined}
+        pixelSpacing={outputPixelSpacing(fileForPreview?.dicom?.metadata.pixelSpacing, fileForPreview?.preprocessing)}
+        onApplyAdjustedImage={disabled ? undefined : handleApplyAdjustedImage}
+        regions={fileForPreview?.annotation?.regions ?? []}
+        onRegionsChange={disabled ? undefined : handleRegionsChange}
+        redactionBoxes={fileForPreview?.redaction?.boxes ?? []}
+        isRedactionReviewed={!!fileForPreview?.redaction?.reviewedAt}
+        isTextDetectionMissing={!!fileForPreview && isRedactionPending(fileForPreview)}
+        onRedactionBoxesChange={disabled ? undefined : handleRedactionBoxesChange}
+        onConfirmRedaction={disabled ? undefined : handleConfirmRedaction}
+        onGeometryEdit={disabled ? undefined : handleGeometryEdit}
+        hasCrop={!!fileForPreview?.preprocessing?.crop}
+        normalizeContrast={!!fileForPreview?.preprocessing?.normalizeContrast}
+        onNormalizeContrastChange={disabled ? undefined : handleNormalizeContrastChange}
+        isProcessing={isProcessing}
       />
     </>
   );
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { ReportStatus, StudySummary } from '../types';
+import { REPORT_STATUS_LABELS } from '../services/reportStatus';
+
+interface HistorySidebarProps {
+  studies: StudySummary[];
+  activeStudyId: string | null;
+  onOpenStudy: (id: string) => void;
+  onDuplicateStudy: (id: string) => void;
+  onDeleteStudy: (id: string) => void;
+  onNewStudy: () => void;
+  error: string | null;
+  disabled: boolean;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const STATUS_BADGE_CLASSES: Record<ReportStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  'in-review': 'bg-amber-100 text-amber-800',
+  preliminary: 'bg-blue-100 text-blue-800',
+  final: 'bg-green-100 text-green-800',
+  addendum: 'bg-green-100 text-green-800',
+};
+
+// Só o que foi feito: tarjas sobre regiões com aparência de texto e valores do DICOM removidos dos textos.
+const describeDeidentification = (audit: StudySummary['deidentification']): string | null => {
+  if (!audit || (audit.boxCount === 0 && audit.phiValuesScrubbed === 0)) return null;
+  return [
+    audit.boxCount > 0 ? `${audit.boxCount} tarja(s)` : '',
+    audit.phiValuesScrubbed > 0 ? `${audit.phiValuesScrubbed} dado(s) DICOM removido(s)` : '',
+    audit.unreviewedImageCount > 0 ? `${audit.unreviewedImageCount} imagem(ns) sem conferência` : '',
+  ].filter(Boolean).join(' · ');
+};
+
+const normalizeForSearch = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  studies,
+  activeStudyId,
+  onOpenStudy,
+  onDuplicateStudy,
+  onDeleteStudy,
+  onNewStudy,
+  error,
+  disabled,
+}) => {
+  const [query, setQuery] = useState('');
+
+  const filteredStudies = useMemo(() => {
+    const terms = normalizeForSearch(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return studies;
+    return studies.filter(study => {
+      const haystack = normalizeForSearch(
+        [study.prompt, study.modality, study.impression, formatTimestamp(study.createdAt)].filter(Boolean).join(' '),
+      );
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [studies, query]);
+
+  const handleDelete = (study: StudySummary) => {
+    if (window.confirm(`Excluir o estudo de ${formatTimestamp(study.createdAt)} do histórico? Esta ação não pode ser desfeita.`)) {
+      onDeleteStudy(study.id);
+    }
+  };
+
+  return (
+    <aside className="w-full lg:w-80 flex-shrink-0 bg-white shadow-2xl rounded-xl overflow-hidden flex flex-col lg:max-h-[calc(100vh-4rem)] lg:sticky lg:top-8">
+      <div className="bg-indigo-600 p-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Histórico de Estudos</h2>
+        <button
+          onClick={onNewStudy}
+          disabled={disabled}
+          className="py-1 px-3 rounded-md text-sm font-medium text-indigo-700 bg-white hover:bg-indigo-50 disabled:opacity-50"
+        >
+          Novo
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-gray-200">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar por prompt, modalidade, impressão..."
+          className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-black"
+          aria-label="Buscar no histórico de estudos"
+        />
+      </div>
+
+      {error && <p className="p-3 text-xs text-red-700 bg-red-50 border-b border-red-200">{error}</p>}
+
+      <ul className="flex-grow overflow-y-auto divide-y divide-gray-200">
+        {filteredStudies.length === 0 && (
+          <li className="p-4 text-sm text-gray-500 text-center">
+            {studies.length === 0 ? 'Os laudos gerados serão salvos aqui.' : 'Nenhum estudo encontrado.'}
+          </li>
+        )}
+        {filteredStudies.map(study => (
+          <li
+            key={study.id}
+            className={`p-3 ${study.id === activeStudyId ? 'bg-indigo-50 border-l-4 border-indigo-500' : 'hover:bg-gray-50'}`}
+          >
+            <button
+              onClick={() => onOpenStudy(study.id)}
+              disabled={disabled}
+              className="w-full text-left disabled:cursor-not-allowed"
+              title="Abrir estudo"
+            >
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{formatTimestamp(study.createdAt)}</span>
+                <span>{study.imageCount} imagem(s){study.hasAudio ? ' · áudio' : ''}</span>
+              </div>
+              {study.status && (
+                <span className={`inline-block mt-1 text-[10px] px-1.5 py-0.5 rounded ${STATUS_BADGE_CLASSES[study.status]}`}>
+                  {REPORT_STATUS_LABELS[study.status]}
+                </span>
+              )}
+              {describeDeidentification(study.deidentification) && (
+                <span
+                  className="inline-block mt-1 ml-1 text-[10px] px-1.5 py-0.5 rounded bg-gray-200 text-gray-700"
+                  title="Tarjas sobre regiões com aparência de texto (a detecção não lê o texto, não é OCR) e valores do paciente lidos do DICOM removidos dos textos enviados. Texto não detectado e identificadores digitados seguem para o modelo."
+                >
+                  {describeDeidentification(study.deidentification)}
+                </span>
+              )}
+              {study.modality && <p className="text-sm font-medium text-gray-800 truncate">{study.modality}</p>}
+              <p className="text-sm text-gray-700 line-clamp-2">{study.impression || study.prompt}</p>
+            </button>
+            <div className="mt-2 flex space-x-3 text-xs">
+              <button
+                onClick={() => onDuplicateStudy(study.id)}
+                disabled={disabled}
+                className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+              >
+                Duplicar
+              </button>
+              <button
+                onClick={() => handleDelete(study)}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+              >
+                Excluir
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
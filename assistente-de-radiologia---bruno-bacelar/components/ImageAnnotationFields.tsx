@@ -0,0 +1,76 @@
+import React from 'react';
+import { ImageAnnotation } from '../types';
+
+interface ImageAnnotationFieldsProps {
+  idPrefix: string; // Torna únicos os ids dos campos e das listas de sugestões
+  annotation: ImageAnnotation | undefined;
+  onChange: (annotation: ImageAnnotation) => void;
+  disabled: boolean;
+}
+
+const VIEW_SUGGESTIONS = ['PA', 'AP', 'Perfil', 'Oblíqua', 'Axial', 'Coronal', 'Sagital', 'Craniocaudal (CC)', 'Médio-lateral oblíqua (MLO)'];
+const PHASE_SUGGESTIONS = ['Sem contraste', 'Arterial', 'Portal', 'Venosa', 'Tardia'];
+
+const inputClassName = "block w-full px-2 py-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-xs disabled:opacity-50 text-black";
+
+const ImageAnnotationFields: React.FC<ImageAnnotationFieldsProps> = ({ idPrefix, annotation, onChange, disabled }) => {
+  const update = (field: 'view' | 'series' | 'phase' | 'note', value: string) => {
+    onChange({ ...annotation, [field]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 mt-2">
+      <label className="text-[11px] text-gray-600">
+        Incidência
+        <input
+          className={inputClassName}
+          list={`${idPrefix}-views`}
+          value={annotation?.view ?? ''}
+          onChange={(e) => update('view', e.target.value)}
+          placeholder="ex: PA"
+          disabled={disabled}
+        />
+        <datalist id={`${idPrefix}-views`}>
+          {VIEW_SUGGESTIONS.map(view => <option key={view} value={view} />)}
+        </datalist>
+      </label>
+      <label className="text-[11px] text-gray-600">
+        Fase
+        <input
+          className={inputClassName}
+          list={`${idPrefix}-phases`}
+          value={annotation?.phase ?? ''}
+          onChange={(e) => update('phase', e.target.value)}
+          placeholder="ex: Portal"
+          disabled={disabled}
+        />
+        <datalist id={`${idPrefix}-phases`}>
+          {PHASE_SUGGESTIONS.map(phase => <option key={phase} value={phase} />)}
+        </datalist>
+      </label>
+      <label className="text-[11px] text-gray-600 col-span-2">
+        Série
+        <input
+          className={inputClassName}
+          value={annotation?.series ?? ''}
+          onChange={(e) => update('series', e.target.value)}
+          placeholder="ex: Axial T2 FLAIR"
+          disabled={disabled}
+        />
+      </label>
+      <label className="text-[11px] text-gray-600 col-span-2">
+        Observação
+        <textarea
+          rows={2}
+          className={inputClassName}
+          value={annotation?.note ?? ''}
+          onChange={(e) => update('note', e.target.value)}
+          placeholder="ex: paciente em decúbito, comparar ápice direito"
+          disabled={disabled}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default ImageAnnotationFields;
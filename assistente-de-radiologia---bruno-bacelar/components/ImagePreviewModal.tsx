@@ -1,23 +1,143 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { DicomPixelData, RedactionBox, RegionOfInterest } from '../types';
+import {
+  WINDOW_PRESETS,
+  WindowLevel,
+  getDefaultWindowLevel,
+  renderAdjustedImage,
+} from '../services/imageAdjustments';
+import { ImageGeometryEdit } from '../services/imagePreprocessing';
 
 interface ImagePreviewModalProps {
   imageUrl: string | null;
   altText: string;
   onClose: () => void;
+  dicomPixelData?: DicomPixelData | null; // Valores originais para janelamento em unidades reais (ex: HU)
+  pixelSpacing?: [number, number]; // mm por pixel [linha, coluna], para a régua em milímetros
+  onApplyAdjustedImage?: (dataUrl: string) => void; // Substitui a imagem enviada ao modelo pela versão ajustada
+  regions?: RegionOfInterest[]; // Regiões de interesse enviadas ao modelo junto com a imagem
+  onRegionsChange?: (regions: RegionOfInterest[]) => void; // Habilita a ferramenta de região quando presente
+  redactionBoxes?: RedactionBox[]; // Tarjas pintadas sobre a cópia enviada ao modelo
+  isRedactionReviewed?: boolean;
+  isTextDetectionMissing?: boolean; // A procura de texto falhou ou não rodou: as tarjas dependem só do usuário
+  onRedactionBoxesChange?: (boxes: RedactionBox[]) => void; // Habilita a ferramenta de tarja quando presente
+  onConfirmRedaction?: () => void;
+  onGeometryEdit?: (edit: ImageGeometryEdit) => void; // Habilita recorte, giro e espelhamento quando presente
+  hasCrop?: boolean;
+  normalizeContrast?: boolean;
+  onNormalizeContrastChange?: (normalizeContrast: boolean) => void;
+  isProcessing?: boolean; // Reprocessamento em andamento; os controles de pré-processamento ficam travados
+  stack?: StackNavigation; // Navegação entre os cortes de uma série
 }
 
+// Série exibida corte a corte; imageUrl e dicomPixelData são sempre os do corte atual.
+export interface StackNavigation {
+  id: string;
+  index: number;
+  count: number;
+  label: string;
+  keyFrames: number[];
+  onIndexChange: (index: number) => void;
+  onToggleKeyFrame: (index: number) => void;
+}
+
+type Tool = 'pan' | 'windowLevel' | 'ruler' | 'angle' | 'roi' | 'redact' | 'crop';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Medidas ficam em coordenadas da imagem (pixels originais) para acompanharem zoom e pan.
+type Measurement =
+  | { kind: 'ruler'; points: [Point, Point] }
+  | { kind: 'angle'; points: [Point, Point, Point] };
+
+// Regiões menores que isso (fração da imagem) são tratadas como clique acidental.
+const MIN_REGION_SIZE = 0.01;
+
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 5;
 const ZOOM_STEP_FACTOR = 0.1; // Each wheel step changes zoom by 10%
 
-const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText, onClose }) => {
+const formatDistance = (a: Point, b: Point, pixelSpacing?: [number, number]): string => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (pixelSpacing) {
+    const mm = Math.hypot(dx * pixelSpacing[1], dy * pixelSpacing[0]);
+    return mm >= 10 ? `${(mm / 10).toFixed(2)} cm` : `${mm.toFixed(1)} mm`;
+  }
+  return `${Math.hypot(dx, dy).toFixed(0)} px`;
+};
+
+const formatAngle = (a: Point, vertex: Point, c: Point): string => {
+  const angle1 = Math.atan2(a.y - vertex.y, a.x - vertex.x);
+  const angle2 = Math.atan2(c.y - vertex.y, c.x - vertex.x);
+  let degrees = Math.abs((angle1 - angle2) * 180 / Math.PI);
+  if (degrees > 180) degrees = 360 - degrees;
+  return `${degrees.toFixed(1)}°`;
+};
+
+const TOOL_LABELS: Record<Tool, string> = {
+  pan: 'Mover',
+  windowLevel: 'Janela/Nível',
+  ruler: 'Régua',
+  angle: 'Ângulo',
+  roi: 'Região',
+  redact: 'Tarja',
+  crop: 'Recortar',
+};
+
+const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({
+  imageUrl,
+  altText,
+  onClose,
+  dicomPixelData,
+  pixelSpacing,
+  onApplyAdjustedImage,
+  regions = [],
+  onRegionsChange,
+  redactionBoxes = [],
+  isRedactionReviewed = false,
+  isTextDetectionMissing = false,
+  onRedactionBoxesChange,
+  onConfirmRedaction,
+  onGeometryEdit,
+  hasCrop = false,
+  normalizeContrast = false,
+  onNormalizeContrastChange,
+  isProcessing = false,
+  stack,
+}) => {
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStartPan, setDragStartPan] = useState({ x: 0, y: 0 });
   const [dragStartMouse, setDragStartMouse] = useState({ x: 0, y: 0 });
 
+  const [tool, setTool] = useState<Tool>('pan');
+  const [windowLevel, setWindowLevel] = useState<WindowLevel>(() => getDefaultWindowLevel(dicomPixelData));
+  const [invert, setInvert] = useState(false);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  const [sourceImageData, setSourceImageData] = useState<ImageData | null>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [windowDragStart, setWindowDragStart] = useState<{ mouse: Point; level: WindowLevel } | null>(null);
+  const [regionDraft, setRegionDraft] = useState<{ start: Point; end: Point } | null>(null);
+
   const imageViewportRef = useRef<HTMLDivElement>(null);
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const defaultWindowLevel = getDefaultWindowLevel(dicomPixelData);
+  const isAdjusted = invert || windowLevel.center !== defaultWindowLevel.center || windowLevel.width !== defaultWindowLevel.width;
+  const presetsAvailable = !!dicomPixelData && dicomPixelData.samplesPerPixel === 1;
+  // Numa série, zoom, ferramenta e janela/nível valem para todos os cortes: só zeram ao abrir outra série.
+  const viewKey = stack?.id ?? imageUrl;
+  const viewPixelData = stack ? null : dicomPixelData;
+  const availableTools = (Object.keys(TOOL_LABELS) as Tool[])
+    .filter(t => (t !== 'roi' || !!onRegionsChange) && (t !== 'redact' || !!onRedactionBoxesChange) && (t !== 'crop' || !!onGeometryEdit));
 
   const handleMouseMoveGlobal = useCallback((e: MouseEvent) => {
     // This global handler is active only when isDragging is true (implicitly, due to how it's added/removed)
@@ -35,7 +155,65 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
     window.removeEventListener('mouseup', handleMouseUpGlobal);
   }, [handleMouseMoveGlobal]);
 
+  // Geometria do "object-fit: contain": onde a imagem cai dentro do viewport antes de zoom/pan.
+  const getFit = useCallback(() => {
+    const imageWidth = sourceImageData?.width ?? 1;
+    const imageHeight = sourceImageData?.height ?? 1;
+    const scale = Math.min(viewportSize.width / imageWidth, viewportSize.height / imageHeight) || 1;
+    return {
+      scale,
+      offsetX: (viewportSize.width - imageWidth * scale) / 2,
+      offsetY: (viewportSize.height - imageHeight * scale) / 2,
+    };
+  }, [sourceImageData, viewportSize]);
+
+  const imageToScreen = useCallback((p: Point): Point => {
+    const fit = getFit();
+    return {
+      x: pan.x + zoom * (fit.offsetX + p.x * fit.scale),
+      y: pan.y + zoom * (fit.offsetY + p.y * fit.scale),
+    };
+  }, [getFit, pan, zoom]);
+
+  const eventToImagePoint = (e: React.MouseEvent<HTMLDivElement>): Point | null => {
+    if (!imageViewportRef.current) return null;
+    const rect = imageViewportRef.current.getBoundingClientRect();
+    const fit = getFit();
+    return {
+      x: ((e.clientX - rect.left - pan.x) / zoom - fit.offsetX) / fit.scale,
+      y: ((e.clientY - rect.top - pan.y) / zoom - fit.offsetY) / fit.scale,
+    };
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (tool === 'windowLevel') {
+      e.preventDefault();
+      setWindowDragStart({ mouse: { x: e.clientX, y: e.clientY }, level: windowLevel });
+      return;
+    }
+    if (tool === 'roi' || tool === 'redact' || tool === 'crop') {
+      e.preventDefault();
+      const point = eventToImagePoint(e);
+      if (point) setRegionDraft({ start: point, end: point });
+      return;
+    }
+    if (tool === 'ruler' || tool === 'angle') {
+      e.preventDefault();
+      const point = eventToImagePoint(e);
+      if (!point) return;
+      const points = [...draftPoints, point];
+      const required = tool === 'ruler' ? 2 : 3;
+      if (points.length === required) {
+        setMeasurements(prev => [...prev, tool === 'ruler'
+          ? { kind: 'ruler', points: [points[0], points[1]] }
+          : { kind: 'angle', points: [points[0], points[1], points[2]] }]);
+        setDraftPoints([]);
+      } else {
+        setDraftPoints(points);
+      }
+      return;
+    }
+
     if (zoom <= 1) return; // Only allow panning if zoomed
     e.preventDefault();
     setIsDragging(true);
@@ -45,6 +223,64 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
     window.addEventListener('mouseup', handleMouseUpGlobal);
   };
 
+  const handleToolMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (windowDragStart) {
+      // Horizontal ajusta a largura da janela, vertical ajusta o centro (convenção dos visualizadores PACS).
+      // A sensibilidade acompanha a largura atual: janelas largas (ex: pulmão em HU) andam mais rápido.
+      const sensitivity = Math.max(windowDragStart.level.width / 256, 0.5);
+      const dx = e.clientX - windowDragStart.mouse.x;
+      const dy = e.clientY - windowDragStart.mouse.y;
+      setWindowLevel({
+        center: windowDragStart.level.center + dy * sensitivity,
+        width: Math.max(1, windowDragStart.level.width + dx * sensitivity),
+      });
+      return;
+    }
+    if (regionDraft) {
+      const point = eventToImagePoint(e);
+      if (point) setRegionDraft(prev => (prev ? { ...prev, end: point } : prev));
+      return;
+    }
+    if (draftPoints.length > 0) {
+      setHoverPoint(eventToImagePoint(e));
+    }
+  };
+
+  const handleToolMouseUp = () => {
+    setWindowDragStart(null);
+    if (regionDraft && sourceImageData) {
+      const clamp = (value: number) => Math.min(1, Math.max(0, value));
+      const x1 = clamp(Math.min(regionDraft.start.x, regionDraft.end.x) / sourceImageData.width);
+      const y1 = clamp(Math.min(regionDraft.start.y, regionDraft.end.y) / sourceImageData.height);
+      const x2 = clamp(Math.max(regionDraft.start.x, regionDraft.end.x) / sourceImageData.width);
+      const y2 = clamp(Math.max(regionDraft.start.y, regionDraft.end.y) / sourceImageData.height);
+      const isLargeEnough = x2 - x1 >= MIN_REGION_SIZE && y2 - y1 >= MIN_REGION_SIZE;
+      if (isLargeEnough && tool === 'crop' && onGeometryEdit && !isProcessing) {
+        onGeometryEdit({ kind: 'crop', rect: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 } });
+      } else if (isLargeEnough && tool === 'redact' && onRedactionBoxesChange) {
+        onRedactionBoxesChange([...redactionBoxes, { id: crypto.randomUUID(), x: x1, y: y1, width: x2 - x1, height: y2 - y1, source: 'manual' }]);
+      } else if (isLargeEnough && tool === 'roi' && onRegionsChange) {
+        onRegionsChange([...regions, {
+          id: crypto.randomUUID(),
+          label: `Região ${regions.length + 1}`,
+          x: x1,
+          y: y1,
+          width: x2 - x1,
+          height: y2 - y1,
+        }]);
+      }
+    }
+    setRegionDraft(null);
+  };
+
+  const updateRegionLabel = (id: string, label: string) => {
+    onRegionsChange?.(regions.map(region => (region.id === id ? { ...region, label } : region)));
+  };
+
+  const removeRegion = (id: string) => {
+    onRegionsChange?.(regions.filter(region => region.id !== id));
+  };
+
   const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
     e.preventDefault();
     if (!imageViewportRef.current) return;
@@ -55,7 +291,7 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
 
     const oldZoom = zoom;
     const scaleMultiplier = e.deltaY < 0 ? (1 + ZOOM_STEP_FACTOR) : (1 / (1 + ZOOM_STEP_FACTOR));
-    
+
     let newZoom = oldZoom * scaleMultiplier;
     newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newZoom));
 
@@ -68,12 +304,29 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
     setPan({ x: newPanX, y: newPanY });
   };
 
+  const selectTool = (newTool: Tool) => {
+    setTool(newTool);
+    setDraftPoints([]);
+    setHoverPoint(null);
+  };
+
+  const resetAdjustments = () => {
+    setWindowLevel(getDefaultWindowLevel(dicomPixelData));
+    setInvert(false);
+  };
+
+  const handleApplyAdjustedImage = () => {
+    if (!onApplyAdjustedImage || !imageCanvasRef.current) return;
+    onApplyAdjustedImage(imageCanvasRef.current.toDataURL('image/png'));
+    onClose();
+  };
+
   // Reset state and clean up listeners when imageUrl changes or component unmounts
   useEffect(() => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
     setIsDragging(false); // Ensure dragging state is reset
-    
+
     // Clean up any potentially lingering global listeners
     window.removeEventListener('mousemove', handleMouseMoveGlobal);
     window.removeEventListener('mouseup', handleMouseUpGlobal);
@@ -83,51 +336,338 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
       window.removeEventListener('mousemove', handleMouseMoveGlobal);
       window.removeEventListener('mouseup', handleMouseUpGlobal);
     };
-  }, [imageUrl, handleMouseMoveGlobal, handleMouseUpGlobal]);
+  }, [viewKey, handleMouseMoveGlobal, handleMouseUpGlobal]);
+
+  // Ferramentas e ajustes são por imagem: zera tudo ao trocar de imagem.
+  useEffect(() => {
+    setTool('pan');
+    setWindowLevel(getDefaultWindowLevel(dicomPixelData));
+    setInvert(false);
+  }, [viewKey, viewPixelData]);
+
+  // Medidas pertencem ao corte em que foram feitas.
+  useEffect(() => {
+    setMeasurements([]);
+    setDraftPoints([]);
+    setHoverPoint(null);
+    setRegionDraft(null);
+  }, [imageUrl]);
+
+  // Setas do teclado percorrem a série.
+  useEffect(() => {
+    if (!stack) return;
+    const { index, count, onIndexChange } = stack;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return;
+      const step = e.key === 'ArrowDown' || e.key === 'ArrowRight' ? 1 : e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : 0;
+      if (step === 0) return;
+      e.preventDefault();
+      onIndexChange(Math.min(count - 1, Math.max(0, index + step)));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stack]);
+
+  // Decodifica a imagem de origem uma única vez para que o janelamento seja refeito a partir dela.
+  useEffect(() => {
+    setSourceImageData(null);
+    if (!imageUrl) return;
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      context.drawImage(image, 0, 0);
+      setSourceImageData(context.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    image.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const canvas = imageCanvasRef.current;
+    if (!canvas || !sourceImageData) return;
+    canvas.width = sourceImageData.width;
+    canvas.height = sourceImageData.height;
+    canvas.getContext('2d')?.putImageData(renderAdjustedImage(sourceImageData, dicomPixelData, windowLevel, invert), 0, 0);
+  }, [sourceImageData, dicomPixelData, windowLevel, invert]);
+
+  useEffect(() => {
+    const viewport = imageViewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setViewportSize({ width, height });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [viewKey]);
+
+  // A sobreposição não é transformada via CSS: cada ponto é projetado com o zoom/pan atuais,
+  // mantendo linhas e textos nítidos em qualquer nível de zoom.
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewportSize.width * ratio;
+    canvas.height = viewportSize.height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, viewportSize.width, viewportSize.height);
+    context.lineWidth = 2;
+    context.font = '13px sans-serif';
+
+    const drawLabel = (text: string, at: Point) => {
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      const width = context.measureText(text).width;
+      context.fillRect(at.x + 6, at.y - 16, width + 8, 18);
+      context.fillStyle = '#fde047';
+      context.fillText(text, at.x + 10, at.y - 3);
+    };
+    const drawPolyline = (points: Point[], color: string) => {
+      const screenPoints = points.map(imageToScreen);
+      context.strokeStyle = color;
+      context.beginPath();
+      screenPoints.forEach((p, index) => (index === 0 ? context.moveTo(p.x, p.y) : context.lineTo(p.x, p.y)));
+      context.stroke();
+      context.fillStyle = color;
+      screenPoints.forEach(p => {
+        context.beginPath();
+        context.arc(p.x, p.y, 3, 0, Math.PI * 2);
+        context.fill();
+      });
+      return screenPoints;
+    };
+
+    for (const measurement of measurements) {
+      const screenPoints = drawPolyline(measurement.points, '#facc15');
+      if (measurement.kind === 'ruler') {
+        drawLabel(formatDistance(measurement.points[0], measurement.points[1], pixelSpacing), screenPoints[1]);
+      } else {
+        drawLabel(formatAngle(measurement.points[0], measurement.points[1], measurement.points[2]), screenPoints[1]);
+      }
+    }
+    if (draftPoints.length > 0) {
+      drawPolyline(hoverPoint ? [...draftPoints, hoverPoint] : draftPoints, '#38bdf8');
+    }
+
+    const drawRectangle = (from: Point, to: Point, color: string, label?: string) => {
+      const a = imageToScreen(from);
+      const b = imageToScreen(to);
+      context.strokeStyle = color;
+      context.setLineDash([6, 4]);
+      context.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      context.setLineDash([]);
+      if (label) drawLabel(label, { x: Math.min(a.x, b.x) - 6, y: Math.min(a.y, b.y) });
+    };
+    if (sourceImageData) {
+      for (const region of regions) {
+        drawRectangle(
+          { x: region.x * sourceImageData.width, y: region.y * sourceImageData.height },
+          { x: (region.x + region.width) * sourceImageData.width, y: (region.y + region.height) * sourceImageData.height },
+          '#f472b6',
+          region.label,
+        );
+      }
+    }
+    // Tarjas aparecem quase opacas: é assim que a imagem chega ao modelo.
+    if (sourceImageData) {
+      redactionBoxes.forEach((box, index) => {
+        const a = imageToScreen({ x: box.x * sourceImageData.width, y: box.y * sourceImageData.height });
+        const b = imageToScreen({ x: (box.x + box.width) * sourceImageData.width, y: (box.y + box.height) * sourceImageData.height });
+        context.fillStyle = 'rgba(0, 0, 0, 0.85)';
+        context.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+        context.strokeStyle = '#ef4444';
+        context.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+        drawLabel(`Tarja ${index + 1}`, { x: a.x - 6, y: a.y });
+      });
+    }
+    if (regionDraft) {
+      drawRectangle(regionDraft.start, regionDraft.end, tool === 'redact' ? '#ef4444' : tool === 'crop' ? '#f59e0b' : '#38bdf8');
+    }
+  }, [measurements, draftPoints, hoverPoint, viewportSize, imageToScreen, pixelSpacing, regions, regionDraft, sourceImageData, redactionBoxes, tool]);
 
 
   if (!imageUrl) return null;
 
+  const toolButtonClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded border ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`;
+
+  const cursor = tool === 'pan'
+    ? (isDragging ? 'grabbing' : (zoom > 1 ? 'grab' : 'default'))
+    : tool === 'windowLevel' ? 'ns-resize' : 'crosshair';
+
   return (
-    <div 
+    <div
       className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
       onClick={onClose}
       role="dialog"
       aria-modal="true"
       aria-labelledby="image-preview-title"
     >
-      <div 
+      <div
         className="bg-white p-4 rounded-lg shadow-xl flex flex-col"
         style={{ width: '90vw', height: '90vh' }} // Define max size for the modal content
-        onClick={(e) => e.stopPropagation()} 
+        onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center mb-2 flex-shrink-0">
             <h2 id="image-preview-title" className="text-lg font-semibold text-gray-800 sr-only">Visualização Ampliada da Imagem</h2>
+            <div className="flex flex-wrap items-center gap-2" role="toolbar" aria-label="Ferramentas de visualização">
+              {availableTools.map(t => (
+                <button key={t} onClick={() => selectTool(t)} className={toolButtonClass(tool === t)} aria-pressed={tool === t}>
+                  {TOOL_LABELS[t]}
+                </button>
+              ))}
+              <span className="mx-1 h-5 border-l border-gray-300" aria-hidden="true" />
+              {WINDOW_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => setWindowLevel({ center: preset.center, width: preset.width })}
+                  disabled={!presetsAvailable}
+                  className={`${toolButtonClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                  title={presetsAvailable ? `J ${preset.width} / N ${preset.center}` : 'Presets disponíveis apenas para imagens DICOM monocromáticas'}
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <button onClick={() => setInvert(prev => !prev)} className={toolButtonClass(invert)} aria-pressed={invert}>
+                Inverter
+              </button>
+              <button onClick={resetAdjustments} disabled={!isAdjusted} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+                Restaurar
+              </button>
+              <button onClick={() => setMeasurements([])} disabled={measurements.length === 0} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+                Limpar medidas
+              </button>
+              <span className="text-xs text-gray-500">
+                J: {Math.round(windowLevel.width)} N: {Math.round(windowLevel.center)}
+              </span>
+              {onApplyAdjustedImage && (
+                <button
+                  onClick={handleApplyAdjustedImage}
+                  disabled={!isAdjusted || !sourceImageData}
+                  className="px-2 py-1 text-xs rounded bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  title="Envia ao modelo a imagem com janela/nível e inversão aplicados"
+                >
+                  Usar imagem ajustada no laudo
+                </button>
+              )}
+            </div>
             <button
                 onClick={onClose}
-                className="text-gray-600 hover:text-gray-900 text-2xl font-bold"
+                className="text-gray-600 hover:text-gray-900 text-2xl font-bold ml-2"
                 aria-label="Fechar visualização ampliada"
             >
                 &times;
             </button>
         </div>
-        <div 
+        {onRegionsChange && regions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-2 flex-shrink-0" aria-label="Regiões de interesse">
+            <span className="text-xs font-medium text-gray-700">Regiões enviadas ao modelo:</span>
+            {regions.map(region => (
+              <span key={region.id} className="flex items-center gap-1 border border-pink-300 rounded px-1 py-0.5 bg-pink-50">
+                <input
+                  value={region.label}
+                  onChange={(e) => updateRegionLabel(region.id, e.target.value)}
+                  className="text-xs w-32 bg-transparent focus:outline-none text-black"
+                  aria-label="Nome da região de interesse"
+                />
+                <button onClick={() => removeRegion(region.id)} className="text-xs text-red-600 hover:text-red-800" aria-label={`Remover ${region.label}`}>
+                  &times;
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        {onGeometryEdit && (
+          <div className="flex flex-wrap items-center gap-2 mb-2 flex-shrink-0 text-xs" aria-label="Pré-processamento da imagem enviada">
+            <span className="font-medium text-gray-700">Imagem enviada:</span>
+            <button onClick={() => onGeometryEdit({ kind: 'rotate' })} disabled={isProcessing} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+              Girar 90°
+            </button>
+            <button onClick={() => onGeometryEdit({ kind: 'flip', axis: 'horizontal' })} disabled={isProcessing} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+              Espelhar ↔
+            </button>
+            <button onClick={() => onGeometryEdit({ kind: 'flip', axis: 'vertical' })} disabled={isProcessing} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+              Espelhar ↕
+            </button>
+            <button onClick={() => onGeometryEdit({ kind: 'resetCrop' })} disabled={isProcessing || !hasCrop} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+              Desfazer recorte
+            </button>
+            {onNormalizeContrastChange && (
+              <label className="flex items-center gap-1 text-gray-700" title="Equalização adaptativa de histograma (CLAHE) sobre a luminância">
+                <input
+                  type="checkbox"
+                  checked={normalizeContrast}
+                  onChange={(e) => onNormalizeContrastChange(e.target.checked)}
+                  disabled={isProcessing}
+                />
+                Normalizar contraste
+              </label>
+            )}
+            <span className="text-gray-500">
+              {isProcessing ? 'Processando…' : 'Use "Recortar" e arraste sobre a imagem para recortar.'}
+            </span>
+          </div>
+        )}
+        {onRedactionBoxesChange && (
+          <div className={`flex flex-wrap items-center gap-2 mb-2 flex-shrink-0 text-xs rounded px-2 py-1 ${isRedactionReviewed ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'}`} aria-label="Tarjas de anonimização">
+            <span className="font-medium">
+              {isTextDetectionMissing && !isRedactionReviewed
+                ? 'A procura de texto não rodou nesta imagem: cubra com "Tarja" o que identificar o paciente e confirme antes do envio.'
+                : redactionBoxes.length === 0
+                ? 'Nenhuma região com aparência de texto encontrada. Use "Tarja" para cobrir dados do paciente.'
+                : `${redactionBoxes.length} tarja(s) cobrem regiões com aparência de texto na cópia enviada ao modelo${isRedactionReviewed ? ' (conferidas)' : ' — confira e ajuste'}.`}
+            </span>
+            <span className="w-full opacity-80">
+              A detecção procura o formato de letras perto das bordas, sem ler o texto (não é OCR): texto no meio da imagem ou de baixo contraste pode escapar. Confira a imagem inteira.
+            </span>
+            {redactionBoxes.map((box, index) => (
+              <span key={box.id} className="flex items-center gap-1 border border-red-300 rounded px-1 bg-white text-gray-700">
+                Tarja {index + 1}{box.source === 'manual' ? ' (manual)' : ''}
+                <button
+                  onClick={() => onRedactionBoxesChange(redactionBoxes.filter(candidate => candidate.id !== box.id))}
+                  className="text-red-600 hover:text-red-800"
+                  aria-label={`Remover tarja ${index + 1}`}
+                >
+                  &times;
+                </button>
+              </span>
+            ))}
+            {onConfirmRedaction && !isRedactionReviewed && (
+              <button onClick={onConfirmRedaction} className="px-2 py-0.5 rounded bg-green-600 text-white hover:bg-green-700">
+                Confirmar tarjas
+              </button>
+            )}
+          </div>
+        )}
+        <div
           ref={imageViewportRef}
           onWheel={handleWheel}
           onMouseDown={handleMouseDown}
-          className="rounded flex-grow relative" // Use flex-grow to take available space
+          onMouseMove={handleToolMouseMove}
+          onMouseUp={handleToolMouseUp}
+          onMouseLeave={handleToolMouseUp}
+          className="rounded flex-grow relative bg-black" // Use flex-grow to take available space
           style={{
             overflow: 'hidden',
-            cursor: isDragging ? 'grabbing' : (zoom > 1 ? 'grab' : 'default'),
+            cursor,
             touchAction: 'none', // Prevents scrolling on touch devices if mouse events are triggered
           }}
         >
-          <img 
-            src={imageUrl} 
-            alt={altText} 
-            draggable="false"
+          <canvas
+            ref={imageCanvasRef}
+            role="img"
+            aria-label={altText}
             style={{
-              width: '100%', // Image element fills the viewport
+              width: '100%', // Canvas element fills the viewport
               height: '100%',
               objectFit: 'contain', // Image content is contained, maintaining aspect ratio
               transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
@@ -135,10 +675,50 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, altText
               willChange: 'transform', // Hint for performance
             }}
           />
+          <canvas
+            ref={overlayCanvasRef}
+            className="absolute inset-0 pointer-events-none"
+            style={{ width: '100%', height: '100%' }}
+            aria-hidden="true"
+          />
         </div>
+        {stack && (
+          <div className="flex items-center gap-3 mt-2 flex-shrink-0 text-xs text-gray-700" aria-label="Navegação na série">
+            <div className="relative flex-grow">
+              <input
+                type="range"
+                min={0}
+                max={stack.count - 1}
+                value={stack.index}
+                onChange={(e) => stack.onIndexChange(Number(e.target.value))}
+                className="w-full"
+                aria-label="Corte exibido"
+                aria-valuetext={stack.label}
+              />
+              {stack.count > 1 && stack.keyFrames.map(frame => (
+                <span
+                  key={frame}
+                  className="absolute -bottom-1 w-1 h-1.5 bg-green-600 rounded-sm pointer-events-none"
+                  style={{ left: `calc(${(frame / (stack.count - 1)) * 100}% - 2px)` }}
+                  aria-hidden="true"
+                />
+              ))}
+            </div>
+            <span className="whitespace-nowrap w-40">{stack.label}</span>
+            <button
+              onClick={() => stack.onToggleKeyFrame(stack.index)}
+              className={toolButtonClass(stack.keyFrames.includes(stack.index))}
+              aria-pressed={stack.keyFrames.includes(stack.index)}
+              title="Cortes-chave são os enviados ao modelo"
+            >
+              {stack.keyFrames.includes(stack.index) ? 'Corte-chave ✓' : 'Marcar como corte-chave'}
+            </button>
+            <span className="text-gray-500 whitespace-nowrap">{stack.keyFrames.length} selecionado(s) · ↑↓ percorrem</span>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default ImagePreviewModal;
\ No newline at end of file
+export default ImagePreviewModal;
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { IntegrationSettings, PatientStudyIdentifiers, ProcessedImageFile, ReportAddendum, ReportSignOff, ReportStatus, StructuredReport } from '../types';
+import { HL7_CONTENT_TYPE, buildOruR01, validateOruR01 } from '../services/hl7Export';
+import { FHIR_CONTENT_TYPE, buildFhirBundle, serializeFhirBundle, validateFhirBundle } from '../services/fhirExport';
+import { canSendReport, identifiersFromStudy, sendIntegrationMessage, validateExportInput } from '../services/integrationExport';
+import { loadIntegrationSettings, saveIntegrationSettings } from '../services/settingsStore';
+import { describeReportStatus } from '../services/reportStatus';
+
+interface IntegrationExportModalProps {
+  reportText: string;
+  structuredReport: StructuredReport | null;
+  status: ReportStatus;
+  signOffs: ReportSignOff[];
+  addenda: ReportAddendum[];
+  images: ProcessedImageFile[]; // Enviadas como Media no bundle FHIR
+  onClose: () => void;
+}
+
+type ExportFormat = 'hl7' | 'fhir';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  hl7: 'HL7 v2.5 (ORU^R01)',
+  fhir: 'FHIR R4 (Bundle)',
+};
+
+const IDENTIFIER_FIELDS: { key: Exclude<keyof PatientStudyIdentifiers, 'sex'>; label: string; type?: string }[] = [
+  { key: 'patientId', label: 'ID do paciente (prontuário)' },
+  { key: 'patientName', label: 'Nome do paciente' },
+  { key: 'birthDate', label: 'Nascimento', type: 'date' },
+  { key: 'accessionNumber', label: 'Número de acesso' },
+  { key: 'studyDate', label: 'Data do exame', type: 'date' },
+  { key: 'modality', label: 'Modalidade (ex: CT, MR, CR)' },
+  { key: 'studyDescription', label: 'Descrição do exame' },
+  { key: 'orderingProvider', label: 'Médico solicitante' },
+  { key: 'studyInstanceUid', label: 'Study Instance UID' },
+];
+
+const inputClassName = "mt-1 block w-full px-2 py-1 bg-white border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+const IntegrationExportModal: React.FC<IntegrationExportModalProps> = ({ reportText, structuredReport, status, signOffs, addenda, images, onClose }) => {
+  const [identifiers, setIdentifiers] = useState<PatientStudyIdentifiers>(() => identifiersFromStudy(images, structuredReport));
+  const [settings, setSettings] = useState<IntegrationSettings>(loadIntegrationSettings);
+  const [format, setFormat] = useState<ExportFormat>('hl7');
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // A mensagem é remontada a cada alteração para que a pré-visualização e a validação reflitam o formulário.
+  const prepared = useMemo(() => {
+    const input = {
+      identifiers,
+      report: { text: reportText, structured: structuredReport, status, signOffs, addenda },
+      images,
+      issuedAt: new Date(),
+    };
+    const inputErrors = validateExportInput(input);
+    if (format === 'hl7') {
+      const body = buildOruR01(input, settings);
+      return { body, contentType: HL7_CONTENT_TYPE, extension: 'hl7', errors: [...inputErrors, ...validateOruR01(body)] };
+    }
+    const bundle = buildFhirBundle(input);
+    return { body: serializeFhirBundle(bundle), contentType: FHIR_CONTENT_TYPE, extension: 'json', errors: [...inputErrors, ...validateFhirBundle(bundle)] };
+  }, [identifiers, reportText, structuredReport, status, signOffs, addenda, images, format, settings]);
+
+  const endpoint = format === 'hl7' ? settings.hl7Endpoint : settings.fhirEndpoint;
+  const isSignable = canSendReport(status);
+  const fileBase = `laudo-${identifiers.accessionNumber.trim().replace(/[^\w-]+/g, '_') || new Date().toISOString().split('T')[0]}`;
+
+  const updateIdentifier = (key: keyof PatientStudyIdentifiers, value: string) => {
+    setIdentifiers(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateSettings = (key: keyof IntegrationSettings, value: string) => {
+    setSettings(prev => {
+      const next = { ...prev, [key]: value };
+      saveIntegrationSettings(next);
+      return next;
+    });
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([prepared.body], { type: prepared.contentType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileBase}-${format}.${prepared.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setResult(null);
+    try {
+      const response = await sendIntegrationMessage(endpoint, prepared.body, prepared.contentType, settings.authorization);
+      setResult({ ok: true, message: response || 'Recebido pelo destino.' });
+    } catch (err) {
+      setResult({ ok: false, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="integration-export-title"
+    >
+      <div
+        className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="integration-export-title" className="text-lg font-semibold text-gray-800">Exportar para RIS/PEP (HL7 / FHIR)</h2>
+
+        <p className={`text-sm rounded-md p-3 border ${isSignable ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          {describeReportStatus({ status, signOffs })}.
+          {!isSignable && ' O laudo pode ser baixado, mas só é enviado ao destino depois de assinado (preliminar ou final).'}
+        </p>
+
+        <fieldset className="border border-gray-200 rounded-md p-3">
+          <legend className="text-sm font-medium text-gray-700 px-1">Paciente e exame</legend>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {IDENTIFIER_FIELDS.map(field => (
+              <label key={field.key} className="block text-xs font-medium text-gray-700">
+                {field.label}
+                <input
+                  type={field.type ?? 'text'}
+                  value={identifiers[field.key]}
+                  onChange={(e) => updateIdentifier(field.key, e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+            <label className="block text-xs font-medium text-gray-700">
+              Sexo
+              <select value={identifiers.sex} onChange={(e) => updateIdentifier('sex', e.target.value)} className={inputClassName}>
+                <option value="F">Feminino</option>
+                <option value="M">Masculino</option>
+                <option value="O">Outro</option>
+                <option value="U">Não informado</option>
+              </select>
+            </label>
+          </div>
+        </fieldset>
+
+        <fieldset className="border border-gray-200 rounded-md p-3">
+          <legend className="text-sm font-medium text-gray-700 px-1">Destino (salvo neste navegador)</legend>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-gray-700 md:col-span-3">
+              {format === 'hl7' ? 'Endpoint HL7 (POST da mensagem ER7)' : 'Base do servidor FHIR R4'}
+              <input
+                type="url"
+                value={endpoint}
+                onChange={(e) => updateSettings(format === 'hl7' ? 'hl7Endpoint' : 'fhirEndpoint', e.target.value)}
+                placeholder={format === 'hl7' ? 'http://localhost:8788/hl7' : 'http://localhost:8788/fhir'}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-700 md:col-span-3">
+              Cabeçalho Authorization (opcional)
+              <input
+                type="password"
+                value={settings.authorization}
+                onChange={(e) => updateSettings('authorization', e.target.value)}
+                placeholder="Bearer ..."
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </label>
+            {format === 'hl7' && (
+              <>
+                <label className="block text-xs font-medium text-gray-700">
+                  Instituição remetente (MSH-4)
+                  <input value={settings.sendingFacility} onChange={(e) => updateSettings('sendingFacility', e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block text-xs font-medium text-gray-700">
+                  Aplicação destino (MSH-5)
+                  <input value={settings.receivingApplication} onChange={(e) => updateSettings('receivingApplication', e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block text-xs font-medium text-gray-700">
+                  Instituição destino (MSH-6)
+                  <input value={settings.receivingFacility} onChange={(e) => updateSettings('receivingFacility', e.target.value)} className={inputClassName} />
+                </label>
+              </>
+            )}
+          </div>
+        </fieldset>
+
+        <div>
+          <div className="flex space-x-2 mb-2" role="tablist">
+            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(option => (
+              <button
+                key={option}
+                role="tab"
+                aria-selected={format === option}
+                onClick={() => { setFormat(option); setResult(null); }}
+                className={`py-1 px-3 rounded-md text-sm font-medium ${format === option ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {FORMAT_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <pre className="text-xs bg-gray-900 text-green-200 rounded-md p-3 max-h-64 overflow-auto whitespace-pre-wrap break-all">
+            {format === 'hl7' ? prepared.body.replace(/\r/g, '\n') : prepared.body}
+          </pre>
+          {format === 'fhir' && images.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">{images.length} imagem(ns) incluída(s) como Media no bundle.</p>
+          )}
+        </div>
+
+        {prepared.errors.length > 0 ? (
+          <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+            <p className="font-semibold">Corrija antes de exportar:</p>
+            <ul className="list-disc list-inside">
+              {prepared.errors.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-sm text-green-700">Estrutura validada.</p>
+        )}
+
+        {result && (
+          <div className={`text-sm rounded-md p-2 border ${result.ok ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+            <p className="font-semibold">{result.ok ? 'Enviado. Resposta do destino:' : 'Falha no envio:'}</p>
+            <pre className="text-xs whitespace-pre-wrap break-all">{result.message.replace(/\r/g, '\n')}</pre>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fechar
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={prepared.errors.length > 0}
+            className="py-2 px-4 border border-indigo-300 rounded-md shadow-sm text-sm font-medium text-indigo-700 bg-white hover:bg-indigo-50 disabled:text-gray-400 disabled:border-gray-200"
+          >
+            Baixar
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={isSending || prepared.errors.length > 0 || !endpoint.trim() || !isSignable}
+            title={!isSignable ? 'Assine o laudo antes de enviar' : !endpoint.trim() ? 'Configure o endpoint de destino' : undefined}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isSending ? 'Enviando...' : 'Enviar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrationExportModal;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ProcessedImageFile, ReportAddendum, ReportSignOff, ReportStatus } from '../types';
+import { exportReportPdf } from '../services/pdfExport';
+import { describeReportStatus, isReportLocked } from '../services/reportStatus';
+
+interface PdfExportModalProps {
+  reportText: string;
+  status: ReportStatus;
+  signOffs: ReportSignOff[];
+  addenda: ReportAddendum[];
+  images: ProcessedImageFile[]; // Candidatas a imagem-chave (arquivos enviados)
+  onClose: () => void;
+}
+
+const DEFAULT_KEY_IMAGE_COUNT = 3;
+
+const PdfExportModal: React.FC<PdfExportModalProps> = ({ reportText, status, signOffs, addenda, images, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => images.slice(0, DEFAULT_KEY_IMAGE_COUNT).map(file => file.id));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleImage = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await exportReportPdf({
+        reportText,
+        // Mantém a ordem de envio, não a ordem de seleção, para coincidir com "Imagem N" no laudo.
+        keyImages: images.filter(file => selectedIds.includes(file.id)),
+        status,
+        signOffs,
+        addenda,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="pdf-export-title"
+    >
+      <div
+        className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="pdf-export-title" className="text-lg font-semibold text-gray-800">Exportar Laudo em PDF</h2>
+
+        <div className={`text-sm rounded-md p-3 border ${isReportLocked(status) ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          <p className="font-semibold">{describeReportStatus({ status, signOffs })}</p>
+          {!isReportLocked(status) && (
+            <p className="text-xs mt-1">O PDF sairá com marca d'água. A assinatura é registrada no painel de status do laudo, não nesta tela.</p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            Imagens-chave ({selectedIds.length} selecionada(s))
+          </h3>
+          {images.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum arquivo enviado; imagens carregadas por URL não são incluídas no PDF.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {images.map((file, index) => {
+                const isSelected = selectedIds.includes(file.id);
+                return (
+                  <button
+                    key={file.id}
+                    onClick={() => toggleImage(file.id)}
+                    className={`relative rounded-md overflow-hidden border-2 ${isSelected ? 'border-indigo-600' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                    aria-pressed={isSelected}
+                    title={file.name}
+                  >
+                    <img src={file.previewUrl} alt={`Imagem ${index + 1}`} className="w-full h-24 object-cover bg-black" />
+                    <span className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-60 text-white text-xs px-1 truncate">
+                      Imagem {index + 1}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isExporting ? 'Gerando PDF...' : 'Baixar PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportModal;
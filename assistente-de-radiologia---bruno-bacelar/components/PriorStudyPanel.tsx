@@ -0,0 +1,128 @@
+import React from 'react';
+import { PriorStudy, StudySummary } from '../types';
+import { MAX_PRIOR_IMAGES } from '../services/reportPrompt';
+
+interface PriorStudyPanelProps {
+  priorStudy: PriorStudy | null;
+  studies: StudySummary[]; // Estudos do histórico que podem ser usados como exame anterior
+  onChange: (priorStudy: PriorStudy | null) => void;
+  onLoadFromHistory: (studyId: string) => void;
+  onReturnImage: (fileId: string) => void; // Devolve a imagem ao exame atual
+  disabled: boolean;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black";
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const PriorStudyPanel: React.FC<PriorStudyPanelProps> = ({
+  priorStudy,
+  studies,
+  onChange,
+  onLoadFromHistory,
+  onReturnImage,
+  disabled,
+}) => {
+  if (!priorStudy) {
+    return (
+      <div className="p-4 border border-dashed border-gray-300 rounded-lg bg-white flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          Comparar com um exame anterior? Marque imagens enviadas como "Anterior" ou inicie a comparação aqui.
+        </p>
+        <button
+          onClick={() => onChange({ studyDate: '', reportText: '', images: [] })}
+          disabled={disabled}
+          className="py-1 px-3 border border-indigo-300 rounded-md text-sm font-medium text-indigo-700 bg-white hover:bg-indigo-50 disabled:opacity-50"
+        >
+          Adicionar exame anterior
+        </button>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<PriorStudy>) => onChange({ ...priorStudy, ...changes });
+
+  return (
+    <div className="p-4 border border-amber-300 rounded-lg shadow-sm bg-amber-50 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-gray-800">Comparação com Exame Anterior</h3>
+        <button
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+        >
+          Remover comparação
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Data do exame anterior
+          <input
+            className={inputClassName}
+            value={priorStudy.studyDate}
+            onChange={(e) => update({ studyDate: e.target.value })}
+            placeholder="DD/MM/AAAA"
+            disabled={disabled}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Carregar do histórico
+          <select
+            className={inputClassName}
+            value={priorStudy.sourceStudyId ?? ''}
+            onChange={(e) => e.target.value && onLoadFromHistory(e.target.value)}
+            disabled={disabled || studies.length === 0}
+          >
+            <option value="">{studies.length === 0 ? 'Nenhum estudo salvo' : 'Selecione um estudo...'}</option>
+            {studies.map(study => (
+              <option key={study.id} value={study.id}>
+                {formatTimestamp(study.createdAt)} · {study.modality ?? study.prompt}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">
+          Imagens do exame anterior ({priorStudy.images.length} / {MAX_PRIOR_IMAGES})
+        </p>
+        {priorStudy.images.length === 0 ? (
+          <p className="text-xs text-gray-500">Nenhuma imagem. A comparação pode usar apenas o texto do laudo anterior.</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2">
+            {priorStudy.images.map((file, index) => (
+              <li key={file.id} className="w-24 text-center">
+                <img src={file.previewUrl} alt={file.name} title={file.name} className="h-20 w-24 object-cover rounded border bg-black" />
+                <span className="block text-[10px] text-gray-600 truncate">Anterior {index + 1}</span>
+                <button
+                  onClick={() => onReturnImage(file.id)}
+                  disabled={disabled}
+                  className="text-[11px] text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+                >
+                  Devolver ao atual
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Laudo do exame anterior
+        <textarea
+          rows={4}
+          className={inputClassName}
+          value={priorStudy.reportText}
+          onChange={(e) => update({ reportText: e.target.value })}
+          placeholder="Cole aqui o laudo anterior, se disponível."
+          disabled={disabled}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default PriorStudyPanel;
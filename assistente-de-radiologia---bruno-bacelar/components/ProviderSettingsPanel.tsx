@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from '../services/providers';
+import { MAX_IMAGES_PER_REPORT_LIMIT } from '../services/reportPrompt';
+import { clampMaxImages } from '../services/settingsStore';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const PROVIDER_IDS = Object.keys(PROVIDER_LABELS) as ProviderId[];
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const usesProvider = (id: ProviderId) => settings.reportProvider === id || settings.speechProvider === id || settings.transcriptionProvider === id;
+
+  const updateGemini = (field: keyof ProviderSettings['gemini'], value: string) => {
+    onChange({ ...settings, gemini: { ...settings.gemini, [field]: value } });
+  };
+
+  const updateOpenAi = (field: keyof ProviderSettings['openAiCompatible'], value: string) => {
+    onChange({ ...settings, openAiCompatible: { ...settings.openAiCompatible, [field]: value } });
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg shadow-sm bg-white">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center p-4 text-left"
+        aria-expanded={isOpen}
+        aria-controls="provider-settings-content"
+      >
+        <span className="text-lg font-medium text-gray-800">Configurações do Modelo</span>
+        <span className="text-sm text-gray-500">
+          Laudo: {PROVIDER_LABELS[settings.reportProvider]} · Voz: {PROVIDER_LABELS[settings.speechProvider]} · Ditado: {PROVIDER_LABELS[settings.transcriptionProvider]} {isOpen ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div id="provider-settings-content" className="p-4 pt-0 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Provedor do laudo
+              <select
+                value={settings.reportProvider}
+                onChange={(e) => onChange({ ...settings, reportProvider: e.target.value as ProviderId })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Provedor de voz (TTS)
+              <select
+                value={settings.speechProvider}
+                onChange={(e) => onChange({ ...settings, speechProvider: e.target.value as ProviderId })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Provedor de transcrição (ditado)
+              <select
+                value={settings.transcriptionProvider}
+                onChange={(e) => onChange({ ...settings, transcriptionProvider: e.target.value as ProviderId })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Máximo de imagens por laudo
+              <input
+                type="number"
+                min={1}
+                max={MAX_IMAGES_PER_REPORT_LIMIT}
+                value={settings.maxImagesPerReport}
+                onChange={(e) => onChange({ ...settings, maxImagesPerReport: clampMaxImages(e.target.valueAsNumber) })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+              <span className="text-xs font-normal text-gray-500">
+                Vale para arquivos, URLs e cortes-chave de séries (até {MAX_IMAGES_PER_REPORT_LIMIT}). Mais imagens custam mais tokens e tempo.
+              </span>
+            </label>
+          </div>
+
+          {usesProvider('gemini') && (
+            <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-gray-200 pt-3">
+              <legend className="text-sm font-semibold text-gray-800">Google Gemini</legend>
+              <label className="block text-sm text-gray-700">
+                Modelo do laudo
+                <input className={inputClassName} value={settings.gemini.reportModel} onChange={(e) => updateGemini('reportModel', e.target.value)} disabled={disabled} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Modelo de voz
+                <input className={inputClassName} value={settings.gemini.speechModel} onChange={(e) => updateGemini('speechModel', e.target.value)} disabled={disabled} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Modelo de transcrição
+                <input className={inputClassName} value={settings.gemini.transcriptionModel} onChange={(e) => updateGemini('transcriptionModel', e.target.value)} disabled={disabled} />
+              </label>
+            </fieldset>
+          )}
+
+          {usesProvider('openai-compatible') && (
+            <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-gray-200 pt-3">
+              <legend className="text-sm font-semibold text-gray-800">Compatível com OpenAI</legend>
+              <p className="text-xs text-gray-500 md:col-span-2">
+                A URL base e a chave de API são configuradas no servidor; as chamadas passam por ele, como as do Gemini.
+              </p>
+              <label className="block text-sm text-gray-700">
+                Modelo do laudo
+                <input className={inputClassName} value={settings.openAiCompatible.reportModel} onChange={(e) => updateOpenAi('reportModel', e.target.value)} disabled={disabled} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Modelo de voz
+                <input className={inputClassName} value={settings.openAiCompatible.speechModel} onChange={(e) => updateOpenAi('speechModel', e.target.value)} disabled={disabled} />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Modelo de transcrição
+                <input className={inputClassName} value={settings.openAiCompatible.transcriptionModel} onChange={(e) => updateOpenAi('transcriptionModel', e.target.value)} disabled={disabled} />
+              </label>
+            </fieldset>
+          )}
+
+          {usesProvider('mock') && (
+            <p className="text-xs text-gray-500 border-t border-gray-200 pt-3">
+              O provedor simulado não faz chamadas de rede e devolve sempre o mesmo laudo, áudio e ditado para a mesma entrada.
+            </p>
+          )}
+
+          <button
+            onClick={() => onChange(DEFAULT_PROVIDER_SETTINGS)}
+            disabled={disabled}
+            className="text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+          >
+            Restaurar padrões
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
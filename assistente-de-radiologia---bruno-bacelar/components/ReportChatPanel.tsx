@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReportChatMessage } from '../types';
+import { MAX_CHAT_QUESTION_LENGTH } from '../services/reportChat';
+
+interface ReportChatPanelProps {
+  messages: ReportChatMessage[];
+  onAsk: (question: string) => Promise<void>; // Rejeita em caso de falha; a mensagem de erro é exibida no painel
+  onApplySuggestion: (messageId: string) => void;
+  canApplySuggestions: boolean; // Falso para laudos finais, cujo texto não pode mais ser alterado
+  disabled: boolean;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+const ReportChatPanel: React.FC<ReportChatPanelProps> = ({ messages, onAsk, onApplySuggestion, canApplySuggestions, disabled }) => {
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, pendingQuestion]);
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!text || pendingQuestion !== null) return;
+    setError(null);
+    setPendingQuestion(text);
+    setQuestion('');
+    try {
+      await onAsk(text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setQuestion(text); // Devolve a pergunta ao campo para que possa ser reenviada
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-800">Perguntas sobre o estudo</h3>
+        <p className="text-xs text-gray-500">
+          As mesmas imagens e o laudo atual são enviados como contexto. Alterações propostas só entram no laudo ao clicar em "Aplicar ao laudo".
+        </p>
+      </div>
+
+      {(messages.length > 0 || pendingQuestion) && (
+        <div className="max-h-96 overflow-y-auto space-y-3 pr-1" aria-live="polite">
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.suggestedReport && (
+                  <div className="mt-2 border-t border-gray-300 pt-2 space-y-2">
+                    <details>
+                      <summary className="cursor-pointer text-xs font-medium text-indigo-700">Ver laudo proposto</summary>
+                      <pre className="mt-1 max-h-60 overflow-y-auto whitespace-pre-wrap font-sans text-xs bg-white border border-gray-200 rounded p-2">{message.suggestedReport}</pre>
+                    </details>
+                    {message.appliedAt ? (
+                      <p className="text-xs text-green-700">Aplicada ao laudo às {formatTime(message.appliedAt)}.</p>
+                    ) : !canApplySuggestions ? (
+                      <p className="text-xs text-gray-500">Laudo final: registre a alteração como adendo.</p>
+                    ) : (
+                      <button
+                        onClick={() => onApplySuggestion(message.id)}
+                        disabled={disabled}
+                        className="py-1 px-3 rounded-md text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+                      >
+                        Aplicar ao laudo
+                      </button>
+                    )}
+                  </div>
+                )}
+                <p className={`mt-1 text-[10px] ${message.role === 'user' ? 'text-indigo-200' : 'text-gray-400'}`}>{formatTime(message.createdAt)}</p>
+              </div>
+            </div>
+          ))}
+          {pendingQuestion && (
+            <>
+              <div className="flex justify-end">
+                <div className="max-w-[85%] rounded-lg px-3 py-2 text-sm bg-indigo-400 text-white whitespace-pre-wrap">{pendingQuestion}</div>
+              </div>
+              <p className="text-sm text-gray-500 animate-pulse">Analisando as imagens...</p>
+            </>
+          )}
+          <div ref={listEndRef} />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          maxLength={MAX_CHAT_QUESTION_LENGTH}
+          placeholder='ex: "Meça novamente o nódulo da imagem 2" ou "Reescreva a impressão de forma mais concisa"'
+          className="flex-1 p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-gray-800 bg-white disabled:opacity-50"
+          aria-label="Pergunta sobre o estudo"
+          disabled={disabled || pendingQuestion !== null}
+        />
+        <button
+          onClick={handleSend}
+          disabled={disabled || pendingQuestion !== null || !question.trim()}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+        >
+          Enviar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportChatPanel;
@@ -1,10 +1,31 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { CriticalFindingsAssessment, CriticalFindingsNotification, ProcessedImageFile, ReportAddendum, ReportAudioSegment, ReportSignOff, ReportStatus, StructuredReport } from '../types';
+import PdfExportModal from './PdfExportModal';
+import IntegrationExportModal from './IntegrationExportModal';
+import DictationControls from './DictationControls';
+import CriticalFindingsAlert from './CriticalFindingsAlert';
+import { REPORT_STATUS_LABELS, formatReportForExport, isReportLocked } from '../services/reportStatus';
+import { AudioDownloadFormat, buildAudioDownload, normalizeSpeechAudio, parseAudioDataUrl } from '../services/audio';
 
 interface ReportOutputProps {
   reportText: string | null;
+  structuredReport: StructuredReport | null; // Saída original da IA, exportável como JSON para integrações
+  status: ReportStatus;
+  signOffs: ReportSignOff[];
+  addenda: ReportAddendum[]; // Exibidos abaixo do texto, que fica bloqueado após a assinatura final
+  criticalFindings: CriticalFindingsAssessment | null;
+  criticalNotification: CriticalFindingsNotification | null;
+  isCriticalFindingsStale: boolean; // O texto mudou depois da última avaliação de achados críticos
+  isAssessingCriticalFindings: boolean;
+  onReassessCriticalFindings: () => void;
+  onRecordCriticalNotification: (notification: Pick<CriticalFindingsNotification, 'notifiedPerson' | 'method' | 'notifiedAt'>) => void;
   audioDataUrl: string | null;
+  audioSegments: ReportAudioSegment[]; // Seções que compõem o áudio, para destacar o trecho lido
+  keyImageCandidates: ProcessedImageFile[]; // Imagens que podem ser incluídas no PDF e nas exportações HL7/FHIR
   isLoadingReport: boolean; // For initial report text loading
   isLoadingAudio: boolean;  // For audio generation (initial or subsequent)
+  isStreaming: boolean;     // Report text is still arriving; rendered progressively
+  onCancelGeneration: () => void;
   error: string | null;
   onSaveEditedReport: (newText: string) => void;
   onGenerateAudioRequest: () => void; // Changed: App.tsx knows the text
@@ -12,16 +33,82 @@ interface ReportOutputProps {
 
 const ReportOutput: React.FC<ReportOutputProps> = ({ 
   reportText, 
+  structuredReport,
+  status,
+  signOffs,
+  addenda,
+  criticalFindings,
+  criticalNotification,
+  isCriticalFindingsStale,
+  isAssessingCriticalFindings,
+  onReassessCriticalFindings,
+  onRecordCriticalNotification,
   audioDataUrl, 
+  audioSegments,
+  keyImageCandidates,
   isLoadingReport, 
   isLoadingAudio,
+  isStreaming,
+  onCancelGeneration,
   error,
   onSaveEditedReport,
   onGenerateAudioRequest 
 }) => {
   const [copyButtonText, setCopyButtonText] = useState<string>("Copiar Laudo");
+  const [copyJsonButtonText, setCopyJsonButtonText] = useState<string>("Copiar JSON Estruturado");
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [editedText, setEditedText] = useState<string>("");
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState<boolean>(false);
+  const [isIntegrationExportOpen, setIsIntegrationExportOpen] = useState<boolean>(false);
+  const [audioDownloadFormat, setAudioDownloadFormat] = useState<AudioDownloadFormat>('mp3');
+  const [isPreparingAudioDownload, setIsPreparingAudioDownload] = useState<boolean>(false);
+  const [audioDownloadError, setAudioDownloadError] = useState<string | null>(null);
+  const [activeSegmentIndex, setActiveSegmentIndex] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const reportTextContainerRef = useRef<HTMLDivElement>(null);
+  const activeSegment = activeSegmentIndex !== null ? audioSegments[activeSegmentIndex] ?? null : null;
+  const isLocked = isReportLocked(status);
+
+  useEffect(() => {
+    setActiveSegmentIndex(null);
+  }, [audioDataUrl]);
+
+  // Mantém visível o trecho que está sendo lido.
+  useEffect(() => {
+    if (!activeSegment) return;
+    reportTextContainerRef.current
+      ?.querySelector(`[data-line="${activeSegment.startLine}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSegment]);
+
+  const handleAudioTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio || (audio.paused && audio.currentTime === 0)) {
+      setActiveSegmentIndex(null);
+      return;
+    }
+    const index = audioSegments.findIndex(segment =>
+      audio.currentTime >= segment.startSeconds && audio.currentTime < segment.startSeconds + segment.durationSeconds);
+    setActiveSegmentIndex(index >= 0 ? index : null);
+  };
+
+  const playSegment = (segment: ReportAudioSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.startSeconds;
+    audio.play().catch(err => console.warn("Reprodução bloqueada pelo navegador:", err));
+  };
+
+  // Estudos salvos antes da conversão para WAV podem conter PCM cru; converte na hora para que o player toque.
+  const playableAudioUrl = useMemo(() => {
+    if (!audioDataUrl) return null;
+    try {
+      const audio = normalizeSpeechAudio(parseAudioDataUrl(audioDataUrl));
+      return `data:${audio.mimeType};base64,${audio.base64}`;
+    } catch {
+      return audioDataUrl;
+    }
+  }, [audioDataUrl]);
 
   useEffect(() => {
     // When reportText prop changes (e.g., initial load or saved edit),
@@ -36,8 +123,10 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
     }
   }, [reportText, isEditing]);
 
+  // O texto copiado leva o status no topo e os adendos, como nas demais exportações.
   const handleCopyText = useCallback(() => {
-    const textToCopy = isEditing ? editedText : reportText;
+    const text = isEditing ? editedText : reportText;
+    const textToCopy = text ? formatReportForExport({ text, status, signOffs, addenda }) : null;
     if (textToCopy) {
       navigator.clipboard.writeText(textToCopy)
         .then(() => {
@@ -50,15 +139,57 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
           setTimeout(() => setCopyButtonText("Copiar Laudo"), 2000);
         });
     }
-  }, [reportText, editedText, isEditing]);
+  }, [reportText, editedText, isEditing, status, signOffs, addenda]);
+
+  const handleCopyJson = useCallback(() => {
+    if (!structuredReport) return;
+    navigator.clipboard.writeText(JSON.stringify(structuredReport, null, 2))
+      .then(() => {
+        setCopyJsonButtonText("Copiado!");
+        setTimeout(() => setCopyJsonButtonText("Copiar JSON Estruturado"), 2000);
+      })
+      .catch(err => {
+        console.error("Falha ao copiar o JSON: ", err);
+        setCopyJsonButtonText("Falha ao copiar");
+        setTimeout(() => setCopyJsonButtonText("Copiar JSON Estruturado"), 2000);
+      });
+  }, [structuredReport]);
+
+  const handleDownloadAudio = useCallback(async () => {
+    if (!audioDataUrl) return;
+    setIsPreparingAudioDownload(true);
+    setAudioDownloadError(null);
+    try {
+      const { blob, extension } = await buildAudioDownload(audioDataUrl, audioDownloadFormat);
+      const now = new Date();
+      const datePart = `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getDate().toString().padStart(2, '0')}`;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `laudo-${datePart}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Erro ao preparar o download do áudio:", err);
+      setAudioDownloadError(`Falha ao baixar áudio: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsPreparingAudioDownload(false);
+    }
+  }, [audioDataUrl, audioDownloadFormat]);
 
   const renderFormattedReportText = (text: string | null) => {
     if (!text) return null;
     const lines = text.split('\n');
     return lines.map((line, index) => {
       const formattedLine = line.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+      const isSpoken = !!activeSegment && index >= activeSegment.startLine && index <= activeSegment.endLine;
       return (
-        <span key={index} dangerouslySetInnerHTML={{ __html: formattedLine + "<br />" }} />
+        <span
+          key={index}
+          data-line={index}
+          className={isSpoken ? 'bg-yellow-100 transition-colors' : 'transition-colors'}
+          dangerouslySetInnerHTML={{ __html: formattedLine + "<br />" }}
+        />
       );
     });
   };
@@ -82,14 +213,43 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
     setIsEditing(false);
   };
 
+  const cancelButton = (
+    <button
+      onClick={onCancelGeneration}
+      className="py-1 px-3 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+    >
+      Cancelar
+    </button>
+  );
+
   if (isLoadingReport) {
     return (
-      <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white animate-pulse min-h-[200px]">
+      <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white min-h-[200px]">
+        {isStreaming && <div className="flex justify-end mb-2">{cancelButton}</div>}
+        <div className="animate-pulse">
         <div className="h-6 bg-gray-200 rounded w-3/4 mb-4"></div>
         <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
         <div className="h-4 bg-gray-200 rounded w-5/6 mb-2"></div>
         <div className="h-4 bg-gray-200 rounded w-full mb-6"></div>
         <div className="h-10 bg-gray-200 rounded w-full"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isStreaming) {
+    return (
+      <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white space-y-3 min-h-[200px]" aria-busy="true">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-gray-800">Laudo Radiológico</h3>
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-indigo-600 animate-pulse">Gerando laudo...</span>
+            {cancelButton}
+          </div>
+        </div>
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-md max-h-80 overflow-y-auto prose prose-sm text-gray-700" aria-live="polite">
+          {renderFormattedReportText(reportText)}
+        </div>
       </div>
     );
   }
@@ -115,19 +275,47 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
     <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white space-y-6 min-h-[200px]">
       {reportText !== null && ( // Only show section if there is or was report text
         <div>
-          <h3 className="text-xl font-semibold text-gray-800 mb-3">Laudo Radiológico</h3>
-          {isEditing ? (
-            <textarea
-              value={editedText}
-              onChange={(e) => setEditedText(e.target.value)}
-              className="w-full h-64 p-3 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-gray-800 bg-white"
-              aria-label="Editor de Laudo Radiológico"
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-xl font-semibold text-gray-800">Laudo Radiológico</h3>
+            <span className={`text-xs font-semibold uppercase px-2 py-1 rounded ${isLocked ? 'bg-green-100 text-green-800' : status === 'preliminary' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'}`}>
+              {REPORT_STATUS_LABELS[status]}
+            </span>
+          </div>
+          <div className="mb-3">
+            <CriticalFindingsAlert
+              assessment={criticalFindings}
+              notification={criticalNotification}
+              isStale={isCriticalFindingsStale}
+              isAssessing={isAssessingCriticalFindings}
+              onReassess={onReassessCriticalFindings}
+              onRecordNotification={onRecordCriticalNotification}
+              disabled={isLoadingAudio || isEditing}
             />
+          </div>
+          {isEditing ? (
+            <div className="space-y-3">
+              <DictationControls text={editedText} onTextChange={setEditedText} />
+              <textarea
+                value={editedText}
+                onChange={(e) => setEditedText(e.target.value)}
+                className="w-full h-64 p-3 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-gray-800 bg-white"
+                aria-label="Editor de Laudo Radiológico"
+              />
+            </div>
           ) : (
-            <div className="p-4 bg-gray-50 border border-gray-200 rounded-md max-h-80 overflow-y-auto prose prose-sm text-gray-700">
+            <div ref={reportTextContainerRef} className="p-4 bg-gray-50 border border-gray-200 rounded-md max-h-80 overflow-y-auto prose prose-sm text-gray-700">
               {renderFormattedReportText(reportText)}
             </div>
           )}
+          {addenda.map((addendum, index) => (
+            <div key={addendum.id} className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-gray-800">
+              <p className="font-semibold">Adendo {index + 1}</p>
+              <p className="whitespace-pre-wrap">{addendum.text}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {addendum.name} ({addendum.registry}) · {new Date(addendum.signedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+              </p>
+            </div>
+          ))}
         </div>
       )}
 
@@ -149,10 +337,11 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
           </div>
         ) : (
           <>
-            {reportText && (
+            {reportText && !isLocked && (
                  <button
                     onClick={handleEditClick}
-                    className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    disabled={isAssessingCriticalFindings}
+                    className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400"
                  >
                     Editar Laudo
                  </button>
@@ -179,9 +368,51 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
             {audioDataUrl && (
               <div className="mt-4">
                 <h3 className="text-lg font-semibold text-gray-800 mb-2">Laudo em Áudio</h3>
-                <audio controls src={audioDataUrl} className="w-full" aria-label="Reprodutor de áudio do laudo">
+                <audio
+                  ref={audioRef}
+                  controls
+                  src={playableAudioUrl ?? undefined}
+                  onTimeUpdate={handleAudioTimeUpdate}
+                  onSeeked={handleAudioTimeUpdate}
+                  onEnded={() => setActiveSegmentIndex(null)}
+                  className="w-full"
+                  aria-label="Reprodutor de áudio do laudo"
+                >
                   Seu navegador não suporta o elemento de áudio.
                 </audio>
+                {audioSegments.length > 1 && (
+                  <div className="flex flex-wrap gap-1 mt-2" aria-label="Seções do áudio">
+                    {audioSegments.map((segment, index) => (
+                      <button
+                        key={`${segment.hash}-${index}`}
+                        onClick={() => playSegment(segment)}
+                        className={`text-xs px-2 py-1 rounded-full border ${index === activeSegmentIndex ? 'bg-yellow-100 border-yellow-400 text-yellow-900' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                        title={`Ouvir a partir de ${segment.label}`}
+                      >
+                        {segment.label.charAt(0) + segment.label.slice(1).toLowerCase()}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 mt-2">
+                  <select
+                    value={audioDownloadFormat}
+                    onChange={(e) => setAudioDownloadFormat(e.target.value as AudioDownloadFormat)}
+                    className="py-2 px-2 border border-gray-300 rounded-md text-sm text-black bg-white"
+                    aria-label="Formato do áudio para download"
+                  >
+                    <option value="mp3">MP3 (compacto)</option>
+                    <option value="wav">WAV (original)</option>
+                  </select>
+                  <button
+                    onClick={handleDownloadAudio}
+                    disabled={isPreparingAudioDownload}
+                    className="flex-1 py-2 px-4 border border-purple-300 rounded-md shadow-sm text-sm font-medium text-purple-700 bg-white hover:bg-purple-50 disabled:opacity-50"
+                  >
+                    {isPreparingAudioDownload ? 'Preparando...' : 'Baixar áudio'}
+                  </button>
+                </div>
+                {audioDownloadError && <p className="text-sm text-red-600 mt-1">{audioDownloadError}</p>}
               </div>
             )}
 
@@ -193,9 +424,60 @@ const ReportOutput: React.FC<ReportOutputProps> = ({
                     {copyButtonText}
                 </button>
             )}
+
+            {reportText && (
+                <button
+                    onClick={() => setIsPdfExportOpen(true)}
+                    className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-slate-700 hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500"
+                >
+                    Exportar PDF
+                </button>
+            )}
+
+            {reportText && (
+                <button
+                    onClick={() => setIsIntegrationExportOpen(true)}
+                    className="w-full py-2 px-4 border border-slate-300 rounded-md shadow-sm text-sm font-medium text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500"
+                    title="Mensagem HL7 v2 ORU^R01 ou bundle FHIR R4 para o RIS/PEP"
+                >
+                    Exportar HL7 / FHIR
+                </button>
+            )}
+
+            {structuredReport && (
+                <button
+                    onClick={handleCopyJson}
+                    className="w-full py-2 px-4 border border-indigo-300 rounded-md shadow-sm text-sm font-medium text-indigo-700 bg-white hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    title="Laudo no formato estruturado original da IA, para integração com outros sistemas"
+                >
+                    {copyJsonButtonText}
+                </button>
+            )}
           </>
         )}
       </div>
+
+      {isPdfExportOpen && reportText && (
+        <PdfExportModal
+          reportText={reportText}
+          status={status}
+          signOffs={signOffs}
+          addenda={addenda}
+          images={keyImageCandidates}
+          onClose={() => setIsPdfExportOpen(false)}
+        />
+      )}
+      {isIntegrationExportOpen && reportText && (
+        <IntegrationExportModal
+          reportText={reportText}
+          structuredReport={structuredReport}
+          status={status}
+          signOffs={signOffs}
+          addenda={addenda}
+          images={keyImageCandidates}
+          onClose={() => setIsIntegrationExportOpen(false)}
+        />
+      )}
     </div>
   );
 };
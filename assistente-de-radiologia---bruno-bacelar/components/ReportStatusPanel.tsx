@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ReportAddendum, ReportSignOff, ReportStatus, UserProfile } from '../types';
+import { REPORT_STATUS_LABELS, REPORT_STATUS_ORDER, canSignAs, isReportLocked } from '../services/reportStatus';
+
+interface ReportStatusPanelProps {
+  status: ReportStatus;
+  signOffs: ReportSignOff[];
+  addenda: ReportAddendum[];
+  signer: UserProfile; // Perfil do cabeçalho, usado na assinatura
+  onStartReview: () => void;
+  onSign: (target: ReportSignOff['status']) => void; // Lança em caso de falha; a mensagem é exibida no painel
+  onAddAddendum: (text: string) => void;             // Idem
+  disabled: boolean;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const ReportStatusPanel: React.FC<ReportStatusPanelProps> = ({ status, signOffs, addenda, signer, onStartReview, onSign, onAddAddendum, disabled }) => {
+  const [addendumText, setAddendumText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isLocked = isReportLocked(status);
+  const currentStep = REPORT_STATUS_ORDER.indexOf(status);
+  const missingSigner = !signer.name.trim() || !signer.registry.trim();
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleAddAddendum = () => run(() => {
+    onAddAddendum(addendumText);
+    setAddendumText('');
+  });
+
+  return (
+    <div className="p-6 border border-gray-300 rounded-lg shadow-sm bg-white space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-800">Status e assinatura</h3>
+        <p className="text-xs text-gray-500">
+          Rascunho da IA → em revisão → preliminar → final. Após a assinatura final o texto fica bloqueado e correções entram como adendos.
+        </p>
+      </div>
+
+      <ol className="flex flex-wrap gap-2 text-xs" aria-label="Etapas do laudo">
+        {REPORT_STATUS_ORDER.map((step, index) => (
+          <li
+            key={step}
+            aria-current={step === status ? 'step' : undefined}
+            className={`px-2 py-1 rounded-full border ${
+              step === status
+                ? 'bg-indigo-600 border-indigo-600 text-white font-semibold'
+                : index < currentStep ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-gray-200 text-gray-400'
+            }`}
+          >
+            {REPORT_STATUS_LABELS[step]}
+          </li>
+        ))}
+      </ol>
+
+      {!isLocked && missingSigner && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+          Preencha seu nome e registro profissional no cabeçalho para assinar o laudo.
+        </p>
+      )}
+
+      {!isLocked && (
+        <div className="flex flex-wrap gap-3">
+          {status === 'draft' && (
+            <button
+              onClick={onStartReview}
+              disabled={disabled}
+              className="py-2 px-4 rounded-md text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Iniciar revisão
+            </button>
+          )}
+          {canSignAs(status, 'preliminary') && (
+            <button
+              onClick={() => run(() => onSign('preliminary'))}
+              disabled={disabled || missingSigner}
+              className="py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Assinar como preliminar
+            </button>
+          )}
+          {canSignAs(status, 'final') && (
+            <button
+              onClick={() => run(() => onSign('final'))}
+              disabled={disabled || missingSigner}
+              className="py-2 px-4 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+            >
+              Assinar como final
+            </button>
+          )}
+        </div>
+      )}
+
+      {signOffs.length > 0 && (
+        <ul className="text-sm text-gray-700 space-y-1" aria-label="Assinaturas">
+          {signOffs.map(signOff => (
+            <li key={`${signOff.versionId}-${signOff.signedAt}`}>
+              <span className="font-medium">{REPORT_STATUS_LABELS[signOff.status]}</span>: {signOff.name} ({signOff.registry}) · {formatDateTime(signOff.signedAt)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isLocked && (
+        <div className="space-y-2">
+          <label htmlFor="report-addendum" className="block text-sm font-medium text-gray-700">
+            Novo adendo {addenda.length > 0 && <span className="text-gray-500 font-normal">({addenda.length} registrado(s))</span>}
+          </label>
+          <textarea
+            id="report-addendum"
+            value={addendumText}
+            onChange={(e) => setAddendumText(e.target.value)}
+            rows={3}
+            placeholder="Correção ou informação adicional; o texto assinado não é alterado."
+            className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-gray-800 bg-white disabled:opacity-50"
+            disabled={disabled}
+          />
+          <button
+            onClick={handleAddAddendum}
+            disabled={disabled || missingSigner || !addendumText.trim()}
+            className="py-2 px-4 rounded-md text-sm font-medium text-white bg-amber-600 hover:bg-amber-700 disabled:bg-gray-400"
+          >
+            Assinar adendo
+          </button>
+          {missingSigner && <p className="text-xs text-amber-700">Preencha seu nome e registro profissional no cabeçalho para assinar o adendo.</p>}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ReportStatusPanel;
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { ReportVersion } from '../types';
+import { DiffPart, LineDiff, VERSION_SOURCE_LABELS, diffReportVersions } from '../services/reportVersions';
+
+interface ReportVersionHistoryProps {
+  versions: ReportVersion[]; // Da mais antiga para a mais recente
+  currentText: string;
+  onRestore: (versionId: string) => void;
+  disabled: boolean;
+}
+
+type DiffMode = 'inline' | 'side-by-side';
+
+const SOURCE_BADGE_CLASSES: Record<ReportVersion['source'], string> = {
+  ai: 'bg-purple-100 text-purple-800',
+  manual: 'bg-blue-100 text-blue-800',
+  chat: 'bg-teal-100 text-teal-800',
+  restore: 'bg-amber-100 text-amber-800',
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('pt-BR', {
+  day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const selectClassName = "px-2 py-1 bg-white border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+const renderWords = (words: DiffPart[], side: 'old' | 'new') => words
+  .filter(part => part.type === 'equal' || part.type === (side === 'old' ? 'removed' : 'added'))
+  .map((part, index) => part.type === 'equal'
+    ? <span key={index}>{part.text}</span>
+    : <span key={index} className={side === 'old' ? 'bg-red-200 line-through' : 'bg-green-200'}>{part.text}</span>);
+
+const InlineDiff: React.FC<{ lines: LineDiff[] }> = ({ lines }) => (
+  <div className="font-mono text-xs border border-gray-200 rounded-md overflow-x-auto">
+    {lines.map((line, index) => {
+      if (line.type === 'equal') {
+        return <div key={index} className="px-2 whitespace-pre-wrap text-gray-700">&nbsp; {line.oldText}</div>;
+      }
+      if (line.type === 'changed') {
+        return (
+          <React.Fragment key={index}>
+            <div className="px-2 whitespace-pre-wrap bg-red-50 text-red-900">- {renderWords(line.words ?? [], 'old')}</div>
+            <div className="px-2 whitespace-pre-wrap bg-green-50 text-green-900">+ {renderWords(line.words ?? [], 'new')}</div>
+          </React.Fragment>
+        );
+      }
+      return line.type === 'removed'
+        ? <div key={index} className="px-2 whitespace-pre-wrap bg-red-50 text-red-900">- {line.oldText}</div>
+        : <div key={index} className="px-2 whitespace-pre-wrap bg-green-50 text-green-900">+ {line.newText}</div>;
+    })}
+  </div>
+);
+
+const SideBySideDiff: React.FC<{ lines: LineDiff[] }> = ({ lines }) => (
+  <div className="grid grid-cols-2 font-mono text-xs border border-gray-200 rounded-md overflow-x-auto">
+    {lines.map((line, index) => {
+      const oldClassName = line.type === 'equal' ? 'text-gray-700' : line.oldText !== undefined ? 'bg-red-50 text-red-900' : 'bg-gray-50';
+      const newClassName = line.type === 'equal' ? 'text-gray-700' : line.newText !== undefined ? 'bg-green-50 text-green-900' : 'bg-gray-50';
+      return (
+        <React.Fragment key={index}>
+          <div className={`px-2 whitespace-pre-wrap border-r border-gray-200 ${oldClassName}`}>
+            {line.type === 'changed' ? renderWords(line.words ?? [], 'old') : line.oldText ?? ''}&nbsp;
+          </div>
+          <div className={`px-2 whitespace-pre-wrap ${newClassName}`}>
+            {line.type === 'changed' ? renderWords(line.words ?? [], 'new') : line.newText ?? ''}&nbsp;
+          </div>
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+const ReportVersionHistory: React.FC<ReportVersionHistoryProps> = ({ versions, currentText, onRestore, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('inline');
+
+  // Sem seleção explícita, compara a versão mais recente com a anterior.
+  const chosenIndex = versions.findIndex(version => version.id === selectedId);
+  const selectedIndex = chosenIndex >= 0 ? chosenIndex : versions.length - 1;
+  const selected = versions[selectedIndex];
+  const chosenBaseIndex = versions.findIndex(version => version.id === baseId);
+  const baseIndex = chosenBaseIndex >= 0 ? chosenBaseIndex : selectedIndex - 1;
+  const base = baseIndex >= 0 && baseIndex !== selectedIndex ? versions[baseIndex] : null;
+
+  const lines = useMemo(() => (base ? diffReportVersions(base.text, selected.text) : []), [base, selected]);
+  const changedLines = lines.filter(line => line.type !== 'equal').length;
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setBaseId(null);
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg shadow-sm bg-white">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center p-4 text-left"
+        aria-expanded={isOpen}
+        aria-controls="report-version-history-content"
+      >
+        <span className="text-lg font-medium text-gray-800">Histórico de versões</span>
+        <span className="text-sm text-gray-500">{versions.length} versão(ões) {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && selected && (
+        <div id="report-version-history-content" className="p-4 pt-0 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <ol className="space-y-1 max-h-96 overflow-y-auto pr-1 md:col-span-1" aria-label="Versões do laudo">
+            {versions.map((version, index) => ({ version, number: index + 1 })).reverse().map(({ version, number }) => (
+              <li key={version.id}>
+                <button
+                  onClick={() => handleSelect(version.id)}
+                  className={`w-full text-left p-2 rounded-md border text-sm ${version.id === selected.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-gray-800">v{number}{number === versions.length ? ' (atual)' : ''}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${SOURCE_BADGE_CLASSES[version.source]}`}>{VERSION_SOURCE_LABELS[version.source]}</span>
+                  </span>
+                  <span className="block text-xs text-gray-600 truncate">{version.author}</span>
+                  <span className="block text-xs text-gray-400">{formatDateTime(version.createdAt)}</span>
+                  {version.note && <span className="block text-xs text-gray-500 italic truncate" title={version.note}>{version.note}</span>}
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          <div className="md:col-span-2 space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                Comparar v{selectedIndex + 1} com
+                <select
+                  value={base?.id ?? ''}
+                  onChange={(e) => setBaseId(e.target.value || null)}
+                  className={selectClassName}
+                >
+                  <option value="">—</option>
+                  {versions.map((version, index) => index !== selectedIndex && (
+                    <option key={version.id} value={version.id}>v{index + 1} · {VERSION_SOURCE_LABELS[version.source]}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="Modo de comparação">
+                {(['inline', 'side-by-side'] as DiffMode[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    className={`px-3 py-1 text-xs ${mode === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {option === 'inline' ? 'Em linha' : 'Lado a lado'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => onRestore(selected.id)}
+                disabled={disabled || selected.text === currentText}
+                className="ml-auto py-1 px-3 rounded-md text-sm font-medium text-white bg-amber-600 hover:bg-amber-700 disabled:bg-gray-400"
+                title={selected.text === currentText ? 'Esta versão já é o texto atual do laudo.' : undefined}
+              >
+                Restaurar v{selectedIndex + 1}
+              </button>
+            </div>
+
+            {base ? (
+              <>
+                <p className="text-xs text-gray-500">
+                  v{baseIndex + 1} → v{selectedIndex + 1}: {changedLines === 0 ? 'textos idênticos.' : `${changedLines} linha(s) com diferença.`}
+                </p>
+                {mode === 'inline' ? <InlineDiff lines={lines} /> : <SideBySideDiff lines={lines} />}
+              </>
+            ) : (
+              <pre className="max-h-96 overflow-y-auto whitespace-pre-wrap font-mono text-xs border border-gray-200 rounded-md p-2 text-gray-700">{selected.text}</pre>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportVersionHistory;
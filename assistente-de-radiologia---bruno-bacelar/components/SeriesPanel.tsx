@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { ImageSeries } from '../types';
+import ImagePreviewModal from './ImagePreviewModal';
+import { LoadedImage, loadSeriesFrame, suggestKeyFrames } from '../services/imageSeries';
+
+interface SeriesPanelProps {
+  series: ImageSeries[];
+  onSeriesChange: (series: ImageSeries[]) => void;
+  slotsAvailable: number; // Imagens que ainda cabem no laudo
+  onAddKeyFrames: (images: LoadedImage[]) => Promise<void>;
+  disabled: boolean;
+}
+
+const SeriesPanel: React.FC<SeriesPanelProps> = ({ series, onSeriesChange, slotsAvailable, onAddKeyFrames, disabled }) => {
+  const [viewer, setViewer] = useState<{ seriesId: string; index: number } | null>(null);
+  const [viewerFrame, setViewerFrame] = useState<LoadedImage | null>(null);
+  const [busyMessage, setBusyMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const viewedSeries = series.find(item => item.id === viewer?.seriesId) ?? null;
+
+  // Decodifica só o corte exibido; o anterior fica na tela até o próximo ficar pronto.
+  useEffect(() => {
+    if (!viewer || !viewedSeries) {
+      setViewerFrame(null);
+      return;
+    }
+    let cancelled = false;
+    loadSeriesFrame(viewedSeries, viewer.index)
+      .then(frame => {
+        if (!cancelled) setViewerFrame(frame);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Só a série e o corte exibidos importam; mudanças nos cortes-chave não exigem nova leitura.
+  }, [viewer?.seriesId, viewer?.index, viewedSeries?.frames]);
+
+  const updateKeyFrames = (seriesId: string, keyFrames: number[]) => {
+    onSeriesChange(series.map(item => (item.id === seriesId ? { ...item, keyFrames: [...keyFrames].sort((a, b) => a - b) } : item)));
+  };
+
+  const toggleKeyFrame = (item: ImageSeries, index: number) => {
+    updateKeyFrames(item.id, item.keyFrames.includes(index) ? item.keyFrames.filter(frame => frame !== index) : [...item.keyFrames, index]);
+  };
+
+  const handleSuggest = async (item: ImageSeries) => {
+    setError(null);
+    try {
+      const keyFrames = await suggestKeyFrames(item, Math.min(slotsAvailable, item.frames.length), (done, total) => {
+        setBusyMessage(`Analisando cortes de "${item.name}" (${done}/${total})…`);
+      });
+      updateKeyFrames(item.id, keyFrames);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  // Os cortes-chave entram no exame como imagens comuns; a série continua disponível para nova escolha.
+  const handleAdd = async (item: ImageSeries) => {
+    setError(null);
+    const keyFrames = item.keyFrames.slice(0, slotsAvailable);
+    if (keyFrames.length < item.keyFrames.length) {
+      setError(`Só cabem mais ${slotsAvailable} imagem(ns) no laudo; foram adicionados os primeiros ${keyFrames.length} cortes-chave.`);
+    }
+    try {
+      const images: LoadedImage[] = [];
+      for (const [position, index] of keyFrames.entries()) {
+        setBusyMessage(`Lendo cortes-chave de "${item.name}" (${position + 1}/${keyFrames.length})…`);
+        images.push(await loadSeriesFrame(item, index));
+      }
+      setBusyMessage(`Preparando ${images.length} imagem(ns)…`);
+      await onAddKeyFrames(images);
+      updateKeyFrames(item.id, []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const handleDiscard = (seriesId: string) => {
+    if (viewer?.seriesId === seriesId) setViewer(null);
+    onSeriesChange(series.filter(item => item.id !== seriesId));
+  };
+
+  if (series.length === 0) return null;
+
+  const isBusy = disabled || busyMessage !== null;
+  const actionClass = "px-2 py-0.5 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2" aria-label="Séries carregadas">
+      <p className="text-sm font-medium text-gray-700">Séries carregadas:</p>
+      <ul className="space-y-2">
+        {series.map(item => (
+          <li key={item.id} className="p-2 border rounded-md bg-gray-50 text-xs text-gray-700 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium truncate" title={item.name}>{item.name}</span>
+              {item.modality && (
+                <span className="text-[10px] font-semibold uppercase bg-indigo-100 text-indigo-700 rounded px-1">{item.modality}</span>
+              )}
+              <span className="text-gray-500">{item.frames.length} corte(s)</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setViewer({ seriesId: item.id, index: item.keyFrames[0] ?? 0 })} disabled={isBusy} className={actionClass}>
+                Ver série
+              </button>
+              <button
+                onClick={() => handleSuggest(item)}
+                disabled={isBusy || slotsAvailable === 0}
+                className={actionClass}
+                title={slotsAvailable === 0 ? 'Limite de imagens por laudo atingido' : `Escolhe até ${slotsAvailable} cortes representativos, pulando os cortes vazios das pontas`}
+              >
+                Escolher automaticamente
+              </button>
+              <button
+                onClick={() => handleAdd(item)}
+                disabled={isBusy || item.keyFrames.length === 0 || slotsAvailable === 0}
+                className="px-2 py-0.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                Adicionar {item.keyFrames.length} corte(s)-chave ao exame
+              </button>
+              <button onClick={() => handleDiscard(item.id)} disabled={isBusy} className="text-red-500 hover:text-red-700 disabled:opacity-50">
+                Descartar
+              </button>
+            </div>
+            {item.keyFrames.length > 0 && (
+              <div className="flex flex-wrap gap-1" aria-label={`Cortes-chave de ${item.name}`}>
+                {item.keyFrames.map(index => (
+                  <span key={index} className="flex items-center gap-1 border border-green-300 bg-white rounded px-1">
+                    <button onClick={() => setViewer({ seriesId: item.id, index })} disabled={isBusy} className="hover:text-indigo-600" title={item.frames[index].label}>
+                      {index + 1}
+                    </button>
+                    <button onClick={() => toggleKeyFrame(item, index)} disabled={isBusy} className="text-red-600 hover:text-red-800" aria-label={`Remover corte ${index + 1} dos cortes-chave`}>
+                      &times;
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {busyMessage && <p className="text-xs text-indigo-600">{busyMessage}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <ImagePreviewModal
+        imageUrl={viewer ? viewerFrame?.file.previewUrl ?? null : null}
+        altText={viewedSeries && viewer ? `${viewedSeries.name}: ${viewedSeries.frames[viewer.index].label}` : ''}
+        onClose={() => setViewer(null)}
+        dicomPixelData={viewerFrame?.file.dicom?.pixelData}
+        pixelSpacing={viewerFrame?.file.dicom?.metadata.pixelSpacing}
+        stack={viewedSeries && viewer ? {
+          id: viewedSeries.id,
+          index: viewer.index,
+          count: viewedSeries.frames.length,
+          label: viewedSeries.frames[viewer.index].label,
+          keyFrames: viewedSeries.keyFrames,
+          onIndexChange: index => setViewer({ seriesId: viewedSeries.id, index }),
+          onToggleKeyFrame: index => toggleKeyFrame(viewedSeries, index),
+        } : undefined}
+      />
+    </div>
+  );
+};
+
+export default SeriesPanel;
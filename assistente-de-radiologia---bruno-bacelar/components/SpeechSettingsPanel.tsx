@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { PronunciationEntry, ProviderSettings, SpeakingRate, SpeechSettings } from '../types';
+import {
+  DEFAULT_PRONUNCIATION_LEXICON,
+  DEFAULT_SPEECH_SETTINGS,
+  GEMINI_VOICES,
+  OPENAI_VOICES,
+  SPEAKING_RATES,
+  SPEECH_PREVIEW_TEXT,
+  applyPronunciationLexicon,
+} from '../services/speech';
+import { previewSpeech } from '../services/geminiService';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+  providerSettings: ProviderSettings; // A voz pertence às configurações do provedor de fala selecionado
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const SPEAKING_RATE_IDS = Object.keys(SPEAKING_RATES) as SpeakingRate[];
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 text-black";
+const lexiconInputClassName = "block w-full px-2 py-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-sm disabled:opacity-50 text-black";
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({
+  settings,
+  onChange,
+  providerSettings,
+  onProviderSettingsChange,
+  disabled,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [previewText, setPreviewText] = useState(SPEECH_PREVIEW_TEXT);
+  const [previewAudioUrl, setPreviewAudioUrl] = useState<string | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const speechProvider = providerSettings.speechProvider;
+  const currentVoice = speechProvider === 'gemini'
+    ? providerSettings.gemini.voice
+    : speechProvider === 'openai-compatible' ? providerSettings.openAiCompatible.voice : null;
+
+  const updateVoice = (voice: string) => {
+    if (speechProvider === 'gemini') {
+      onProviderSettingsChange({ ...providerSettings, gemini: { ...providerSettings.gemini, voice } });
+    } else if (speechProvider === 'openai-compatible') {
+      onProviderSettingsChange({ ...providerSettings, openAiCompatible: { ...providerSettings.openAiCompatible, voice } });
+    }
+    setPreviewAudioUrl(null);
+  };
+
+  const updateLexiconEntry = (id: string, changes: Partial<PronunciationEntry>) => {
+    onChange({ ...settings, lexicon: settings.lexicon.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)) });
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewLoading(true);
+    setPreviewError(null);
+    setPreviewAudioUrl(null);
+    try {
+      setPreviewAudioUrl(await previewSpeech(providerSettings, settings, previewText));
+    } catch (error) {
+      setPreviewError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg shadow-sm bg-white">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center p-4 text-left"
+        aria-expanded={isOpen}
+        aria-controls="speech-settings-content"
+      >
+        <span className="text-lg font-medium text-gray-800">Configurações de Voz</span>
+        <span className="text-sm text-gray-500">
+          {currentVoice ? `${currentVoice} · ` : ''}{SPEAKING_RATES[settings.rate].label} · {settings.lexicon.length} termo(s) {isOpen ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div id="speech-settings-content" className="p-4 pt-0 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Voz
+              {speechProvider === 'gemini' && (
+                <select className={inputClassName} value={currentVoice ?? ''} onChange={(e) => updateVoice(e.target.value)} disabled={disabled}>
+                  {!GEMINI_VOICES.some(voice => voice.id === currentVoice) && currentVoice && <option value={currentVoice}>{currentVoice}</option>}
+                  {GEMINI_VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.id} — {voice.description}</option>)}
+                </select>
+              )}
+              {speechProvider === 'openai-compatible' && (
+                <>
+                  <input className={inputClassName} list="openai-voices" value={currentVoice ?? ''} onChange={(e) => updateVoice(e.target.value)} disabled={disabled} />
+                  <datalist id="openai-voices">
+                    {OPENAI_VOICES.map(voice => <option key={voice.id} value={voice.id} />)}
+                  </datalist>
+                </>
+              )}
+              {speechProvider === 'mock' && (
+                <span className="mt-1 block text-xs text-gray-500 font-normal">O provedor simulado gera apenas bipes; a voz não se aplica.</span>
+              )}
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Ritmo de leitura
+              <select
+                className={inputClassName}
+                value={settings.rate}
+                onChange={(e) => onChange({ ...settings, rate: e.target.value as SpeakingRate })}
+                disabled={disabled}
+              >
+                {SPEAKING_RATE_IDS.map(rate => <option key={rate} value={rate}>{SPEAKING_RATES[rate].label}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700 md:col-span-2">
+              Estilo de leitura
+              <input
+                className={inputClassName}
+                value={settings.style}
+                onChange={(e) => onChange({ ...settings, style: e.target.value })}
+                placeholder="ex: Leia em tom calmo e profissional"
+                maxLength={500}
+                disabled={disabled}
+              />
+              <span className="text-xs text-gray-500 font-normal">Enviado ao modelo de voz como instrução (Gemini e modelos gpt-4o-*-tts).</span>
+            </label>
+          </div>
+
+          <fieldset className="border-t border-gray-200 pt-3 space-y-2">
+            <legend className="text-sm font-semibold text-gray-800">Léxico de pronúncia</legend>
+            <p className="text-xs text-gray-500">
+              Antes da síntese, cada termo é substituído pela forma falada. Maiúsculas e minúsculas são diferenciadas.
+            </p>
+            <div className="max-h-60 overflow-y-auto pr-1 space-y-1">
+              {settings.lexicon.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2">
+                  <input
+                    className={`${lexiconInputClassName} w-28 flex-shrink-0`}
+                    value={entry.term}
+                    onChange={(e) => updateLexiconEntry(entry.id, { term: e.target.value })}
+                    placeholder="Termo"
+                    aria-label="Termo"
+                    disabled={disabled}
+                  />
+                  <span className="text-gray-400 text-sm">→</span>
+                  <input
+                    className={lexiconInputClassName}
+                    value={entry.spoken}
+                    onChange={(e) => updateLexiconEntry(entry.id, { spoken: e.target.value })}
+                    placeholder="Como deve ser lido"
+                    aria-label={`Leitura de ${entry.term || 'termo'}`}
+                    disabled={disabled}
+                  />
+                  <button
+                    onClick={() => onChange({ ...settings, lexicon: settings.lexicon.filter(item => item.id !== entry.id) })}
+                    disabled={disabled}
+                    className="text-red-500 hover:text-red-700 text-xs disabled:opacity-50 flex-shrink-0 p-1"
+                    aria-label={`Remover termo ${entry.term}`}
+                  >
+                    Remover
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={() => onChange({ ...settings, lexicon: [...settings.lexicon, { id: crypto.randomUUID(), term: '', spoken: '' }] })}
+                disabled={disabled}
+                className="text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+              >
+                + Adicionar termo
+              </button>
+              <button
+                onClick={() => onChange({ ...settings, lexicon: DEFAULT_PRONUNCIATION_LEXICON })}
+                disabled={disabled}
+                className="text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+              >
+                Restaurar léxico padrão
+              </button>
+            </div>
+          </fieldset>
+
+          <div className="border-t border-gray-200 pt-3 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Texto de prévia
+              <input className={inputClassName} value={previewText} onChange={(e) => setPreviewText(e.target.value)} disabled={disabled} />
+            </label>
+            <p className="text-xs text-gray-500">
+              <span className="font-medium">Será lido como:</span> {applyPronunciationLexicon(previewText, settings.lexicon)}
+            </p>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handlePreview}
+                disabled={disabled || isPreviewLoading || !previewText.trim()}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400"
+              >
+                {isPreviewLoading ? 'Gerando prévia...' : 'Ouvir prévia'}
+              </button>
+              {previewAudioUrl && (
+                <audio controls autoPlay src={previewAudioUrl} className="flex-1" aria-label="Prévia da voz" />
+              )}
+            </div>
+            {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+          </div>
+
+          <button
+            onClick={() => onChange(DEFAULT_SPEECH_SETTINGS)}
+            disabled={disabled}
+            className="text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+          >
+            Restaurar padrões
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { ReportTemplate } from '../types';
+import { DEFAULT_REPORT_TEMPLATES } from '../services/reportTemplates';
+import { mergeReportTemplates, parseReportTemplatesJson, serializeReportTemplates } from '../services/templateStore';
+
+interface TemplateManagerModalProps {
+  templates: ReportTemplate[];
+  initialTemplateId: string | null;
+  onChange: (templates: ReportTemplate[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm text-black";
+const secondaryButtonClassName = "py-1 px-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40";
+
+const createEmptyTemplate = (): ReportTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'Novo modelo',
+  examType: '',
+  defaultPrompt: '',
+  sectionHeadings: [],
+  normalFindings: '',
+  instructions: '',
+});
+
+const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ templates, initialTemplateId, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(initialTemplateId ?? templates[0]?.id ?? null);
+  const [message, setMessage] = useState<{ kind: 'error' | 'info'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = templates.find(t => t.id === editingId) ?? null;
+
+  const updateEditing = (changes: Partial<ReportTemplate>) => {
+    if (!editing) return;
+    onChange(templates.map(t => (t.id === editing.id ? { ...t, ...changes } : t)));
+  };
+
+  const handleAdd = () => {
+    const template = createEmptyTemplate();
+    onChange([...templates, template]);
+    setEditingId(template.id);
+  };
+
+  const handleDuplicate = () => {
+    if (!editing) return;
+    const copy = { ...editing, id: crypto.randomUUID(), name: `${editing.name} (cópia)` };
+    onChange([...templates, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!editing || !window.confirm(`Excluir o modelo "${editing.name}"?`)) return;
+    const remaining = templates.filter(t => t.id !== editing.id);
+    onChange(remaining);
+    setEditingId(remaining[0]?.id ?? null);
+  };
+
+  const handleRestoreDefaults = () => {
+    if (!window.confirm("Restaurar os modelos padrão? Modelos padrão editados voltarão ao texto original; seus modelos próprios são mantidos.")) return;
+    onChange(mergeReportTemplates(templates, DEFAULT_REPORT_TEMPLATES));
+    setMessage({ kind: 'info', text: 'Modelos padrão restaurados.' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeReportTemplates(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'modelos-de-laudo.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Permite importar o mesmo arquivo novamente
+    if (!file) return;
+    try {
+      const imported = parseReportTemplatesJson(await file.text());
+      onChange(mergeReportTemplates(templates, imported));
+      setEditingId(imported[0].id);
+      setMessage({ kind: 'info', text: `${imported.length} modelo(s) importado(s) de "${file.name}".` });
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="template-manager-title"
+    >
+      <div
+        className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h2 id="template-manager-title" className="text-lg font-semibold text-gray-800">Modelos de Laudo</h2>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => importInputRef.current?.click()} className={secondaryButtonClassName}>Importar JSON</button>
+            <button onClick={handleExport} disabled={templates.length === 0} className={secondaryButtonClassName}>Exportar JSON</button>
+            <button onClick={handleRestoreDefaults} className={secondaryButtonClassName}>Restaurar padrões</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        {message && (
+          <p className={`mb-3 text-sm rounded-md p-2 ${message.kind === 'error' ? 'text-red-700 bg-red-50 border border-red-200' : 'text-green-700 bg-green-50 border border-green-200'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-4 min-h-0 flex-grow">
+          <div className="md:w-64 flex-shrink-0 flex flex-col">
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 overflow-y-auto flex-grow">
+              {templates.map(t => (
+                <li key={t.id}>
+                  <button
+                    onClick={() => setEditingId(t.id)}
+                    className={`w-full text-left px-3 py-2 text-sm ${t.id === editingId ? 'bg-indigo-50 text-indigo-800 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {t.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button onClick={handleAdd} className="mt-2 py-2 px-3 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700">
+              Novo modelo
+            </button>
+          </div>
+
+          {editing ? (
+            <div className="flex-grow overflow-y-auto space-y-3 pr-1">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Nome
+                  <input className={inputClassName} value={editing.name} onChange={(e) => updateEditing({ name: e.target.value })} />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Tipo de exame
+                  <input className={inputClassName} value={editing.examType} onChange={(e) => updateEditing({ examType: e.target.value })} placeholder="ex: Tomografia de abdome e pelve" />
+                </label>
+              </div>
+              <label className="block text-sm font-medium text-gray-700">
+                Prompt sugerido
+                <input className={inputClassName} value={editing.defaultPrompt} onChange={(e) => updateEditing({ defaultPrompt: e.target.value })} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Seções próprias (uma por linha)
+                <textarea
+                  rows={3}
+                  className={inputClassName}
+                  value={editing.sectionHeadings.join('\n')}
+                  onChange={(e) => updateEditing({ sectionHeadings: e.target.value.split('\n') })}
+                  onBlur={() => updateEditing({ sectionHeadings: editing.sectionHeadings.map(h => h.trim()).filter(Boolean) })}
+                  placeholder="ex: Categoria BI-RADS"
+                />
+                <span className="text-xs text-gray-500">Incluídas após a impressão diagnóstica, além das seções fixas do laudo.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Texto padrão de normalidade
+                <textarea rows={5} className={inputClassName} value={editing.normalFindings} onChange={(e) => updateEditing({ normalFindings: e.target.value })} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Instruções ao modelo
+                <textarea rows={4} className={inputClassName} value={editing.instructions} onChange={(e) => updateEditing({ instructions: e.target.value })} />
+              </label>
+              <div className="flex gap-2">
+                <button onClick={handleDuplicate} className={secondaryButtonClassName}>Duplicar</button>
+                <button onClick={handleDelete} className="py-1 px-3 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50">Excluir</button>
+              </div>
+            </div>
+          ) : (
+            <p className="flex-grow text-sm text-gray-500 text-center self-center">Nenhum modelo. Crie um novo ou importe um arquivo JSON.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700">
+            Concluir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManagerModal;
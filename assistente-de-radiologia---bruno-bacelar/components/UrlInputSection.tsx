@@ -1,11 +1,13 @@
-import React from 'react';
-import { UrlImageEntry } from '../types';
+import React, { useState } from 'react';
+import { ImageAnnotation, UrlImageEntry } from '../types';
+import ImageAnnotationFields from './ImageAnnotationFields';
 
 interface UrlInputSectionProps {
   urlEntries: UrlImageEntry[];
   onAddUrlEntry: () => void;
   onRemoveUrlEntry: (id: string) => void;
   onUpdateUrlEntryValue: (id: string, value: string) => void;
+  onUpdateUrlEntryAnnotation: (id: string, annotation: ImageAnnotation) => void;
   disabled: boolean;
   maxOverallImages: number;
   numCurrentFileImages: number;
@@ -16,10 +18,12 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({
   onAddUrlEntry,
   onRemoveUrlEntry,
   onUpdateUrlEntryValue,
+  onUpdateUrlEntryAnnotation,
   disabled,
   maxOverallImages,
   numCurrentFileImages,
 }) => {
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
 
   const numFilledUrlEntries = urlEntries.filter(entry => entry.value.trim() !== '').length;
   const totalImagesSoFar = numCurrentFileImages + numFilledUrlEntries;
@@ -36,28 +40,49 @@ const UrlInputSection: React.FC<UrlInputSectionProps> = ({
   return (
     <div className="space-y-4 p-4 border border-gray-300 rounded-lg shadow-sm bg-white h-full flex flex-col">
       <h3 className="text-lg font-medium text-gray-800 mb-1">Adicionar Imagens (URLs)</h3>
+      <p className="text-xs text-gray-500 mb-1">
+        As imagens são baixadas pelo servidor da aplicação (PNG, JPG, WEBP ou GIF, máx 10MB). Endereços de rede interna só funcionam se liberados pelo administrador.
+      </p>
       <div className="space-y-2 flex-grow overflow-y-auto pr-1 max-h-60">
         {urlEntries.map((entry, index) => (
-          <div key={entry.id} className="flex items-center space-x-2">
-            <input
-              type="url"
-              value={entry.value}
-              onChange={(e) => onUpdateUrlEntryValue(entry.id, e.target.value)}
-              placeholder="https://exemplo.com/imagem.jpg"
-              className="flex-grow mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50"
-              disabled={disabled}
-              aria-label={`URL da Imagem ${index + 1}`}
-            />
-            <button 
-              onClick={() => onRemoveUrlEntry(entry.id)}
-              disabled={disabled}
-              className="p-2 text-red-500 hover:text-red-700 disabled:opacity-50 flex-shrink-0"
-              aria-label={`Remover URL ${index + 1}`}
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-              </svg>
-            </button>
+          <div key={entry.id}>
+            <div className="flex items-center space-x-2">
+              <input
+                type="url"
+                value={entry.value}
+                onChange={(e) => onUpdateUrlEntryValue(entry.id, e.target.value)}
+                placeholder="https://exemplo.com/imagem.jpg"
+                className="flex-grow mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50"
+                disabled={disabled}
+                aria-label={`URL da Imagem ${index + 1}`}
+              />
+              <button
+                onClick={() => setExpandedEntryId(prev => (prev === entry.id ? null : entry.id))}
+                className="text-xs text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+                aria-expanded={expandedEntryId === entry.id}
+                title="Incidência, série, fase e observações enviadas ao modelo junto com a imagem"
+              >
+                Detalhes
+              </button>
+              <button 
+                onClick={() => onRemoveUrlEntry(entry.id)}
+                disabled={disabled}
+                className="p-2 text-red-500 hover:text-red-700 disabled:opacity-50 flex-shrink-0"
+                aria-label={`Remover URL ${index + 1}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+            {expandedEntryId === entry.id && (
+              <ImageAnnotationFields
+                idPrefix={`url-${entry.id}`}
+                annotation={entry.annotation}
+                onChange={(annotation) => onUpdateUrlEntryAnnotation(entry.id, annotation)}
+                disabled={disabled}
+              />
+            )}
           </div>
         ))}
         {urlEntries.length === 0 && !addButtonDisabled && (
@@ -0,0 +1,18 @@
+// Identidade visual e textos institucionais compartilhados entre a interface e os documentos exportados.
+
+export const CLINIC_NAME = "RAIner";
+export const CLINIC_SUBTITLE = "Assistente de Radiologia";
+
+// Substitua o placeholder por uma data URL PNG do logotipo. Enquanto for o placeholder,
+// o logotipo é omitido do cabeçalho da aplicação e do timbre do PDF.
+export const rainerLogoBase64 = "data:image/png;base64,PLACEHOLDER_FOR_RAINER_LOGO_BASE64_STRING";
+export const hasRainerLogo = rainerLogoBase64 !== "data:image/png;base64,PLACEHOLDER_FOR_RAINER_LOGO_BASE64_STRING";
+
+export const LEGAL_DISCLAIMER_TITLE = "Aviso Legal";
+export const LEGAL_DISCLAIMER = [
+  "Este aplicativo é apenas para fins de demonstração e ilustração.",
+  "As informações geradas não se destinam a diagnosticar, tratar, curar ou prevenir qualquer doença ou condição,",
+  "e não devem ser usadas como substituto de aconselhamento médico profissional.",
+  "Sempre consulte um profissional de saúde qualificado para quaisquer preocupações de saúde ou antes de tomar qualquer decisão relacionada à sua saúde ou tratamento.",
+  "A interpretação das imagens pela IA pode não ser precisa ou completa.",
+].join(" ");
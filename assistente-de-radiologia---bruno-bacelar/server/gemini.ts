@@ -0,0 +1,224 @@
+import { GoogleGenAI, GenerateContentResponse, Part, HarmCategory, HarmBlockThreshold, GenerateContentConfig } from "@google/genai";
+import { CriticalFinding, ReportChatReply, ReportChatRequest, ReportRequest, ReportStreamEvent, StructuredReport, SynthesizedAudio } from '../types';
+import { STRUCTURED_REPORT_SCHEMA } from '../services/structuredReport';
+import { buildReportPrompt, collectLabeledImages, completeReport } from '../services/reportPrompt';
+import { REPORT_CHAT_SCHEMA, buildChatInstruction, parseChatReply, trimChatHistory } from '../services/reportChat';
+import { CRITICAL_FINDINGS_SCHEMA, buildCriticalFindingsInstruction, parseCriticalFindings } from '../services/criticalFindings';
+
+// Chamadas ao Gemini feitas pelo servidor: a chave fica apenas aqui e nunca é enviada ao navegador.
+
+let ai: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY não configurada no servidor.");
+    }
+    ai = new GoogleGenAI({ apiKey });
+  }
+  return ai;
+}
+
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+function buildReportCall(model: string, request: ReportRequest) {
+  const prepared = buildReportPrompt(request);
+  const textPart: Part = { text: prepared.instruction };
+  // Texto de identificação intercalado antes de cada imagem.
+  const imageParts: Part[] = collectLabeledImages(request).flatMap(({ caption, image }) => [
+    { text: caption },
+    { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+  ]);
+  const generationConfig: GenerateContentConfig = {
+    temperature: 0.2,
+    maxOutputTokens: 4096, // Aumentado para acomodar laudos de múltiplas imagens
+    safetySettings: safetySettings,
+    responseMimeType: 'application/json',
+    responseSchema: STRUCTURED_REPORT_SCHEMA,
+  };
+  return {
+    prepared,
+    params: {
+      model,
+      contents: [{ parts: [textPart, ...imageParts] }],
+      config: generationConfig,
+    },
+  };
+}
+
+export async function generateReport(model: string, request: ReportRequest): Promise<StructuredReport> {
+  const { prepared, params } = buildReportCall(model, request);
+  let rawResponse: string | undefined;
+  try {
+    const result: GenerateContentResponse = await getClient().models.generateContent(params);
+    rawResponse = result.text;
+  } catch (error) {
+    console.error("Erro ao gerar laudo a partir da imagem:", error);
+    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return completeReport(rawResponse, prepared);
+}
+
+export async function* streamReport(model: string, request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+  const { prepared, params } = buildReportCall(model, request);
+  let rawResponse = '';
+  try {
+    const stream = await getClient().models.generateContentStream({
+      ...params,
+      config: { ...params.config, abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      const text = chunk.text;
+      if (text) {
+        rawResponse += text;
+        yield { type: 'chunk', text };
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.error("Erro ao gerar laudo a partir da imagem:", error);
+    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  yield { type: 'done', report: completeReport(rawResponse, prepared) };
+}
+
+// Conversa de acompanhamento: as imagens vão junto da primeira mensagem do usuário e o laudo atual, na instrução de sistema.
+export async function chatAboutReport(model: string, request: ReportChatRequest): Promise<ReportChatReply> {
+  const imageParts: Part[] = request.images.flatMap((image, index) => [
+    { text: `Imagem ${index + 1}` },
+    { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+  ]);
+  const contents = trimChatHistory(request.messages).map((message, index) => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: index === 0 ? [...imageParts, { text: message.text }] : [{ text: message.text }],
+  }));
+  let rawResponse: string | undefined;
+  try {
+    const result: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents,
+      config: {
+        systemInstruction: buildChatInstruction(request),
+        temperature: 0.2,
+        maxOutputTokens: 4096,
+        safetySettings,
+        responseMimeType: 'application/json',
+        responseSchema: REPORT_CHAT_SCHEMA,
+      },
+    });
+    rawResponse = result.text;
+  } catch (error) {
+    console.error("Erro ao conversar sobre o laudo:", error);
+    throw new Error(`Falha ao responder à pergunta: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return parseChatReply(rawResponse, request.reportText);
+  } catch (error) {
+    console.error("Resposta do chat inválida:", { rawResponse, error });
+    throw new Error(`Falha ao responder à pergunta: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Segunda leitura só do texto do laudo, com temperatura zero para que o mesmo laudo dê o mesmo alerta.
+export async function classifyCriticalFindings(model: string, reportText: string): Promise<CriticalFinding[]> {
+  let rawResponse: string | undefined;
+  try {
+    const result: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents: [{ role: 'user', parts: [{ text: reportText }] }],
+      config: {
+        systemInstruction: buildCriticalFindingsInstruction(),
+        temperature: 0,
+        maxOutputTokens: 1024,
+        safetySettings,
+        responseMimeType: 'application/json',
+        responseSchema: CRITICAL_FINDINGS_SCHEMA,
+      },
+    });
+    rawResponse = result.text;
+  } catch (error) {
+    console.error("Erro ao classificar achados críticos:", error);
+    throw new Error(`Falha ao classificar achados críticos: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return parseCriticalFindings(rawResponse);
+  } catch (error) {
+    console.error("Classificação de achados críticos inválida:", { rawResponse, error });
+    throw new Error(`Falha ao classificar achados críticos: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// `style` é uma instrução de leitura em linguagem natural (o Gemini TTS não tem parâmetro de velocidade).
+export async function synthesizeSpeech(model: string, textToSynthesize: string, voice: string, style: string): Promise<SynthesizedAudio> {
+  const ttsConfig: GenerateContentConfig = {
+    responseModalities: ["AUDIO"],
+    speechConfig: {
+      voiceConfig: {
+        prebuiltVoiceConfig: {
+          voiceName: voice,
+        },
+      },
+    },
+    safetySettings: safetySettings,
+  };
+
+  try {
+    const result: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents: style ? `${style}:\n${textToSynthesize}` : textToSynthesize,
+      config: ttsConfig,
+    });
+
+    const inlineData = result.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    if (inlineData?.data) {
+      if (inlineData.data.trim() === "") {
+        console.error("A resposta TTS continha dados de áudio vazios.", { result });
+        throw new Error("Falha ao gerar fala: Recebidos dados de áudio vazios do serviço.");
+      }
+      return { base64: inlineData.data, mimeType: inlineData.mimeType || 'audio/wav' };
+    }
+
+    const textFallback = result.text;
+    if (textFallback) {
+      console.warn("Dados de áudio TTS não encontrados. O modelo pode ter retornado texto em vez disso. A configuração TTS pode não ser suportada ou o nome da voz é inválido.", { textFallback, result });
+      throw new Error(`Falha ao gerar fala: Dados de áudio não encontrados. O modelo retornou o texto: "${textFallback.substring(0, 100)}..." Isso pode indicar um problema com a configuração TTS ou a validade do nome da voz para o modelo selecionado.`);
+    }
+    console.error("A resposta TTS não continha dados de áudio nem texto alternativo:", result);
+    throw new Error("Falha ao gerar fala: Sem dados de áudio na resposta e sem texto alternativo. Verifique as capacidades do modelo e a configuração TTS.");
+  } catch (error) {
+    console.error("Erro ao gerar fala:", error);
+    throw new Error(`Falha ao gerar fala: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const TRANSCRIPTION_INSTRUCTION = [
+  "Transcreva literalmente o áudio a seguir, ditado em português do Brasil por um radiologista.",
+  "Mantenha termos médicos, números, medidas e abreviações como foram falados.",
+  'Transcreva comandos de ditado (como "novo parágrafo", "nova linha", "próximo campo", "apagar última frase") exatamente como falados, sem executá-los.',
+  "Responda apenas com a transcrição, sem comentários. Se não houver fala, responda com uma string vazia.",
+].join(' ');
+
+export async function transcribeAudio(model: string, audio: SynthesizedAudio): Promise<string> {
+  try {
+    const result: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents: [{
+        parts: [
+          { text: TRANSCRIPTION_INSTRUCTION },
+          { inlineData: { mimeType: audio.mimeType, data: audio.base64 } },
+        ],
+      }],
+      config: { temperature: 0, safetySettings },
+    });
+    return (result.text ?? '').trim();
+  } catch (error) {
+    console.error("Erro ao transcrever ditado:", error);
+    throw new Error(`Falha ao transcrever ditado: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,245 @@
+import http, { IncomingMessage } from 'node:http';
+import https from 'node:https';
+import dns, { LookupAddress } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+
+// Download de imagens por URL em nome do navegador (que esbarraria em CORS).
+// Como o servidor passa a fazer requisições para endereços escolhidos pelo usuário, ele se protege contra SSRF:
+// destinos em faixas privadas/reservadas são bloqueados (inclusive após redirecionamentos e na resolução DNS
+// usada pela própria conexão, o que impede DNS rebinding), exceto quando liberados em IMAGE_FETCH_ALLOWED_HOSTS.
+
+export const MAX_FETCHED_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGE_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 15000;
+
+export class ImageFetchError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ImageFetchError';
+  }
+}
+
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'], // CGNAT
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], // Link-local, inclui metadados de nuvem (169.254.169.254)
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'], // Multicast
+  ['240.0.0.0', 4, 'ipv4'], // Reservado e broadcast
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'], // NAT64
+  ['100::', 64, 'ipv6'],
+  ['2001::', 32, 'ipv6'], // Teredo: o IPv4 de destino vai embutido no endereço
+  ['2002::', 16, 'ipv6'], // 6to4: idem
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'], // Endereços locais únicos
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['ff00::', 8, 'ipv6'], // Multicast
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) {
+  blockedAddresses.addSubnet(network, prefix, family);
+}
+
+// IMAGE_FETCH_ALLOWED_HOSTS: nomes de host exatos e/ou faixas CIDR (ex.: "pacs.hospital.local,10.20.0.0/16")
+// liberados mesmo estando em rede privada — típico de servidores PACS/WADO internos.
+const allowedHostnames = new Set<string>();
+const allowedAddresses = new BlockList();
+for (const entry of (process.env.IMAGE_FETCH_ALLOWED_HOSTS ?? '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean)) {
+  const [network, prefix] = entry.split('/');
+  const family = isIP(network);
+  if (family) {
+    const type = family === 4 ? 'ipv4' : 'ipv6';
+    allowedAddresses.addSubnet(network, prefix ? Number(prefix) : (family === 4 ? 32 : 128), type);
+  } else {
+    allowedHostnames.add(entry);
+  }
+}
+
+// Expande um IPv6 válido para seus 8 grupos de 16 bits, aceitando um IPv4 pontuado no final.
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0].toLowerCase();
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  if (!text.includes('::')) return parse(text);
+  const [head, tail] = text.split('::');
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...new Array<number>(8 - left.length - right.length).fill(0), ...right];
+}
+
+// Endereços IPv6 com um IPv4 embutido são verificados como IPv4, em qualquer grafia: mapeado (::ffff:10.0.0.1
+// ou ::ffff:a00:1), traduzido SIIT (::ffff:0:7f00:1) e compatível, obsoleto (::127.0.0.1). "::" e "::1" viram
+// 0.0.0.0 e 0.0.0.1, que continuam bloqueados.
+function normalizeAddress(address: string): { address: string; type: 'ipv4' | 'ipv6' } {
+  if (isIP(address) !== 6) return { address, type: 'ipv4' };
+  const groups = ipv6Groups(address);
+  const [g4, g5, high, low] = groups.slice(4);
+  const embedsIpv4 = groups.slice(0, 4).every(group => group === 0)
+    && ((g4 === 0 && (g5 === 0xffff || g5 === 0)) || (g4 === 0xffff && g5 === 0));
+  if (embedsIpv4) {
+    return { address: [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'), type: 'ipv4' };
+  }
+  return { address, type: 'ipv6' };
+}
+
+export function isAddressAllowed(rawAddress: string): boolean {
+  const { address, type } = normalizeAddress(rawAddress);
+  if (allowedAddresses.check(address, type)) return true;
+  return !blockedAddresses.check(address, type);
+}
+
+function blockedAddressError(hostname: string): ImageFetchError {
+  return new ImageFetchError(`O endereço de "${hostname}" pertence a uma rede privada ou reservada e não é permitido.`, 403);
+}
+
+// Substitui a resolução DNS da conexão: valida exatamente os endereços aos quais o socket vai se conectar.
+function createSafeLookup(hostname: string) {
+  const trusted = allowedHostnames.has(hostname.toLowerCase());
+  return (
+    host: string,
+    options: dns.LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+  ) => {
+    dns.lookup(host, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, []);
+      if (!trusted && addresses.some(entry => !isAddressAllowed(entry.address))) {
+        return callback(blockedAddressError(host), []);
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function validateUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ImageFetchError("URL de imagem inválida.", 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageFetchError("Apenas URLs http e https são permitidas.", 400);
+  }
+  if (url.username || url.password) {
+    throw new ImageFetchError("URLs com credenciais embutidas não são permitidas.", 400);
+  }
+  // IPs literais não passam pela resolução DNS, então são verificados aqui.
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && !isAddressAllowed(hostname)) {
+    throw blockedAddressError(hostname);
+  }
+  return url;
+}
+
+function requestOnce(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: createSafeLookup(url.hostname),
+      headers: { Accept: 'image/*', 'User-Agent': 'RAIner-ImageFetcher/1.0' },
+      signal,
+    }, resolve);
+    request.on('error', reject);
+  });
+}
+
+async function readLimitedBody(response: IncomingMessage): Promise<Buffer> {
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength > MAX_FETCHED_IMAGE_BYTES) {
+    response.destroy();
+    throw new ImageFetchError(`A imagem excede o limite de ${MAX_FETCHED_IMAGE_BYTES / (1024 * 1024)}MB.`, 413);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_FETCHED_IMAGE_BYTES) {
+      response.destroy();
+      throw new ImageFetchError(`A imagem excede o limite de ${MAX_FETCHED_IMAGE_BYTES / (1024 * 1024)}MB.`, 413);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+const startsWith = (bytes: Buffer, signature: number[], offset = 0) =>
+  signature.every((value, index) => bytes[offset + index] === value);
+
+// Identifica o formato pelos bytes iniciais; o Content-Type informado pelo servidor remoto não é confiável.
+// HEIC/HEIF são reconhecidos só para que a recusa tenha uma mensagem clara.
+export function sniffImageMimeType(bytes: Buffer): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (bytes.subarray(0, 6).toString('ascii') === 'GIF87a' || bytes.subarray(0, 6).toString('ascii') === 'GIF89a') return 'image/gif';
+  if (bytes.subarray(0, 4).toString('ascii') === 'RIFF' && bytes.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+  if (bytes.subarray(4, 8).toString('ascii') === 'ftyp') {
+    const brand = bytes.subarray(8, 12).toString('ascii');
+    if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) return 'image/heic';
+    if (['mif1', 'msf1', 'heif'].includes(brand)) return 'image/heif';
+  }
+  return null;
+}
+
+export async function fetchRemoteImage(rawUrl: string): Promise<{ base64: string; mimeType: string }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = validateUrl(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    let response: IncomingMessage;
+    try {
+      response = await requestOnce(url, signal);
+    } catch (error) {
+      if (error instanceof ImageFetchError) throw error;
+      throw new ImageFetchError(`Falha ao buscar imagem: ${error instanceof Error ? error.message : String(error)}`, 502);
+    }
+
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_IMAGE_REDIRECTS) {
+        throw new ImageFetchError(`Redirecionamentos demais (máximo ${MAX_IMAGE_REDIRECTS}).`, 502);
+      }
+      // Cada destino de redirecionamento passa pelas mesmas verificações da URL original.
+      url = validateUrl(new URL(response.headers.location, url).toString());
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new ImageFetchError(`Falha ao buscar imagem: ${status} ${response.statusMessage ?? ''}`.trim(), 502);
+    }
+
+    let bytes: Buffer;
+    try {
+      bytes = await readLimitedBody(response);
+    } catch (error) {
+      if (error instanceof ImageFetchError) throw error;
+      throw new ImageFetchError(`Falha ao buscar imagem: ${error instanceof Error ? error.message : String(error)}`, 502);
+    }
+    const mimeType = sniffImageMimeType(bytes);
+    // O navegador não decodifica HEIC/HEIF: aceitá-los faria a ocultação de dados ou o pré-processamento falhar depois.
+    if (mimeType === 'image/heic' || mimeType === 'image/heif') {
+      throw new ImageFetchError("Imagens HEIC/HEIF não são suportadas pelo navegador. Converta para JPEG ou PNG e tente novamente.", 415);
+    }
+    if (!mimeType) {
+      const declared = (response.headers['content-type'] ?? '').split(';')[0].trim();
+      throw new ImageFetchError(`O conteúdo da URL não é uma imagem suportada (PNG, JPEG, GIF ou WEBP; recebido: ${declared || 'tipo desconhecido'}).`, 415);
+    }
+    return { base64: bytes.toString('base64'), mimeType };
+  }
+}
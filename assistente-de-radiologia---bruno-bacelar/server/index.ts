@@ -0,0 +1,327 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { CriticalFinding, ReportChatReply, ReportChatRequest, ReportRequest, ReportStreamEvent, StructuredReport, SynthesizedAudio } from '../types';
+import { MAX_IMAGES_PER_REPORT_LIMIT, validateReportRequest } from '../services/reportPrompt';
+import { validateChatRequest } from '../services/reportChat';
+import { validateCriticalFindingsRequest } from '../services/criticalFindings';
+import * as gemini from './gemini';
+import * as openAiCompatible from './openAiCompatible';
+import { fetchRemoteImage, ImageFetchError } from './imageFetch';
+import { createRateLimiter, RateLimiter } from './rateLimiter';
+
+// Servidor proxy da aplicação: guarda a GEMINI_API_KEY e a URL e chave do provedor compatível com OpenAI, e expõe ao navegador apenas
+// os endpoints de laudo, conversa sobre o laudo, achados críticos, fala, transcrição de ditado e download de imagem, com limite de requisições por usuário.
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+// Limite do corpo por endpoint: só o laudo e a conversa, que reenvia as imagens, recebem imagens.
+const MAX_IMAGES_BODY_BYTES = 150 * 1024 * 1024; // Até 100 imagens + 4 anteriores em base64, já reduzidas no navegador
+const MAX_AUDIO_BODY_BYTES = 25 * 1024 * 1024; // Ditado em base64
+const MAX_TEXT_BODY_BYTES = 1024 * 1024; // Fala e achados críticos: só texto
+const MAX_SPEECH_TEXT_LENGTH = 20000; // O áudio é sintetizado por seção do laudo
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_SPEECH_STYLE_LENGTH = 500;
+const MIN_SPEECH_SPEED = 0.25;
+const MAX_SPEECH_SPEED = 4;
+
+const envNumber = (name: string, fallback: number) => Number(process.env[name]) || fallback;
+
+const limiters: Record<'report' | 'speech' | 'transcription' | 'image', RateLimiter> = {
+  report: createRateLimiter(envNumber('RATE_LIMIT_REPORTS_PER_MINUTE', 10), RATE_LIMIT_WINDOW_MS),
+  speech: createRateLimiter(envNumber('RATE_LIMIT_SPEECH_PER_MINUTE', 20), RATE_LIMIT_WINDOW_MS),
+  transcription: createRateLimiter(envNumber('RATE_LIMIT_TRANSCRIPTIONS_PER_MINUTE', 30), RATE_LIMIT_WINDOW_MS),
+  image: createRateLimiter(envNumber('RATE_LIMIT_IMAGES_PER_MINUTE', 30), RATE_LIMIT_WINDOW_MS),
+};
+
+// Modelos que o navegador pode solicitar, lidos de uma lista separada por vírgulas no ambiente.
+const allowedModelsFrom = (name: string) => (process.env[name] ?? '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Funções comuns aos módulos de cada provedor; os dois atendem os mesmos endpoints, com e sem o prefixo /api/openai-compatible.
+interface ModelBackend {
+  generateReport(model: string, request: ReportRequest): Promise<StructuredReport>;
+  streamReport(model: string, request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent>;
+  chatAboutReport(model: string, request: ReportChatRequest): Promise<ReportChatReply>;
+  classifyCriticalFindings(model: string, reportText: string): Promise<CriticalFinding[]>;
+  synthesizeSpeech(model: string, text: string, voice: string, style: string, speed?: number): Promise<SynthesizedAudio>;
+  transcribeAudio(model: string, audio: SynthesizedAudio): Promise<string>;
+  isModelAllowed(model: string): boolean;
+}
+
+// Sem GEMINI_ALLOWED_MODELS, qualquer modelo "gemini-*" é aceito.
+const geminiAllowedModels = allowedModelsFrom('GEMINI_ALLOWED_MODELS');
+// Sem OPENAI_COMPATIBLE_ALLOWED_MODELS, aceita qualquer nome de modelo bem formado (ex: gpt-4o-mini, llava:13b, org/modelo).
+const openAiCompatibleAllowedModels = allowedModelsFrom('OPENAI_COMPATIBLE_ALLOWED_MODELS');
+
+const backends: Record<'gemini' | 'openAiCompatible', ModelBackend> = {
+  gemini: {
+    ...gemini,
+    isModelAllowed: model => geminiAllowedModels.length > 0 ? geminiAllowedModels.includes(model) : /^gemini-[\w.-]+$/.test(model),
+  },
+  openAiCompatible: {
+    ...openAiCompatible,
+    isModelAllowed: model => openAiCompatibleAllowedModels.length > 0
+      ? openAiCompatibleAllowedModels.includes(model)
+      : /^[\w.:/-]{1,128}$/.test(model),
+  },
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Identifica o usuário para o limite de requisições. Atrás de um proxy de autenticação,
+// RATE_LIMIT_USER_HEADER aponta o cabeçalho com o usuário autenticado; caso contrário usa-se o IP.
+function identifyUser(req: IncomingMessage): string {
+  const userHeader = process.env.RATE_LIMIT_USER_HEADER?.toLowerCase();
+  if (userHeader) {
+    const user = req.headers[userHeader];
+    if (typeof user === 'string' && user) return `user:${user}`;
+  }
+  if (process.env.TRUST_PROXY === '1') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return `ip:${first}`;
+  }
+  return `ip:${req.socket.remoteAddress ?? 'desconhecido'}`;
+}
+
+function enforceRateLimit(limiter: RateLimiter, req: IncomingMessage, res: ServerResponse) {
+  const result = limiter.check(identifyUser(req));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+    throw new HttpError(429, `Limite de requisições atingido. Tente novamente em ${result.retryAfterSeconds}s.`);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, "Requisição muito grande.");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (!parsed || typeof parsed !== 'object') throw new Error();
+    return parsed;
+  } catch {
+    throw new HttpError(400, "Corpo da requisição não é um JSON válido.");
+  }
+}
+
+function requireModel(backend: ModelBackend, value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, "Modelo não informado.");
+  }
+  const model = value.trim();
+  if (!backend.isModelAllowed(model)) {
+    throw new HttpError(400, `Modelo não permitido: ${model}`);
+  }
+  return model;
+}
+
+function requireReportRequest(value: unknown): ReportRequest {
+  const request = value as ReportRequest | undefined;
+  if (!request || typeof request.prompt !== 'string' || !Array.isArray(request.images)) {
+    throw new HttpError(400, "Pedido de laudo inválido.");
+  }
+  try {
+    // O limite escolhido no navegador vale só lá; aqui vale o teto.
+    validateReportRequest(request, MAX_IMAGES_PER_REPORT_LIMIT);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  return request;
+}
+
+async function handleReport(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.report, req, res);
+  const body = await readJsonBody(req, MAX_IMAGES_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  const report = await backend.generateReport(model, requireReportRequest(body.request));
+  sendJson(res, 200, { report });
+}
+
+// Repassa o streaming como Server-Sent Events; se o navegador cancelar, a chamada ao modelo também é abortada.
+async function handleReportStream(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.report, req, res);
+  const body = await readJsonBody(req, MAX_IMAGES_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  const request = requireReportRequest(body.request);
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  try {
+    for await (const event of backend.streamReport(model, request, controller.signal)) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      res.write(`data: ${JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : String(error) })}\n\n`);
+    }
+  }
+  res.end();
+}
+
+function requireChatRequest(value: unknown): ReportChatRequest {
+  const request = value as ReportChatRequest | undefined;
+  if (!request || typeof request.reportText !== 'string' || !Array.isArray(request.images) || !Array.isArray(request.messages)
+    || request.messages.some(message => !message || (message.role !== 'user' && message.role !== 'assistant') || typeof message.text !== 'string')) {
+    throw new HttpError(400, "Pedido de conversa inválido.");
+  }
+  try {
+    validateChatRequest(request, MAX_IMAGES_PER_REPORT_LIMIT);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  return request;
+}
+
+// Usa o mesmo limite do laudo: cada pergunta reenvia as imagens ao modelo.
+async function handleReportChat(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.report, req, res);
+  const body = await readJsonBody(req, MAX_IMAGES_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  sendJson(res, 200, await backend.chatAboutReport(model, requireChatRequest(body.request)));
+}
+
+// Só texto, mas conta no limite do laudo: é uma chamada ao mesmo modelo a cada laudo gerado.
+async function handleCriticalFindings(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.report, req, res);
+  const body = await readJsonBody(req, MAX_TEXT_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  if (typeof body.reportText !== 'string') {
+    throw new HttpError(400, "Texto do laudo ausente.");
+  }
+  try {
+    validateCriticalFindingsRequest(body.reportText);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  sendJson(res, 200, { findings: await backend.classifyCriticalFindings(model, body.reportText) });
+}
+
+async function handleSpeech(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.speech, req, res);
+  const body = await readJsonBody(req, MAX_TEXT_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    throw new HttpError(400, "Não é possível gerar fala a partir de texto vazio.");
+  }
+  if (body.text.length > MAX_SPEECH_TEXT_LENGTH) {
+    throw new HttpError(400, `O texto para fala deve ter no máximo ${MAX_SPEECH_TEXT_LENGTH} caracteres.`);
+  }
+  if (typeof body.voice !== 'string' || !/^[\w-]{2,64}$/.test(body.voice)) {
+    throw new HttpError(400, "Voz inválida.");
+  }
+  const style = typeof body.style === 'string' ? body.style.trim() : '';
+  if (style.length > MAX_SPEECH_STYLE_LENGTH) {
+    throw new HttpError(400, `A instrução de estilo deve ter no máximo ${MAX_SPEECH_STYLE_LENGTH} caracteres.`);
+  }
+  // Só o provedor compatível com OpenAI usa a velocidade; o Gemini recebe o ritmo dentro do estilo.
+  const speed = body.speed ?? 1;
+  if (typeof speed !== 'number' || !(speed >= MIN_SPEECH_SPEED && speed <= MAX_SPEECH_SPEED)) {
+    throw new HttpError(400, `A velocidade da fala deve estar entre ${MIN_SPEECH_SPEED} e ${MAX_SPEECH_SPEED}.`);
+  }
+  sendJson(res, 200, await backend.synthesizeSpeech(model, body.text, body.voice, style, speed));
+}
+
+async function handleTranscribe(req: IncomingMessage, res: ServerResponse, backend: ModelBackend) {
+  enforceRateLimit(limiters.transcription, req, res);
+  const body = await readJsonBody(req, MAX_AUDIO_BODY_BYTES);
+  const model = requireModel(backend, body.model);
+  const audio = body.audio as { base64?: unknown; mimeType?: unknown } | undefined;
+  if (!audio || typeof audio.base64 !== 'string' || !audio.base64 || typeof audio.mimeType !== 'string' || !audio.mimeType.startsWith('audio/')) {
+    throw new HttpError(400, "Áudio do ditado inválido.");
+  }
+  sendJson(res, 200, { text: await backend.transcribeAudio(model, { base64: audio.base64, mimeType: audio.mimeType }) });
+}
+
+async function handleFetchImage(req: IncomingMessage, res: ServerResponse, url: URL) {
+  enforceRateLimit(limiters.image, req, res);
+  const imageUrl = url.searchParams.get('url');
+  if (!imageUrl) {
+    throw new HttpError(400, "Parâmetro 'url' ausente.");
+  }
+  try {
+    sendJson(res, 200, await fetchRemoteImage(imageUrl));
+  } catch (error) {
+    if (error instanceof ImageFetchError) throw new HttpError(error.status, error.message);
+    throw error;
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname}`;
+  try {
+    switch (route) {
+      case 'POST /api/report':
+        return await handleReport(req, res, backends.gemini);
+      case 'POST /api/report/stream':
+        return await handleReportStream(req, res, backends.gemini);
+      case 'POST /api/report/chat':
+        return await handleReportChat(req, res, backends.gemini);
+      case 'POST /api/report/critical-findings':
+        return await handleCriticalFindings(req, res, backends.gemini);
+      case 'POST /api/speech':
+        return await handleSpeech(req, res, backends.gemini);
+      case 'POST /api/transcribe':
+        return await handleTranscribe(req, res, backends.gemini);
+      case 'POST /api/openai-compatible/report':
+        return await handleReport(req, res, backends.openAiCompatible);
+      case 'POST /api/openai-compatible/report/stream':
+        return await handleReportStream(req, res, backends.openAiCompatible);
+      case 'POST /api/openai-compatible/report/chat':
+        return await handleReportChat(req, res, backends.openAiCompatible);
+      case 'POST /api/openai-compatible/report/critical-findings':
+        return await handleCriticalFindings(req, res, backends.openAiCompatible);
+      case 'POST /api/openai-compatible/speech':
+        return await handleSpeech(req, res, backends.openAiCompatible);
+      case 'POST /api/openai-compatible/transcribe':
+        return await handleTranscribe(req, res, backends.openAiCompatible);
+      case 'GET /api/fetch-image':
+        return await handleFetchImage(req, res, url);
+      default:
+        throw new HttpError(404, "Endpoint não encontrado.");
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 502;
+    if (status >= 500) console.error(`Erro em ${route}:`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn("GEMINI_API_KEY não definida: as chamadas ao Gemini falharão até que ela seja configurada.");
+  }
+  console.log(`Servidor da API ouvindo em http://localhost:${PORT}`);
+});
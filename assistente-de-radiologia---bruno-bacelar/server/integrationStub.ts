@@ -0,0 +1,112 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { validateOruR01 } from '../services/hl7Export';
+import { FhirBundle, validateFhirBundle } from '../services/fhirExport';
+
+// RIS/PEP de teste para as exportações: recebe a mensagem HL7 (POST /hl7) e o bundle FHIR (POST /fhir),
+// valida com as mesmas regras do navegador e responde como um destino real (ACK HL7 / transaction-response).
+// Não guarda nada; cada mensagem recebida é resumida no console.
+
+const PORT = Number(process.env.INTEGRATION_STUB_PORT) || 8788;
+const MAX_BODY_BYTES = 80 * 1024 * 1024;
+
+// O navegador envia direto ao destino, então o stub precisa liberar CORS.
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Requisição muito grande.");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': contentType });
+  res.end(body);
+}
+
+// ACK^R01 com MSA-1 AA (aceita) ou AE (erro), ecoando o MSH-10 recebido.
+function buildAck(message: string, errors: string[]): string {
+  const msh = message.split(/\r\n?|\n/)[0]?.split('|') ?? [];
+  const controlId = msh[9] ?? '';
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14);
+  const clean = (value: string) => value.replace(/[|^~\\&\r\n]/g, ' ');
+  return [
+    ['MSH', '^~\\&', msh[4] ?? 'RIS', msh[5] ?? '', msh[2] ?? '', msh[3] ?? '', timestamp, '', 'ACK^R01^ACK', `ACK${Date.now()}`, 'P', '2.5'].join('|'),
+    ['MSA', errors.length > 0 ? 'AE' : 'AA', controlId, clean(errors.join(' '))].join('|'),
+  ].join('\r');
+}
+
+function handleHl7(message: string, res: ServerResponse) {
+  const errors = validateOruR01(message);
+  const segments = message.split(/\r\n?|\n/).filter(Boolean);
+  console.log(`HL7 recebido: ${segments.length} segmentos, ${errors.length > 0 ? `${errors.length} erro(s)` : 'válido'}.`);
+  send(res, errors.length > 0 ? 400 : 200, 'x-application/hl7-v2+er7; charset=utf-8', buildAck(message, errors));
+}
+
+function handleFhir(body: string, res: ServerResponse) {
+  let bundle: FhirBundle;
+  try {
+    bundle = JSON.parse(body);
+    if (!Array.isArray(bundle?.entry)) throw new Error();
+  } catch {
+    return sendOperationOutcome(res, ["O corpo não é um Bundle FHIR em JSON."]);
+  }
+  const errors = validateFhirBundle(bundle);
+  console.log(`FHIR recebido: ${bundle.entry.map(entry => entry.resource.resourceType).join(', ')}; ${errors.length > 0 ? `${errors.length} erro(s)` : 'válido'}.`);
+  if (errors.length > 0) {
+    return sendOperationOutcome(res, errors);
+  }
+  const response = {
+    resourceType: 'Bundle',
+    type: 'transaction-response',
+    entry: bundle.entry.map(entry => ({
+      response: { status: '201 Created', location: `${entry.resource.resourceType}/${randomUUID()}/_history/1` },
+    })),
+  };
+  send(res, 200, 'application/fhir+json; charset=utf-8', JSON.stringify(response, null, 2));
+}
+
+function sendOperationOutcome(res: ServerResponse, errors: string[]) {
+  const outcome = {
+    resourceType: 'OperationOutcome',
+    issue: errors.map(diagnostics => ({ severity: 'error', code: 'invalid', diagnostics })),
+  };
+  send(res, 400, 'application/fhir+json; charset=utf-8', JSON.stringify(outcome, null, 2));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      return res.end();
+    }
+    // Aceita o bundle tanto na raiz /fhir quanto em /fhir/ (base com barra final).
+    const path = url.pathname.replace(/\/+$/, '');
+    if (req.method === 'POST' && path === '/hl7') {
+      return handleHl7(await readBody(req), res);
+    }
+    if (req.method === 'POST' && path === '/fhir') {
+      return handleFhir(await readBody(req), res);
+    }
+    send(res, 404, 'application/json; charset=utf-8', JSON.stringify({ error: "Endpoint não encontrado." }));
+  } catch (error) {
+    console.error(`Erro em ${req.method} ${url.pathname}:`, error);
+    send(res, 500, 'application/json; charset=utf-8', JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub de integração ouvindo em http://localhost:${PORT} (POST /hl7, POST /fhir)`);
+});
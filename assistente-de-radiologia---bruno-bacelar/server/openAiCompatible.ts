@@ -0,0 +1,217 @@
+import { Schema } from "@google/genai";
+import { CriticalFinding, ReportChatReply, ReportChatRequest, ReportRequest, ReportStreamEvent, StructuredReport, SynthesizedAudio } from '../types';
+import { STRUCTURED_REPORT_SCHEMA } from '../services/structuredReport';
+import { buildReportPrompt, collectLabeledImages, completeReport } from '../services/reportPrompt';
+import { REPORT_CHAT_SCHEMA, buildChatInstruction, parseChatReply, trimChatHistory } from '../services/reportChat';
+import { CRITICAL_FINDINGS_SCHEMA, buildCriticalFindingsInstruction, parseCriticalFindings } from '../services/criticalFindings';
+import { describeHttpError, readServerSentEvents } from '../services/providers/http';
+
+// Chamadas a APIs no formato da OpenAI (/chat/completions, /audio/speech e /audio/transcriptions) feitas pelo servidor,
+// o que cobre a própria OpenAI e servidores locais como vLLM, LM Studio e Ollama.
+// A URL base e a chave vêm do ambiente do servidor e nunca são enviadas ao navegador.
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+function endpoint(path: string): string {
+  return `${(process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '')}${path}`;
+}
+
+// Servidores locais costumam dispensar a chave; sem ela, a requisição vai sem Authorization.
+function authorizationHeader(): Record<string, string> {
+  const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+async function postJson(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(endpoint(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authorizationHeader() },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await describeHttpError(response));
+  }
+  return response;
+}
+
+// Converte o schema no formato do Gemini (tipos em maiúsculas) para JSON Schema padrão.
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]),
+    );
+  }
+  return result;
+}
+
+const REPORT_JSON_SCHEMA = toJsonSchema(STRUCTURED_REPORT_SCHEMA);
+const CHAT_JSON_SCHEMA = toJsonSchema(REPORT_CHAT_SCHEMA);
+const CRITICAL_FINDINGS_JSON_SCHEMA = toJsonSchema(CRITICAL_FINDINGS_SCHEMA);
+
+function buildChatCompletionBody(model: string, instruction: string, request: ReportRequest, stream: boolean) {
+  return {
+    model,
+    temperature: 0.2,
+    max_tokens: 4096,
+    stream,
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'structured_report', schema: REPORT_JSON_SCHEMA },
+    },
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: instruction },
+        ...collectLabeledImages(request).flatMap(({ caption, image }) => [
+          { type: 'text', text: caption },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+        ]),
+      ],
+    }],
+  };
+}
+
+export async function generateReport(model: string, request: ReportRequest): Promise<StructuredReport> {
+  const prepared = buildReportPrompt(request);
+  let rawResponse: string | undefined;
+  try {
+    const response = await postJson('/chat/completions', buildChatCompletionBody(model, prepared.instruction, request, false));
+    const data = await response.json();
+    rawResponse = data?.choices?.[0]?.message?.content;
+  } catch (error) {
+    console.error("Erro ao gerar laudo via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return completeReport(rawResponse, prepared);
+}
+
+export async function* streamReport(model: string, request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+  const prepared = buildReportPrompt(request);
+  let rawResponse = '';
+  try {
+    const response = await postJson('/chat/completions', buildChatCompletionBody(model, prepared.instruction, request, true), signal);
+    if (!response.body) {
+      throw new Error("Resposta sem corpo do serviço.");
+    }
+    for await (const data of readServerSentEvents(response.body)) {
+      const text: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (text) {
+        rawResponse += text;
+        yield { type: 'chunk', text };
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.error("Erro ao gerar laudo via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  yield { type: 'done', report: completeReport(rawResponse, prepared) };
+}
+
+// Instrução e laudo como mensagem de sistema; as imagens acompanham a primeira mensagem do usuário.
+export async function chatAboutReport(model: string, request: ReportChatRequest): Promise<ReportChatReply> {
+  const images = request.images.flatMap((image, index) => [
+    { type: 'text', text: `Imagem ${index + 1}` },
+    { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+  ]);
+  try {
+    const response = await postJson('/chat/completions', {
+      model,
+      temperature: 0.2,
+      max_tokens: 4096,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'report_chat_reply', schema: CHAT_JSON_SCHEMA },
+      },
+      messages: [
+        { role: 'system', content: buildChatInstruction(request) },
+        ...trimChatHistory(request.messages).map((message, index) => ({
+          role: message.role,
+          content: index === 0 ? [...images, { type: 'text', text: message.text }] : message.text,
+        })),
+      ],
+    });
+    const data = await response.json();
+    return parseChatReply(data?.choices?.[0]?.message?.content, request.reportText);
+  } catch (error) {
+    console.error("Erro ao conversar sobre o laudo via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao responder à pergunta: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Classificação apenas do texto: temperatura zero, para que o mesmo laudo dê o mesmo alerta.
+export async function classifyCriticalFindings(model: string, reportText: string): Promise<CriticalFinding[]> {
+  try {
+    const response = await postJson('/chat/completions', {
+      model,
+      temperature: 0,
+      max_tokens: 1024,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'critical_findings', schema: CRITICAL_FINDINGS_JSON_SCHEMA },
+      },
+      messages: [
+        { role: 'system', content: buildCriticalFindingsInstruction() },
+        { role: 'user', content: reportText },
+      ],
+    });
+    const data = await response.json();
+    return parseCriticalFindings(data?.choices?.[0]?.message?.content);
+  } catch (error) {
+    console.error("Erro ao classificar achados críticos via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao classificar achados críticos: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// `style` vai como `instructions`, aceito pelos modelos gpt-4o-*-tts; outros servidores costumam ignorar o campo.
+export async function synthesizeSpeech(model: string, text: string, voice: string, style: string, speed = 1): Promise<SynthesizedAudio> {
+  try {
+    const response = await postJson('/audio/speech', {
+      model,
+      voice,
+      input: text,
+      speed,
+      ...(style ? { instructions: style } : {}),
+      response_format: 'wav',
+    });
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length === 0) {
+      throw new Error("Recebidos dados de áudio vazios do serviço.");
+    }
+    return { base64: bytes.toString('base64'), mimeType: response.headers.get('Content-Type') || 'audio/wav' };
+  } catch (error) {
+    console.error("Erro ao gerar fala via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao gerar fala: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function transcribeAudio(model: string, audio: SynthesizedAudio): Promise<string> {
+  try {
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.from(audio.base64, 'base64')], { type: audio.mimeType }), 'ditado.wav');
+    form.append('model', model);
+    form.append('language', 'pt');
+    form.append('response_format', 'json');
+    // Sem Content-Type explícito: o fetch define o boundary do multipart.
+    const response = await fetch(endpoint('/audio/transcriptions'), {
+      method: 'POST',
+      headers: authorizationHeader(),
+      body: form,
+    });
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response));
+    }
+    const data = await response.json();
+    return typeof data?.text === 'string' ? data.text : '';
+  } catch (error) {
+    console.error("Erro ao transcrever ditado via provedor compatível com OpenAI:", error);
+    throw new Error(`Falha ao transcrever ditado: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
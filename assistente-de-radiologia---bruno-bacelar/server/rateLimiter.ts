@@ -0,0 +1,45 @@
+// Limite de requisições por usuário em janela fixa, mantido em memória.
+// Suficiente para uma única instância do servidor; várias instâncias exigiriam um armazenamento compartilhado.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string): RateLimitResult;
+}
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  // Descarta janelas expiradas de tempos em tempos para que o mapa não cresça indefinidamente.
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return {
+    check(key: string): RateLimitResult {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) {
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000),
+        };
+      }
+      window.count += 1;
+      return { allowed: true, remaining: limit - window.count, retryAfterSeconds: 0 };
+    },
+  };
+}
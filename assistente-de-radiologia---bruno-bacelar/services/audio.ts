@@ -0,0 +1,242 @@
+import { SynthesizedAudio } from '../types';
+
+// Utilitários de áudio compartilhados pelos provedores de fala.
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000; // Evita estourar a pilha de argumentos de String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+// Os modelos TTS do Gemini devolvem PCM cru de 16 bits, mono, a 24 kHz.
+const DEFAULT_PCM_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1 };
+
+// Reconhece tipos de PCM sem cabeçalho (ex.: "audio/L16;codec=pcm;rate=24000", "audio/pcm") e lê taxa e canais.
+// Retorna null para formatos já reproduzíveis (WAV, MP3, OGG...).
+export function parsePcmMimeType(mimeType: string): PcmFormat | null {
+  const [type, ...params] = mimeType.split(';').map(part => part.trim());
+  if (!/^audio\/(l16|pcm|x-pcm|raw)$/i.test(type)) return null;
+  const format = { ...DEFAULT_PCM_FORMAT };
+  for (const param of params) {
+    const [key, value] = param.split('=').map(part => part.trim().toLowerCase());
+    const numeric = Number(value);
+    if (!Number.isInteger(numeric) || numeric <= 0) continue;
+    if (key === 'rate') format.sampleRate = numeric;
+    if (key === 'channels') format.channels = numeric;
+  }
+  return format;
+}
+
+function writeWavHeader(view: DataView, dataSize: number, sampleRate: number, channels: number) {
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);          // Tamanho do bloco fmt
+  view.setUint16(20, 1, true);           // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // Byte rate
+  view.setUint16(32, channels * 2, true); // Block align
+  view.setUint16(34, 16, true);          // Bits por amostra
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+}
+
+// Envolve bytes PCM 16 bits little endian num cabeçalho RIFF/WAV.
+// O Gemini declara "L16" mas envia as amostras em little endian, como o WAV espera.
+export function wrapPcmAsWav(pcm: Uint8Array, format: PcmFormat): Uint8Array {
+  const dataSize = pcm.length - (pcm.length % (format.channels * 2)); // Descarta um quadro incompleto no final
+  const wav = new Uint8Array(44 + dataSize);
+  writeWavHeader(new DataView(wav.buffer), dataSize, format.sampleRate, format.channels);
+  wav.set(pcm.subarray(0, dataSize), 44);
+  return wav;
+}
+
+// Monta um arquivo WAV (RIFF, PCM 16 bits little endian) a partir de amostras intercaladas.
+export function encodeWav(samples: Int16Array, sampleRate: number, channels: number): Uint8Array {
+  return wrapPcmAsWav(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength), { sampleRate, channels });
+}
+
+export interface DecodedWav extends PcmFormat {
+  samples: Int16Array; // Amostras intercaladas
+}
+
+// Lê um WAV PCM 16 bits percorrendo os blocos RIFF (o cabeçalho nem sempre tem 44 bytes).
+export function decodeWav(bytes: Uint8Array): DecodedWav {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readAscii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || readAscii(0) !== 'RIFF' || readAscii(8) !== 'WAVE') {
+    throw new Error("O áudio não é um arquivo WAV válido.");
+  }
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readAscii(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (chunkId === 'fmt ') {
+      if (view.getUint16(body, true) !== 1 || view.getUint16(body + 14, true) !== 16) {
+        throw new Error("Apenas áudio WAV PCM de 16 bits é suportado.");
+      }
+      format = { channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true) };
+    } else if (chunkId === 'data') {
+      if (!format) break;
+      const size = Math.min(chunkSize, bytes.length - body) & ~1;
+      const samples = new Int16Array(size / 2);
+      for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(body + i * 2, true);
+      return { ...format, samples };
+    }
+    offset = body + chunkSize + (chunkSize % 2); // Blocos RIFF são alinhados em 2 bytes
+  }
+  throw new Error("O arquivo WAV não contém dados de áudio PCM.");
+}
+
+// Converte PCM cru em WAV; os demais formatos são devolvidos sem alteração.
+export function normalizeSpeechAudio(audio: SynthesizedAudio): SynthesizedAudio {
+  const pcmFormat = parsePcmMimeType(audio.mimeType);
+  if (!pcmFormat) return audio;
+  return { base64: bytesToBase64(wrapPcmAsWav(base64ToBytes(audio.base64), pcmFormat)), mimeType: 'audio/wav' };
+}
+
+// Junta vários WAV PCM do mesmo formato, com um silêncio entre eles, e informa a duração de cada trecho.
+export function concatenateWavs(wavs: Uint8Array[], gapSeconds: number): { wav: Uint8Array; durations: number[] } {
+  const decoded = wavs.map(decodeWav);
+  if (decoded.length === 0) {
+    throw new Error("Nenhum trecho de áudio para combinar.");
+  }
+  const { sampleRate, channels } = decoded[0];
+  if (decoded.some(item => item.sampleRate !== sampleRate || item.channels !== channels)) {
+    throw new Error("Os trechos de áudio têm formatos diferentes e não podem ser combinados.");
+  }
+  const gapSamples = Math.round(gapSeconds * sampleRate) * channels;
+  const total = decoded.reduce((sum, item) => sum + item.samples.length, 0) + gapSamples * (decoded.length - 1);
+  const samples = new Int16Array(total);
+  let offset = 0;
+  decoded.forEach((item, index) => {
+    samples.set(item.samples, offset);
+    offset += item.samples.length + (index < decoded.length - 1 ? gapSamples : 0);
+  });
+  return {
+    wav: encodeWav(samples, sampleRate, channels),
+    durations: decoded.map(item => item.samples.length / channels / sampleRate),
+  };
+}
+
+export function parseAudioDataUrl(dataUrl: string): SynthesizedAudio {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match || !match[2]) {
+    throw new Error("URL de dados de áudio inválida.");
+  }
+  return { mimeType: match[1] || 'audio/wav', base64: match[3] };
+}
+
+const MP3_BITRATE_KBPS = 64; // Suficiente para voz
+const MP3_FRAME_SAMPLES = 1152;
+
+// Codifica um WAV PCM em MP3 no navegador (lamejs, carregado sob demanda).
+export async function transcodeWavToMp3(wav: Uint8Array): Promise<Uint8Array> {
+  const { samples, sampleRate, channels } = decodeWav(wav);
+  if (channels > 2) {
+    throw new Error("A conversão para MP3 suporta apenas áudio mono ou estéreo.");
+  }
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const encoder = new Mp3Encoder(channels, sampleRate, MP3_BITRATE_KBPS);
+
+  let left = samples;
+  let right: Int16Array | undefined;
+  if (channels === 2) {
+    left = new Int16Array(samples.length / 2);
+    right = new Int16Array(samples.length / 2);
+    for (let i = 0; i < left.length; i++) {
+      left[i] = samples[i * 2];
+      right[i] = samples[i * 2 + 1];
+    }
+  }
+
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < left.length; i += MP3_FRAME_SAMPLES) {
+    parts.push(encoder.encodeBuffer(left.subarray(i, i + MP3_FRAME_SAMPLES), right?.subarray(i, i + MP3_FRAME_SAMPLES)));
+  }
+  parts.push(encoder.flush());
+
+  const mp3 = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    mp3.set(part, offset);
+    offset += part.length;
+  }
+  return mp3;
+}
+
+export type AudioDownloadFormat = 'wav' | 'mp3';
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+// Prepara o arquivo de download do áudio do laudo. O MP3 só é gerado a partir de WAV;
+// outros formatos comprimidos já recebidos do provedor são baixados como estão.
+export async function buildAudioDownload(audioDataUrl: string, format: AudioDownloadFormat): Promise<{ blob: Blob; extension: string }> {
+  const audio = normalizeSpeechAudio(parseAudioDataUrl(audioDataUrl));
+  const bytes = base64ToBytes(audio.base64);
+  const mimeType = audio.mimeType.split(';')[0].trim().toLowerCase();
+  const extension = AUDIO_EXTENSIONS[mimeType] ?? 'bin';
+  if (format === 'mp3' && extension === 'wav') {
+    return { blob: new Blob([await transcodeWavToMp3(bytes)], { type: 'audio/mpeg' }), extension: 'mp3' };
+  }
+  return { blob: new Blob([bytes], { type: mimeType }), extension };
+}
+
+const DICTATION_SAMPLE_RATE = 16000; // Suficiente para reconhecimento de fala e mantém o upload pequeno
+
+// Converte a gravação do microfone (webm/ogg/mp4, conforme o navegador) em WAV mono 16 kHz,
+// formato aceito por todos os provedores de transcrição.
+export async function convertRecordingToWav(recording: Blob): Promise<SynthesizedAudio> {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } catch {
+    throw new Error("Não foi possível decodificar o áudio gravado.");
+  } finally {
+    void context.close();
+  }
+  const frameCount = Math.max(1, Math.ceil(decoded.duration * DICTATION_SAMPLE_RATE));
+  const offline = new OfflineAudioContext(1, frameCount, DICTATION_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = (await offline.startRendering()).getChannelData(0);
+  const samples = new Int16Array(rendered.length);
+  rendered.forEach((value, index) => {
+    samples[index] = Math.round(Math.max(-1, Math.min(1, value)) * 0x7fff);
+  });
+  return { base64: bytesToBase64(encodeWav(samples, DICTATION_SAMPLE_RATE, 1)), mimeType: 'audio/wav' };
+}
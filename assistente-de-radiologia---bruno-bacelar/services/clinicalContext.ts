@@ -0,0 +1,84 @@
+import { ClinicalContext, ClinicalContextSex, StructuredReport } from '../types';
+
+// Contexto clínico do pedido: validação, texto do cabeçalho do laudo e trecho da instrução ao modelo.
+
+export const EMPTY_CLINICAL_CONTEXT: ClinicalContext = {
+  patientAge: '',
+  patientSex: '',
+  clinicalIndication: '',
+  requestingPhysician: '',
+  examType: '',
+  relevantHistory: '',
+};
+
+export const CLINICAL_CONTEXT_SEX_LABELS: Record<Exclude<ClinicalContextSex, ''>, string> = {
+  F: 'Feminino',
+  M: 'Masculino',
+  O: 'Outro',
+};
+
+const MAX_SHORT_FIELD_LENGTH = 200;
+const MAX_LONG_FIELD_LENGTH = 2000;
+
+export function hasClinicalContext(context: ClinicalContext | undefined): context is ClinicalContext {
+  return !!context && (Object.keys(EMPTY_CLINICAL_CONTEXT) as (keyof ClinicalContext)[]).some(key => context[key].trim() !== '');
+}
+
+export function validateClinicalContext(context: ClinicalContext) {
+  for (const key of ['patientAge', 'requestingPhysician', 'examType'] as const) {
+    if (typeof context[key] !== 'string' || context[key].length > MAX_SHORT_FIELD_LENGTH) {
+      throw new Error(`Contexto clínico inválido: o campo ${key} deve ter no máximo ${MAX_SHORT_FIELD_LENGTH} caracteres.`);
+    }
+  }
+  for (const key of ['clinicalIndication', 'relevantHistory'] as const) {
+    if (typeof context[key] !== 'string' || context[key].length > MAX_LONG_FIELD_LENGTH) {
+      throw new Error(`Contexto clínico inválido: o campo ${key} deve ter no máximo ${MAX_LONG_FIELD_LENGTH} caracteres.`);
+    }
+  }
+  if (!['', 'F', 'M', 'O'].includes(context.patientSex)) {
+    throw new Error("Contexto clínico inválido: sexo do paciente desconhecido.");
+  }
+}
+
+// Idade só com número vira "54 anos"; outras formas ("8 meses") ficam como digitadas.
+export function formatPatientAge(age: string): string {
+  const trimmed = age.trim();
+  if (!/^\d+$/.test(trimmed)) return trimmed;
+  return `${trimmed} ${trimmed === '1' ? 'ano' : 'anos'}`;
+}
+
+// Linha "Paciente:" do cabeçalho, ex: "Feminino, 54 anos". Undefined quando nada foi informado.
+export function describePatient(context: ClinicalContext): string | undefined {
+  const parts = [
+    context.patientSex ? CLINICAL_CONTEXT_SEX_LABELS[context.patientSex] : '',
+    formatPatientAge(context.patientAge),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+// Campos do cabeçalho do laudo tirados do contexto clínico, nunca do modelo.
+export function clinicalHeaderFields(context: ClinicalContext | undefined): Pick<StructuredReport, 'patient' | 'clinicalIndication' | 'requestingPhysician'> {
+  const informed = hasClinicalContext(context) ? context : undefined;
+  return {
+    patient: informed && describePatient(informed),
+    clinicalIndication: informed?.clinicalIndication.trim() || undefined,
+    requestingPhysician: informed?.requestingPhysician.trim() || undefined,
+  };
+}
+
+// Campos informados, um por linha; os ausentes são declarados como tal para que o modelo não os suponha.
+export function buildClinicalContextInstruction(context: ClinicalContext | undefined): string {
+  if (!hasClinicalContext(context)) {
+    return '\nNenhum dado clínico foi informado. Não presuma idade, sexo, indicação ou antecedentes do paciente.';
+  }
+  const field = (label: string, value: string) => `- ${label}: ${value.trim() || 'não informado'}`;
+  return [
+    '\nDADOS CLÍNICOS INFORMADOS PELO SOLICITANTE (use-os na interpretação; não invente os que estiverem como "não informado"):',
+    field('Idade', formatPatientAge(context.patientAge)),
+    field('Sexo', context.patientSex ? CLINICAL_CONTEXT_SEX_LABELS[context.patientSex] : ''),
+    field('Exame solicitado', context.examType),
+    field('Indicação clínica', context.clinicalIndication),
+    field('Antecedentes relevantes', context.relevantHistory),
+    'Relacione a impressão diagnóstica à indicação clínica quando ela for informada, respondendo à pergunta clínica.',
+  ].join('\n');
+}
@@ -0,0 +1,164 @@
+import { Schema, Type } from "@google/genai";
+import { CriticalFinding, CriticalFindingSeverity, CriticalFindingsAssessment, CriticalFindingsNotification, ReportData, UserProfile } from '../types';
+
+// Segunda leitura do laudo em busca de achados críticos: classificação pelo modelo, com uma lista de
+// palavras-chave como reserva quando o modelo falha, e o registro da comunicação exigido antes do laudo final.
+
+export const MAX_CRITICAL_FINDINGS_REPORT_LENGTH = 20000;
+
+export const CRITICAL_SEVERITY_LABELS: Record<CriticalFindingSeverity, string> = {
+  critical: 'Crítico',
+  urgent: 'Urgente',
+};
+
+export const CRITICAL_FINDINGS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      description: "Achados críticos ou urgentes PRESENTES no laudo. Lista vazia quando não houver.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          finding: { type: Type.STRING, description: "Achado em poucas palavras, em português (ex: 'Pneumotórax à direita')." },
+          severity: { type: Type.STRING, enum: ['critical', 'urgent'], description: "critical: risco imediato à vida; urgent: exige conduta em poucas horas." },
+          excerpt: { type: Type.STRING, description: "Trecho literal do laudo que descreve o achado." },
+        },
+        required: ['finding', 'severity'],
+        propertyOrdering: ['finding', 'severity', 'excerpt'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+export function validateCriticalFindingsRequest(reportText: string) {
+  if (!reportText.trim()) {
+    throw new Error("Não há laudo para avaliar.");
+  }
+  if (reportText.length > MAX_CRITICAL_FINDINGS_REPORT_LENGTH) {
+    throw new Error(`O laudo deve ter no máximo ${MAX_CRITICAL_FINDINGS_REPORT_LENGTH} caracteres.`);
+  }
+}
+
+export function buildCriticalFindingsInstruction(): string {
+  return `
+Você revisa laudos radiológicos em busca de achados críticos que exigem comunicação imediata ao médico assistente.
+Você recebe apenas o texto do laudo. Não acrescente achados que não estejam escritos nele.
+Considere críticos (risco imediato à vida) achados como: pneumotórax (sobretudo hipertensivo), hemorragia intracraniana, dissecção ou ruptura de aorta, tromboembolismo pulmonar, pneumoperitônio, AVC isquêmico agudo, herniação cerebral, obstrução de via aérea.
+Considere urgentes (conduta em poucas horas) achados como: apendicite, colecistite aguda, obstrução intestinal, volvo, torção testicular ou ovariana, fratura instável de coluna, corpo estranho aspirado, malposição de tubo ou cateter.
+Ignore achados negados ("sem pneumotórax", "ausência de sinais de hemorragia"), resolvidos ou descritos como estáveis e crônicos.
+Responda SOMENTE com um objeto JSON que siga o schema fornecido, sem texto fora do JSON.
+`;
+}
+
+export function parseCriticalFindings(rawJson: string | undefined): CriticalFinding[] {
+  if (!rawJson) {
+    throw new Error("O modelo não retornou conteúdo.");
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(rawJson);
+  } catch {
+    throw new Error("Resposta do modelo não é um JSON válido.");
+  }
+  const findings = (data as { findings?: unknown } | null)?.findings;
+  if (!Array.isArray(findings)) {
+    throw new Error("Resposta do modelo fora do formato esperado: o campo 'findings' deveria ser uma lista.");
+  }
+  return findings.flatMap((item): CriticalFinding[] => {
+    const source = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (typeof source.finding !== 'string' || !source.finding.trim()) return [];
+    const severity: CriticalFindingSeverity = source.severity === 'urgent' ? 'urgent' : 'critical';
+    const excerpt = typeof source.excerpt === 'string' && source.excerpt.trim() ? source.excerpt.trim() : undefined;
+    return [{ finding: source.finding.trim(), severity, excerpt }];
+  });
+}
+
+// Termos procurados quando o modelo não responde, já sem acentos e em minúsculas.
+const CRITICAL_FINDING_RULES: { pattern: RegExp; finding: string; severity: CriticalFindingSeverity }[] = [
+  { pattern: /pneumotorax/, finding: 'Pneumotórax', severity: 'critical' },
+  { pattern: /hemorragia|hematoma (sub|extra|epi)dural|sangramento intracraniano/, finding: 'Hemorragia', severity: 'critical' },
+  { pattern: /disseccao/, finding: 'Dissecção', severity: 'critical' },
+  { pattern: /tromboembolismo pulmonar|embolia pulmonar|\btep\b/, finding: 'Tromboembolismo pulmonar', severity: 'critical' },
+  { pattern: /pneumoperitonio|ar livre (na cavidade|intraperitoneal)/, finding: 'Pneumoperitônio', severity: 'critical' },
+  { pattern: /herniacao (cerebral|uncal|subfalcina|transtentorial|tonsilar)/, finding: 'Herniação cerebral', severity: 'critical' },
+  { pattern: /(avc|acidente vascular cerebral|infarto cerebral|isquemia) (isquemico )?agud/, finding: 'AVC isquêmico agudo', severity: 'critical' },
+  { pattern: /ruptura (de |da )?aort|aneurisma roto/, finding: 'Ruptura aórtica', severity: 'critical' },
+  { pattern: /apendicite/, finding: 'Apendicite', severity: 'urgent' },
+  { pattern: /obstrucao intestinal|volvo/, finding: 'Obstrução intestinal', severity: 'urgent' },
+  { pattern: /torcao (testicular|ovariana|anexial)/, finding: 'Torção', severity: 'urgent' },
+  { pattern: /corpo estranho/, finding: 'Corpo estranho', severity: 'urgent' },
+];
+
+// Negação antes do termo na mesma frase ("sem pneumotórax", "não há sinais de hemorragia").
+// Ressalvas como "não se pode excluir" não contam como negação.
+const NEGATION_CUES = /\b(sem|ausencia|ausentes?|nao (ha|se (observa|identifica|evidencia|caracteriza|visualiza)m?|(foi|foram) (observad|identificad|evidenciad|caracterizad))|nega|descartad[oa]s?|afastad[oa]s?)/;
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Reserva determinística: procura os termos frase a frase, ignorando os que aparecem depois de uma negação.
+// Listas negadas com vírgula ("sem pneumotórax, hemorragia ou dissecção") ficam inteiras na mesma frase.
+export function detectCriticalFindingsByRules(reportText: string): CriticalFinding[] {
+  const sentences = reportText.replace(/\*\*/g, '').split(/[.;\n]+|\s(?:mas|porém|entretanto)\s/i).map(sentence => sentence.trim()).filter(Boolean);
+  const findings: CriticalFinding[] = [];
+  for (const rule of CRITICAL_FINDING_RULES) {
+    const sentence = sentences.find(candidate => {
+      const normalized = normalize(candidate);
+      const match = rule.pattern.exec(normalized);
+      return !!match && !NEGATION_CUES.test(normalized.slice(0, match.index));
+    });
+    if (sentence) {
+      findings.push({ finding: rule.finding, severity: rule.severity, excerpt: sentence });
+    }
+  }
+  return findings;
+}
+
+// Comunicação registrada para a avaliação atual. Um registro feito para outra avaliação não vale.
+export function currentCriticalNotification(
+  reportData: Pick<ReportData, 'criticalFindings' | 'criticalNotification'>,
+): CriticalFindingsNotification | null {
+  const notification = reportData.criticalNotification;
+  return notification && notification.versionId === reportData.criticalFindings?.versionId ? notification : null;
+}
+
+// Pendente quando há achados e ainda não se registrou quem foi comunicado sobre esta avaliação.
+export function needsCriticalNotification(reportData: Pick<ReportData, 'criticalFindings' | 'criticalNotification'>): boolean {
+  return !!reportData.criticalFindings?.findings.length && !currentCriticalNotification(reportData);
+}
+
+// Substitui a avaliação de achados críticos; a comunicação registrada para a anterior é descartada.
+export function applyCriticalFindingsAssessment(reportData: ReportData, assessment: CriticalFindingsAssessment): ReportData {
+  return { ...reportData, criticalFindings: assessment, criticalNotification: undefined };
+}
+
+export function recordCriticalNotification(
+  reportData: ReportData,
+  notification: Pick<CriticalFindingsNotification, 'notifiedPerson' | 'method' | 'notifiedAt'>,
+  user: UserProfile,
+): ReportData {
+  if (!reportData.criticalFindings?.findings.length) {
+    throw new Error("Não há achados críticos a comunicar.");
+  }
+  if (!notification.notifiedPerson.trim()) {
+    throw new Error("Informe quem foi comunicado dos achados críticos.");
+  }
+  if (!user.name.trim()) {
+    throw new Error("Informe seu nome no cabeçalho antes de registrar a comunicação.");
+  }
+  if (!Number.isFinite(notification.notifiedAt) || notification.notifiedAt > Date.now() + 60 * 1000) {
+    throw new Error("Horário da comunicação inválido.");
+  }
+  return {
+    ...reportData,
+    criticalNotification: {
+      notifiedPerson: notification.notifiedPerson.trim(),
+      method: notification.method.trim() || 'Não informado',
+      notifiedAt: notification.notifiedAt,
+      acknowledgedBy: user.name.trim(),
+      recordedAt: Date.now(),
+      versionId: reportData.criticalFindings.versionId,
+    },
+  };
+}
@@ -0,0 +1,357 @@
+import { ClinicalContext, DeidentificationAudit, DicomMetadata, DicomStudyInfo, ProcessedImageFile, RedactionBox, ReportImageInput } from '../types';
+
+// Anonimização local antes do envio ao modelo: detecção de regiões com texto gravado nos pixels (nome,
+// registro, datas nos cantos da imagem), tarjas pretas aplicadas numa cópia da imagem e remoção dos dados
+// do paciente vindos do DICOM dos textos enviados. Não há OCR: o texto não é lido, e só os valores presentes
+// nos cabeçalhos DICOM são removidos dos textos. Nada disso sai do navegador.
+
+// A detecção roda numa cópia reduzida: texto de sobreposição continua legível nesse tamanho.
+const DETECTION_MAX_SIZE = 1024;
+// Texto de sobreposição fica nas bordas; o miolo da imagem (anatomia) é ignorado pela detecção.
+const CENTRAL_REGION = { start: 0.25, end: 0.75 };
+const MAX_COMPONENTS = 20000;
+const BRIGHT_STROKE_THRESHOLD = 190;
+const STROKE_CONTRAST = 90;
+const MIN_CHARACTERS_PER_LINE = 3;
+
+interface PixelSource {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // RGBA
+}
+
+interface Box {
+  x1: number;
+  y1: number;
+  x2: number; // exclusivo
+  y2: number; // exclusivo
+}
+
+type DetectedRegion = Omit<RedactionBox, 'id' | 'source'>;
+
+const boxWidth = (box: Box) => box.x2 - box.x1;
+const boxHeight = (box: Box) => box.y2 - box.y1;
+
+// Pixels de traço de texto: claros (no canal mais intenso, para pegar texto amarelo ou verde) e com
+// um vizinho próximo bem mais escuro. Com `invert`, procura texto escuro sobre fundo claro.
+function buildStrokeMask(values: Uint8Array, width: number, height: number, invert: boolean): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  const value = (index: number) => (invert ? 255 - values[index] : values[index]);
+  const offsets = [1, 2, -1, -2];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const current = value(index);
+      if (current < BRIGHT_STROKE_THRESHOLD) continue;
+      for (const offset of offsets) {
+        const nx = x + offset;
+        const ny = y + offset;
+        if ((nx >= 0 && nx < width && current - value(y * width + nx) >= STROKE_CONTRAST)
+          || (ny >= 0 && ny < height && current - value(ny * width + x) >= STROKE_CONTRAST)) {
+          mask[index] = 1;
+          break;
+        }
+      }
+    }
+  }
+  return mask;
+}
+
+// Componentes conexos (vizinhança 8) do mask, com caixa envolvente e número de pixels.
+function findComponents(mask: Uint8Array, width: number, height: number): (Box & { pixels: number })[] | null {
+  const labels = new Int32Array(width * height);
+  const components: (Box & { pixels: number })[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    if (components.length >= MAX_COMPONENTS) return null;
+    const component = { x1: width, y1: height, x2: 0, y2: 0, pixels: 0 };
+    labels[start] = components.length + 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      component.pixels++;
+      component.x1 = Math.min(component.x1, x);
+      component.y1 = Math.min(component.y1, y);
+      component.x2 = Math.max(component.x2, x + 1);
+      component.y2 = Math.max(component.y2, y + 1);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const neighbor = ny * width + nx;
+          if (mask[neighbor] && !labels[neighbor]) {
+            labels[neighbor] = components.length + 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+}
+
+// Agrupa caracteres candidatos em linhas: alturas parecidas, alinhados na vertical e próximos na horizontal.
+function groupIntoLines(characters: Box[]): Box[] {
+  const lines: { box: Box; height: number; count: number }[] = [];
+  for (const character of [...characters].sort((a, b) => a.x1 - b.x1)) {
+    const height = boxHeight(character);
+    const line = lines.find(candidate => {
+      const overlap = Math.min(candidate.box.y2, character.y2) - Math.max(candidate.box.y1, character.y1);
+      const gap = character.x1 - candidate.box.x2;
+      return overlap >= 0.5 * Math.min(height, candidate.height)
+        && gap <= 1.5 * Math.max(height, candidate.height)
+        && height <= 2.5 * candidate.height && candidate.height <= 2.5 * height;
+    });
+    if (line) {
+      line.box = { x1: Math.min(line.box.x1, character.x1), y1: Math.min(line.box.y1, character.y1), x2: Math.max(line.box.x2, character.x2), y2: Math.max(line.box.y2, character.y2) };
+      line.height = Math.max(line.height, height);
+      line.count++;
+    } else {
+      lines.push({ box: { ...character }, height, count: 1 });
+    }
+  }
+  return lines.filter(line => line.count >= MIN_CHARACTERS_PER_LINE).map(line => line.box);
+}
+
+// Une caixas sobrepostas ou empilhadas (blocos de várias linhas no mesmo canto).
+function mergeBoxes(boxes: Box[]): Box[] {
+  const merged = boxes.map(box => ({ ...box }));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length && !changed; j++) {
+        const a = merged[i];
+        const b = merged[j];
+        const tolerance = 0.6 * Math.min(boxHeight(a), boxHeight(b));
+        const touches = a.x1 <= b.x2 && b.x1 <= a.x2 && a.y1 - tolerance <= b.y2 && b.y1 - tolerance <= a.y2;
+        if (touches) {
+          merged[i] = { x1: Math.min(a.x1, b.x1), y1: Math.min(a.y1, b.y1), x2: Math.max(a.x2, b.x2), y2: Math.max(a.y2, b.y2) };
+          merged.splice(j, 1);
+          changed = true;
+        }
+      }
+    }
+  }
+  return merged;
+}
+
+function findTextLines(values: Uint8Array, width: number, height: number, invert: boolean): Box[] {
+  const components = findComponents(buildStrokeMask(values, width, height, invert), width, height);
+  // Máscara fragmentada demais (ruído, textura) não se parece com texto de sobreposição.
+  if (!components) return [];
+  const minHeight = Math.max(4, Math.round(height * 0.008));
+  const maxHeight = Math.max(minHeight + 1, Math.round(height * 0.07));
+  const characters = components.filter(component => {
+    const h = boxHeight(component);
+    const w = boxWidth(component);
+    const fill = component.pixels / (w * h);
+    return h >= minHeight && h <= maxHeight && w <= 4 * h && fill >= 0.08 && fill <= 0.85;
+  });
+  return groupIntoLines(characters).filter(line => {
+    const cx = (line.x1 + line.x2) / 2 / width;
+    const cy = (line.y1 + line.y2) / 2 / height;
+    const inCenter = cx > CENTRAL_REGION.start && cx < CENTRAL_REGION.end && cy > CENTRAL_REGION.start && cy < CENTRAL_REGION.end;
+    return !inCenter;
+  });
+}
+
+// Detecção de texto gravado nos pixels, sem reconhecer o conteúdo: basta saber onde ele está.
+// Devolve as regiões em frações da imagem, com uma margem para cobrir acentos e pontuação.
+export function detectTextRegions(image: PixelSource): DetectedRegion[] {
+  const { width, height, data } = image;
+  if (width === 0 || height === 0) return [];
+  const values = new Uint8Array(width * height);
+  let borderSum = 0;
+  let borderCount = 0;
+  for (let index = 0; index < values.length; index++) {
+    values[index] = Math.max(data[index * 4], data[index * 4 + 1], data[index * 4 + 2]);
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x < width * 0.1 || x >= width * 0.9 || y < height * 0.1 || y >= height * 0.9) {
+      borderSum += values[index];
+      borderCount++;
+    }
+  }
+  const lines = findTextLines(values, width, height, false);
+  // Capturas de tela com fundo claro trazem texto escuro.
+  if (borderCount > 0 && borderSum / borderCount > 160) {
+    lines.push(...findTextLines(values, width, height, true));
+  }
+  return mergeBoxes(lines).map(line => {
+    const padding = Math.max(2, Math.round(boxHeight(line) * 0.25));
+    const x1 = Math.max(0, line.x1 - padding);
+    const y1 = Math.max(0, line.y1 - padding);
+    const x2 = Math.min(width, line.x2 + padding);
+    const y2 = Math.min(height, line.y2 + padding);
+    return { x: x1 / width, y: y1 / height, width: (x2 - x1) / width, height: (y2 - y1) / height };
+  });
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Não foi possível decodificar a imagem."));
+    image.src = dataUrl;
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D indisponível neste navegador.");
+  }
+  return { canvas, context };
+}
+
+export async function detectRedactionBoxes(dataUrl: string): Promise<RedactionBox[]> {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, DETECTION_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const { context } = createCanvas(width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return detectTextRegions(context.getImageData(0, 0, width, height))
+    .map(region => ({ ...region, id: crypto.randomUUID(), source: 'detected' as const }));
+}
+
+// Cópia da imagem com as tarjas pintadas sobre os pixels, em resolução original.
+export async function renderRedactedImage(image: Pick<ReportImageInput, 'mimeType' | 'base64'>, boxes: RedactionBox[]): Promise<Pick<ReportImageInput, 'mimeType' | 'base64'>> {
+  const element = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+  const { canvas, context } = createCanvas(element.naturalWidth, element.naturalHeight);
+  context.drawImage(element, 0, 0);
+  context.fillStyle = '#000';
+  for (const box of boxes) {
+    const x1 = Math.floor(box.x * canvas.width);
+    const y1 = Math.floor(box.y * canvas.height);
+    context.fillRect(x1, y1, Math.ceil((box.x + box.width) * canvas.width) - x1, Math.ceil((box.y + box.height) * canvas.height) - y1);
+  }
+  const mimeType = image.mimeType === 'image/jpeg' || image.mimeType === 'image/webp' ? image.mimeType : 'image/png';
+  return { mimeType, base64: canvas.toDataURL(mimeType, 0.92).split(',')[1] };
+}
+
+const NAME_PARTICLES = new Set(['da', 'de', 'do', 'das', 'dos', 'e']);
+
+// Valores identificadores do paciente presentes nos metadados DICOM, para removê-los dos textos enviados.
+export function collectPhiValues(metadataList: DicomMetadata[]): string[] {
+  const values = new Set<string>();
+  for (const metadata of metadataList) {
+    for (const part of (metadata.patientName ?? '').split(/[\s^]+/)) {
+      if (part.length >= 3 && !NAME_PARTICLES.has(part.toLowerCase())) values.add(part);
+    }
+    for (const value of [metadata.patientId, metadata.accessionNumber, metadata.patientBirthDate]) {
+      if (value && value.trim().length >= 3) values.add(value.trim());
+    }
+    if (metadata.patientBirthDate && /^\d{8}$/.test(metadata.patientBirthDate)) {
+      const date = metadata.patientBirthDate;
+      values.add(`${date.substring(6, 8)}/${date.substring(4, 6)}/${date.substring(0, 4)}`);
+    }
+  }
+  return [...values];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function scrubPhiText(text: string, phiValues: string[]): { text: string; count: number } {
+  let count = 0;
+  let result = text;
+  for (const value of phiValues) {
+    result = result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(value)}(?![\\p{L}\\p{N}])`, 'giu'), () => {
+      count++;
+      return '[removido]';
+    });
+  }
+  return { text: result, count };
+}
+
+// Imagem pronta para o modelo, com o que foi feito para anonimizá-la.
+export interface DeidentifiedImage {
+  image: ReportImageInput;
+  boxCount: number;
+  reviewed: boolean;
+  phiValuesScrubbed: number;
+}
+
+async function redactImageInput(image: ReportImageInput, boxes: RedactionBox[], reviewed: boolean, phiValues: string[]): Promise<DeidentifiedImage> {
+  const name = image.name ? scrubPhiText(image.name, phiValues) : { text: undefined, count: 0 };
+  try {
+    const pixels = boxes.length > 0 ? await renderRedactedImage(image, boxes) : image;
+    return {
+      image: { ...image, ...pixels, name: name.text },
+      boxCount: boxes.length,
+      reviewed,
+      phiValuesScrubbed: name.count,
+    };
+  } catch (error) {
+    console.error("Erro ao anonimizar imagem:", error);
+    throw new Error(`Falha ao anonimizar a imagem "${name.text ?? 'sem nome'}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Sem `redaction` a detecção de texto falhou ou nunca rodou (ex: estudos antigos do histórico):
+// a imagem só segue para o modelo depois que o usuário conferir e confirmar as tarjas.
+export function isRedactionPending(file: ProcessedImageFile): boolean {
+  return !file.redaction;
+}
+
+export function requireRedactionReview(files: ProcessedImageFile[], hint = '') {
+  const pending = files.filter(isRedactionPending);
+  if (pending.length > 0) {
+    throw new Error(`A procura de texto não rodou em ${pending.length} imagem(ns) (${pending.map(file => `"${file.name}"`).join(', ')}). Amplie cada uma, cubra com "Tarja" o que identificar o paciente e clique em "Confirmar tarjas" antes de enviar.${hint}`);
+  }
+}
+
+// Arquivo enviado: usa as tarjas já detectadas e, se for o caso, revisadas na pré-visualização.
+export async function deidentifyProcessedFile(file: ProcessedImageFile, phiValues: string[]): Promise<DeidentifiedImage> {
+  requireRedactionReview([file]);
+  return redactImageInput(
+    { mimeType: file.mimeType, base64: file.base64, name: file.name, annotation: file.annotation },
+    file.redaction?.boxes ?? [],
+    !!file.redaction && (file.redaction.boxes.length === 0 || !!file.redaction.reviewedAt),
+    phiValues,
+  );
+}
+
+// Imagem de URL: só existe no momento do envio, então as tarjas detectadas são aplicadas sem revisão.
+export async function deidentifyFetchedImage(image: ReportImageInput, phiValues: string[]): Promise<DeidentifiedImage> {
+  const boxes = await detectRedactionBoxes(`data:${image.mimeType};base64,${image.base64}`);
+  return redactImageInput(image, boxes, boxes.length === 0, phiValues);
+}
+
+export function deidentifyStudyInfo(studyInfo: DicomStudyInfo | undefined, phiValues: string[]): { studyInfo: DicomStudyInfo | undefined; count: number } {
+  if (!studyInfo?.studyDescription) return { studyInfo, count: 0 };
+  const description = scrubPhiText(studyInfo.studyDescription, phiValues);
+  return { studyInfo: { ...studyInfo, studyDescription: description.text }, count: description.count };
+}
+
+// Campos de texto livre do contexto clínico; idade e sexo não identificam o paciente sozinhos.
+export function deidentifyClinicalContext(context: ClinicalContext, phiValues: string[]): { context: ClinicalContext; count: number } {
+  let count = 0;
+  const scrubbed = { ...context };
+  for (const field of ['clinicalIndication', 'requestingPhysician', 'examType', 'relevantHistory'] as const) {
+    const result = scrubPhiText(context[field], phiValues);
+    scrubbed[field] = result.text;
+    count += result.count;
+  }
+  return { context: scrubbed, count };
+}
+
+export function summarizeDeidentification(images: DeidentifiedImage[], extraPhiValuesScrubbed = 0): DeidentificationAudit {
+  return {
+    appliedAt: Date.now(),
+    imageCount: images.length,
+    redactedImageCount: images.filter(image => image.boxCount > 0).length,
+    boxCount: images.reduce((total, image) => total + image.boxCount, 0),
+    unreviewedImageCount: images.filter(image => !image.reviewed).length,
+    phiValuesScrubbed: images.reduce((total, image) => total + image.phiValuesScrubbed, extraPhiValuesScrubbed),
+  };
+}
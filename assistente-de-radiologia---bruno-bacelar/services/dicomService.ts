@@ -0,0 +1,666 @@
+import { DicomImageInfo, DicomMetadata, DicomPixelData, DicomStudyInfo, ProcessedImageFile } from '../types';
+
+// Leitor DICOM (Part 10) executado inteiramente no navegador.
+// Suporta as sintaxes de transferência mais comuns exportadas por PACS:
+// Implicit/Explicit VR Little Endian, Explicit VR Big Endian, Deflated, RLE Lossless
+// e JPEG Baseline (neste caso o quadro é decodificado pelo próprio navegador).
+
+export const TRANSFER_SYNTAX = {
+  IMPLICIT_LITTLE: '1.2.840.10008.1.2',
+  EXPLICIT_LITTLE: '1.2.840.10008.1.2.1',
+  DEFLATED_EXPLICIT_LITTLE: '1.2.840.10008.1.2.1.99',
+  EXPLICIT_BIG: '1.2.840.10008.1.2.2',
+  JPEG_BASELINE: '1.2.840.10008.1.2.4.50',
+  RLE_LOSSLESS: '1.2.840.10008.1.2.5',
+} as const;
+
+const SUPPORTED_TRANSFER_SYNTAXES: string[] = Object.values(TRANSFER_SYNTAX);
+
+const MODALITY_LABELS: Record<string, string> = {
+  CR: 'Radiografia Computadorizada',
+  DX: 'Radiografia Digital',
+  CT: 'Tomografia Computadorizada',
+  MR: 'Ressonância Magnética',
+  US: 'Ultrassonografia',
+  MG: 'Mamografia',
+  NM: 'Medicina Nuclear',
+  PT: 'PET',
+  XA: 'Angiografia',
+  RF: 'Radioscopia',
+};
+
+// VRs cujo comprimento no modo explícito ocupa 4 bytes (precedido de 2 bytes reservados).
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+// Dicionário mínimo para o modo Implicit VR: apenas as tags que efetivamente lemos.
+const IMPLICIT_VRS: Record<string, string> = {
+  '00280002': 'US', '00280006': 'US', '00280010': 'US', '00280011': 'US',
+  '00280100': 'US', '00280101': 'US', '00280103': 'US',
+  '00280008': 'IS', '00200013': 'IS',
+  '00280030': 'DS', '00281050': 'DS', '00281051': 'DS', '00281052': 'DS', '00281053': 'DS',
+  '7FE00010': 'OW',
+};
+
+const UNDEFINED_LENGTH = 0xFFFFFFFF;
+const ITEM_TAG = 'FFFEE000';
+const ITEM_DELIMITATION_TAG = 'FFFEE00D';
+const SEQUENCE_DELIMITATION_TAG = 'FFFEE0DD';
+const PIXEL_DATA_TAG = '7FE00010';
+
+interface DicomElement {
+  vr: string;
+  offset: number;
+  length: number; // UNDEFINED_LENGTH para pixel data encapsulado
+}
+
+interface DicomDataSet {
+  bytes: Uint8Array;
+  view: DataView;
+  littleEndian: boolean;
+  transferSyntaxUid: string;
+  elements: Map<string, DicomElement>;
+}
+
+class DicomReader {
+  private pos: number;
+
+  constructor(
+    private readonly view: DataView,
+    private readonly littleEndian: boolean,
+    private readonly explicitVr: boolean,
+    start: number,
+  ) {
+    this.pos = start;
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  get atEnd(): boolean {
+    return this.pos >= this.view.byteLength;
+  }
+
+  peekGroup(): number {
+    return this.view.getUint16(this.pos, this.littleEndian);
+  }
+
+  private readTag(): string {
+    const group = this.view.getUint16(this.pos, this.littleEndian);
+    const element = this.view.getUint16(this.pos + 2, this.littleEndian);
+    this.pos += 4;
+    return toTagKey(group, element);
+  }
+
+  readElement(): { tag: string; element: DicomElement } {
+    const tag = this.readTag();
+
+    // Itens e delimitadores nunca carregam VR, nem mesmo no modo explícito.
+    if (tag === ITEM_TAG || tag === ITEM_DELIMITATION_TAG || tag === SEQUENCE_DELIMITATION_TAG) {
+      const length = this.view.getUint32(this.pos, this.littleEndian);
+      this.pos += 4;
+      return { tag, element: { vr: '', offset: this.pos, length } };
+    }
+
+    let vr: string;
+    let length: number;
+    if (this.explicitVr) {
+      vr = String.fromCharCode(this.view.getUint8(this.pos), this.view.getUint8(this.pos + 1));
+      this.pos += 2;
+      if (LONG_LENGTH_VRS.has(vr)) {
+        this.pos += 2; // bytes reservados
+        length = this.view.getUint32(this.pos, this.littleEndian);
+        this.pos += 4;
+      } else {
+        length = this.view.getUint16(this.pos, this.littleEndian);
+        this.pos += 2;
+      }
+    } else {
+      vr = IMPLICIT_VRS[tag] ?? 'UN';
+      length = this.view.getUint32(this.pos, this.littleEndian);
+      this.pos += 4;
+    }
+
+    const element: DicomElement = { vr, offset: this.pos, length };
+
+    if (length === UNDEFINED_LENGTH) {
+      if (tag === PIXEL_DATA_TAG) {
+        this.skipEncapsulatedPixelData();
+      } else {
+        this.skipUndefinedLengthSequence();
+      }
+    } else {
+      this.pos += length;
+    }
+    return { tag, element };
+  }
+
+  // Percorre itens de sequência de comprimento indefinido até o delimitador da sequência.
+  private skipUndefinedLengthSequence() {
+    while (!this.atEnd) {
+      const { tag, element } = this.readElement();
+      if (tag === SEQUENCE_DELIMITATION_TAG) return;
+      if (tag === ITEM_TAG && element.length === UNDEFINED_LENGTH) {
+        this.skipUndefinedLengthItem();
+      } else if (tag === ITEM_TAG) {
+        this.pos = element.offset + element.length;
+      }
+    }
+  }
+
+  private skipUndefinedLengthItem() {
+    while (!this.atEnd) {
+      const { tag } = this.readElement();
+      if (tag === ITEM_DELIMITATION_TAG) return;
+    }
+  }
+
+  private skipEncapsulatedPixelData() {
+    while (!this.atEnd) {
+      const { tag, element } = this.readElement();
+      if (tag === SEQUENCE_DELIMITATION_TAG) return;
+      this.pos = element.offset + element.length;
+    }
+  }
+}
+
+function toTagKey(group: number, element: number): string {
+  return (group.toString(16).padStart(4, '0') + element.toString(16).padStart(4, '0')).toUpperCase();
+}
+
+function hasDicmPrefix(bytes: Uint8Array): boolean {
+  return bytes.length >= 132 &&
+    bytes[128] === 0x44 && bytes[129] === 0x49 && bytes[130] === 0x43 && bytes[131] === 0x4D; // "DICM"
+}
+
+export function isDicomFile(file: File, headerBytes?: Uint8Array): boolean {
+  const lowerName = file.name.toLowerCase();
+  if (file.type === 'application/dicom' || lowerName.endsWith('.dcm') || lowerName.endsWith('.dicom')) {
+    return true;
+  }
+  return headerBytes ? hasDicmPrefix(headerBytes) : false;
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function parseDataSet(buffer: ArrayBuffer): Promise<DicomDataSet> {
+  let bytes = new Uint8Array(buffer);
+  let view = new DataView(buffer);
+  const elements = new Map<string, DicomElement>();
+  let transferSyntaxUid: string = TRANSFER_SYNTAX.IMPLICIT_LITTLE;
+
+  // Arquivos sem o preâmbulo "DICM" (legado/ACR-NEMA) são lidos como Implicit VR Little Endian.
+  let start = 0;
+  if (hasDicmPrefix(bytes)) {
+    start = 132;
+    const metaReader = new DicomReader(view, true, true, start);
+    while (!metaReader.atEnd && metaReader.peekGroup() === 0x0002) {
+      const { tag, element } = metaReader.readElement();
+      elements.set(tag, element);
+    }
+    start = metaReader.position;
+    const tsElement = elements.get('00020010');
+    if (tsElement) {
+      transferSyntaxUid = readString(bytes, tsElement);
+    }
+  }
+
+  if (!SUPPORTED_TRANSFER_SYNTAXES.includes(transferSyntaxUid)) {
+    throw new Error(`Sintaxe de transferência DICOM não suportada (${transferSyntaxUid}). Exporte o estudo como não comprimido, RLE ou JPEG Baseline.`);
+  }
+
+  if (transferSyntaxUid === TRANSFER_SYNTAX.DEFLATED_EXPLICIT_LITTLE) {
+    const inflated = await inflateRaw(bytes.subarray(start));
+    const merged = new Uint8Array(start + inflated.length);
+    merged.set(bytes.subarray(0, start));
+    merged.set(inflated, start);
+    bytes = merged;
+    view = new DataView(merged.buffer);
+  }
+
+  const littleEndian = transferSyntaxUid !== TRANSFER_SYNTAX.EXPLICIT_BIG;
+  const explicitVr = transferSyntaxUid !== TRANSFER_SYNTAX.IMPLICIT_LITTLE;
+  const reader = new DicomReader(view, littleEndian, explicitVr, start);
+  while (!reader.atEnd) {
+    const { tag, element } = reader.readElement();
+    elements.set(tag, element);
+    if (tag === PIXEL_DATA_TAG) break; // Nada relevante após os pixels
+  }
+
+  return { bytes, view, littleEndian, transferSyntaxUid, elements };
+}
+
+function readString(bytes: Uint8Array, element: DicomElement): string {
+  let text = '';
+  for (let i = element.offset; i < element.offset + element.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text.replace(/\0/g, '').trim();
+}
+
+function getString(dataSet: DicomDataSet, tag: string): string | undefined {
+  const element = dataSet.elements.get(tag);
+  if (!element || element.length === 0) return undefined;
+  const value = readString(dataSet.bytes, element);
+  return value || undefined;
+}
+
+function getNumbers(dataSet: DicomDataSet, tag: string): number[] {
+  const value = getString(dataSet, tag);
+  if (!value) return [];
+  return value.split('\\').map(Number).filter(n => !Number.isNaN(n));
+}
+
+function getUint16(dataSet: DicomDataSet, tag: string): number | undefined {
+  const element = dataSet.elements.get(tag);
+  if (!element || element.length < 2) return undefined;
+  return dataSet.view.getUint16(element.offset, dataSet.littleEndian);
+}
+
+// Nomes de pessoa DICOM usam '^' entre componentes (ex: "SILVA^JOAO").
+function formatPersonName(value: string | undefined): string | undefined {
+  return value?.split('^').filter(Boolean).join(' ') || undefined;
+}
+
+function extractMetadata(dataSet: DicomDataSet): DicomMetadata {
+  const spacing = getNumbers(dataSet, '00280030');
+  return {
+    modality: getString(dataSet, '00080060'),
+    studyDate: getString(dataSet, '00080020'),
+    bodyPartExamined: getString(dataSet, '00180015'),
+    studyDescription: getString(dataSet, '00081030'),
+    seriesDescription: getString(dataSet, '0008103E'),
+    patientName: formatPersonName(getString(dataSet, '00100010')),
+    patientId: getString(dataSet, '00100020'),
+    patientBirthDate: getString(dataSet, '00100030'),
+    patientSex: getString(dataSet, '00100040'),
+    institutionName: getString(dataSet, '00080080'),
+    accessionNumber: getString(dataSet, '00080050'),
+    referringPhysicianName: formatPersonName(getString(dataSet, '00080090')),
+    studyInstanceUid: getString(dataSet, '0020000D'),
+    seriesInstanceUid: getString(dataSet, '0020000E'),
+    instanceNumber: getNumbers(dataSet, '00200013')[0],
+    sliceLocation: getNumbers(dataSet, '00201041')[0],
+    pixelSpacing: spacing.length === 2 ? [spacing[0], spacing[1]] : undefined,
+  };
+}
+
+interface ImagePixelModule {
+  rows: number;
+  columns: number;
+  samplesPerPixel: 1 | 3;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number; // 0 = sem sinal, 1 = complemento de dois
+  planarConfiguration: number;
+  photometricInterpretation: string;
+  numberOfFrames: number;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  windowCenter?: number;
+  windowWidth?: number;
+}
+
+function readImagePixelModule(dataSet: DicomDataSet): ImagePixelModule {
+  const rows = getUint16(dataSet, '00280010');
+  const columns = getUint16(dataSet, '00280011');
+  if (!rows || !columns) {
+    throw new Error("O arquivo DICOM não contém dimensões de imagem (Rows/Columns).");
+  }
+  const samplesPerPixel = getUint16(dataSet, '00280002') ?? 1;
+  if (samplesPerPixel !== 1 && samplesPerPixel !== 3) {
+    throw new Error(`Número de amostras por pixel não suportado: ${samplesPerPixel}.`);
+  }
+  const photometricInterpretation = getString(dataSet, '00280004') ?? 'MONOCHROME2';
+  if (photometricInterpretation === 'PALETTE COLOR') {
+    throw new Error("Imagens DICOM com paleta de cores não são suportadas.");
+  }
+  const bitsAllocated = getUint16(dataSet, '00280100') ?? 16;
+  if (bitsAllocated !== 8 && bitsAllocated !== 16) {
+    throw new Error(`Bits alocados por pixel não suportados: ${bitsAllocated}.`);
+  }
+  return {
+    rows,
+    columns,
+    samplesPerPixel,
+    bitsAllocated,
+    bitsStored: getUint16(dataSet, '00280101') ?? bitsAllocated,
+    pixelRepresentation: getUint16(dataSet, '00280103') ?? 0,
+    planarConfiguration: getUint16(dataSet, '00280006') ?? 0,
+    photometricInterpretation,
+    numberOfFrames: Math.max(1, getNumbers(dataSet, '00280008')[0] ?? 1),
+    rescaleSlope: getNumbers(dataSet, '00281053')[0] ?? 1,
+    rescaleIntercept: getNumbers(dataSet, '00281052')[0] ?? 0,
+    windowCenter: getNumbers(dataSet, '00281050')[0],
+    windowWidth: getNumbers(dataSet, '00281051')[0],
+  };
+}
+
+// Separa os fragmentos do pixel data encapsulado, agrupando-os por quadro.
+function readEncapsulatedFrames(dataSet: DicomDataSet, pixelElement: DicomElement, numberOfFrames: number): Uint8Array[] {
+  const { view, bytes } = dataSet;
+  let pos = pixelElement.offset;
+  const readItem = () => {
+    const tag = toTagKey(view.getUint16(pos, true), view.getUint16(pos + 2, true));
+    const length = view.getUint32(pos + 4, true);
+    const item = { tag, offset: pos + 8, length };
+    pos += 8 + (tag === SEQUENCE_DELIMITATION_TAG ? 0 : length);
+    return item;
+  };
+
+  const offsetTable = readItem();
+  const frameOffsets: number[] = [];
+  for (let i = 0; i < offsetTable.length; i += 4) {
+    frameOffsets.push(view.getUint32(offsetTable.offset + i, true));
+  }
+
+  const firstFragmentPos = pos;
+  const fragments: { relativeOffset: number; data: Uint8Array }[] = [];
+  while (pos < bytes.length) {
+    const relativeOffset = pos - firstFragmentPos;
+    const item = readItem();
+    if (item.tag === SEQUENCE_DELIMITATION_TAG) break;
+    fragments.push({ relativeOffset, data: bytes.subarray(item.offset, item.offset + item.length) });
+  }
+
+  const concat = (parts: Uint8Array[]) => {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const merged = new Uint8Array(total);
+    let cursor = 0;
+    for (const part of parts) {
+      merged.set(part, cursor);
+      cursor += part.length;
+    }
+    return merged;
+  };
+
+  if (frameOffsets.length > 1) {
+    return frameOffsets.map((start, index) => {
+      const end = frameOffsets[index + 1] ?? Number.POSITIVE_INFINITY;
+      return concat(fragments.filter(f => f.relativeOffset >= start && f.relativeOffset < end).map(f => f.data));
+    });
+  }
+  if (numberOfFrames > 1 && fragments.length === numberOfFrames) {
+    return fragments.map(f => f.data);
+  }
+  return [concat(fragments.map(f => f.data))];
+}
+
+// Decodificação PackBits de um segmento RLE (PS3.5 Anexo G).
+function decodeRleSegment(data: Uint8Array, start: number, end: number, output: Uint8Array) {
+  let inPos = start;
+  let outPos = 0;
+  while (inPos < end && outPos < output.length) {
+    const header = (data[inPos++] << 24) >> 24; // byte com sinal
+    if (header >= 0) {
+      const count = header + 1;
+      output.set(data.subarray(inPos, inPos + count), outPos);
+      inPos += count;
+      outPos += count;
+    } else if (header > -128) {
+      const count = -header + 1;
+      output.fill(data[inPos++], outPos, outPos + count);
+      outPos += count;
+    }
+  }
+}
+
+// Retorna os bytes do quadro no layout nativo não comprimido (little endian, planar por amostra).
+function decodeRleFrame(frame: Uint8Array, module: ImagePixelModule): Uint8Array {
+  const frameView = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const segmentCount = frameView.getUint32(0, true);
+  const bytesPerSample = module.bitsAllocated / 8;
+  const pixelCount = module.rows * module.columns;
+  const output = new Uint8Array(pixelCount * module.samplesPerPixel * bytesPerSample);
+  const segment = new Uint8Array(pixelCount);
+
+  for (let s = 0; s < segmentCount; s++) {
+    const start = frameView.getUint32(4 + s * 4, true);
+    const end = s + 1 < segmentCount ? frameView.getUint32(8 + s * 4, true) : frame.length;
+    segment.fill(0);
+    decodeRleSegment(frame, start, end, segment);
+
+    // Segmentos vêm ordenados por amostra e, dentro dela, do byte mais significativo ao menos.
+    const sample = Math.floor(s / bytesPerSample);
+    const byteIndex = bytesPerSample - 1 - (s % bytesPerSample);
+    const planeOffset = sample * pixelCount * bytesPerSample;
+    for (let p = 0; p < pixelCount; p++) {
+      output[planeOffset + p * bytesPerSample + byteIndex] = segment[p];
+    }
+  }
+  return output;
+}
+
+function toPixelData(
+  frameBytes: Uint8Array,
+  module: ImagePixelModule,
+  littleEndian: boolean,
+  planar: boolean,
+): DicomPixelData {
+  const pixelCount = module.rows * module.columns;
+  const view = new DataView(frameBytes.buffer, frameBytes.byteOffset, frameBytes.byteLength);
+  const bytesPerSample = module.bitsAllocated / 8;
+  const signed = module.pixelRepresentation === 1;
+  const shift = 32 - module.bitsStored;
+
+  const readSample = (index: number): number => {
+    const raw = bytesPerSample === 1
+      ? view.getUint8(index)
+      : view.getUint16(index * 2, littleEndian);
+    // Estende o sinal a partir de BitsStored (ex: 12 bits armazenados em 16 alocados).
+    return signed ? (raw << shift) >> shift : raw & ((1 << module.bitsStored) - 1);
+  };
+
+  if (module.samplesPerPixel === 3) {
+    const values = new Float32Array(pixelCount * 3);
+    for (let p = 0; p < pixelCount; p++) {
+      for (let c = 0; c < 3; c++) {
+        const index = planar ? c * pixelCount + p : p * 3 + c;
+        values[p * 3 + c] = readSample(index);
+      }
+    }
+    return {
+      width: module.columns, height: module.rows, samplesPerPixel: 3, values,
+      minValue: 0, maxValue: 255, invert: false,
+    };
+  }
+
+  const values = new Float32Array(pixelCount);
+  let minValue = Number.POSITIVE_INFINITY;
+  let maxValue = Number.NEGATIVE_INFINITY;
+  for (let p = 0; p < pixelCount; p++) {
+    const value = readSample(p) * module.rescaleSlope + module.rescaleIntercept;
+    values[p] = value;
+    if (value < minValue) minValue = value;
+    if (value > maxValue) maxValue = value;
+  }
+  return {
+    width: module.columns,
+    height: module.rows,
+    samplesPerPixel: 1,
+    values,
+    minValue,
+    maxValue,
+    windowCenter: module.windowCenter,
+    windowWidth: module.windowWidth,
+    invert: module.photometricInterpretation === 'MONOCHROME1',
+  };
+}
+
+interface WindowOptions {
+  windowCenter?: number;
+  windowWidth?: number;
+  invert?: boolean;
+}
+
+// Aplica janelamento (window/level) aos valores de pixel e gera um ImageData RGBA de 8 bits.
+export function renderPixelData(pixelData: DicomPixelData, options: WindowOptions = {}): ImageData {
+  const { width, height, values } = pixelData;
+  const imageData = new ImageData(width, height);
+  const out = imageData.data;
+  const invert = options.invert ?? pixelData.invert;
+
+  if (pixelData.samplesPerPixel === 3) {
+    for (let p = 0; p < width * height; p++) {
+      for (let c = 0; c < 3; c++) {
+        const v = values[p * 3 + c];
+        out[p * 4 + c] = invert ? 255 - v : v;
+      }
+      out[p * 4 + 3] = 255;
+    }
+    return imageData;
+  }
+
+  const center = options.windowCenter ?? pixelData.windowCenter ?? (pixelData.minValue + pixelData.maxValue) / 2;
+  const windowWidth = Math.max(1, options.windowWidth ?? pixelData.windowWidth ?? (pixelData.maxValue - pixelData.minValue));
+  const lower = center - windowWidth / 2;
+  for (let p = 0; p < width * height; p++) {
+    let v = ((values[p] - lower) / windowWidth) * 255;
+    v = v < 0 ? 0 : v > 255 ? 255 : v;
+    if (invert) v = 255 - v;
+    out[p * 4] = v;
+    out[p * 4 + 1] = v;
+    out[p * 4 + 2] = v;
+    out[p * 4 + 3] = 255;
+  }
+  return imageData;
+}
+
+export function imageDataToPngDataUrl(imageData: ImageData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Não foi possível criar o contexto de desenho para converter a imagem DICOM.");
+  }
+  context.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Falha ao ler o quadro JPEG encapsulado."));
+      }
+    };
+    reader.onerror = () => reject(new Error("Erro ao ler o quadro JPEG encapsulado."));
+    reader.readAsDataURL(new Blob([bytes], { type: mimeType }));
+  });
+}
+
+// Arquivo DICOM lido uma única vez; cada quadro é decodificado sob demanda (séries e arquivos multiquadro).
+export interface DicomSource {
+  name: string;
+  metadata: DicomMetadata;
+  numberOfFrames: number;
+  dataSet: DicomDataSet;
+  module: ImagePixelModule;
+  pixelElement: DicomElement;
+  encapsulatedFrames?: Uint8Array[]; // Separados na primeira leitura de um quadro encapsulado
+}
+
+// Quadro decodificado: valores de pixel ou, para JPEG baseline, o próprio JPEG para o navegador decodificar.
+export interface DecodedDicomFrame {
+  pixelData: DicomPixelData | null;
+  jpegDataUrl?: string;
+}
+
+export async function loadDicomFile(file: File): Promise<DicomSource> {
+  const dataSet = await parseDataSet(await file.arrayBuffer());
+  const pixelElement = dataSet.elements.get(PIXEL_DATA_TAG);
+  if (!pixelElement) {
+    throw new Error(`O arquivo DICOM "${file.name}" não contém dados de imagem.`);
+  }
+  const module = readImagePixelModule(dataSet);
+  return { name: file.name, metadata: extractMetadata(dataSet), numberOfFrames: module.numberOfFrames, dataSet, module, pixelElement };
+}
+
+function getEncapsulatedFrame(source: DicomSource, frameIndex: number): Uint8Array {
+  source.encapsulatedFrames ??= readEncapsulatedFrames(source.dataSet, source.pixelElement, source.module.numberOfFrames);
+  const frame = source.encapsulatedFrames[frameIndex];
+  if (!frame) {
+    throw new Error(`Quadro ${frameIndex + 1} ausente no arquivo DICOM "${source.name}".`);
+  }
+  return frame;
+}
+
+export async function decodeDicomFrame(source: DicomSource, frameIndex = 0): Promise<DecodedDicomFrame> {
+  const { dataSet, module, pixelElement } = source;
+  const { transferSyntaxUid } = dataSet;
+  const encapsulated = pixelElement.length === UNDEFINED_LENGTH;
+
+  if (transferSyntaxUid === TRANSFER_SYNTAX.JPEG_BASELINE) {
+    if (!encapsulated) {
+      throw new Error("Pixel data JPEG deveria estar encapsulado.");
+    }
+    return { pixelData: null, jpegDataUrl: await bytesToDataUrl(getEncapsulatedFrame(source, frameIndex), 'image/jpeg') };
+  }
+
+  let frameBytes: Uint8Array;
+  let littleEndian = dataSet.littleEndian;
+  let planar = module.planarConfiguration === 1;
+  if (transferSyntaxUid === TRANSFER_SYNTAX.RLE_LOSSLESS) {
+    frameBytes = decodeRleFrame(getEncapsulatedFrame(source, frameIndex), module);
+    littleEndian = true;
+    planar = true; // RLE sempre armazena as amostras de cor em planos separados
+  } else {
+    const frameSize = module.rows * module.columns * module.samplesPerPixel * (module.bitsAllocated / 8);
+    const frameStart = pixelElement.offset + frameIndex * frameSize;
+    frameBytes = dataSet.bytes.subarray(frameStart, frameStart + frameSize);
+    if (frameBytes.length < frameSize) {
+      throw new Error(`Dados de pixel incompletos no arquivo DICOM "${source.name}".`);
+    }
+  }
+  return { pixelData: toPixelData(frameBytes, module, littleEndian, planar) };
+}
+
+// Converte um quadro em um ProcessedImageFile (PNG, ou o JPEG encapsulado) pronto para pré-visualização e envio.
+export async function renderDicomFrame(source: DicomSource, frameIndex = 0, name = source.name): Promise<ProcessedImageFile> {
+  const { pixelData, jpegDataUrl } = await decodeDicomFrame(source, frameIndex);
+  const previewUrl = pixelData ? imageDataToPngDataUrl(renderPixelData(pixelData)) : jpegDataUrl!;
+  const dicom: DicomImageInfo = { metadata: source.metadata, transferSyntaxUid: source.dataSet.transferSyntaxUid, pixelData };
+  const [header, base64] = previewUrl.split(',');
+  return {
+    id: crypto.randomUUID(),
+    name,
+    mimeType: header.substring(header.indexOf(':') + 1, header.indexOf(';')),
+    base64,
+    previewUrl,
+    dicom,
+  };
+}
+
+// "20240315" -> "15/03/2024"
+export function formatDicomDate(value: string | undefined): string | undefined {
+  if (!value || !/^\d{8}$/.test(value)) return undefined;
+  return `${value.substring(6, 8)}/${value.substring(4, 6)}/${value.substring(0, 4)}`;
+}
+
+export function describeModality(code: string): string {
+  const label = MODALITY_LABELS[code.toUpperCase()];
+  return label ? `${label} (${code})` : code;
+}
+
+// Consolida os metadados DICOM das imagens selecionadas. Retorna undefined se nenhuma for DICOM.
+export function summarizeDicomStudy(files: ProcessedImageFile[]): DicomStudyInfo | undefined {
+  const metadataList = files.map(file => file.dicom?.metadata).filter((m): m is DicomMetadata => !!m);
+  if (metadataList.length === 0) return undefined;
+
+  const unique = (values: (string | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v && v.trim() !== '')));
+
+  return {
+    modalities: unique(metadataList.map(m => m.modality)),
+    studyDate: formatDicomDate(metadataList.find(m => m.studyDate)?.studyDate),
+    bodyParts: unique(metadataList.map(m => m.bodyPartExamined)),
+    studyDescription: metadataList.find(m => m.studyDescription)?.studyDescription,
+  };
+}
@@ -0,0 +1,140 @@
+// Interpretação do ditado: separa comandos falados do texto transcrito e aplica ambos
+// ao laudo em edição, sempre no campo (seção) ativo.
+
+export type DictationCommand = 'newParagraph' | 'newLine' | 'nextField' | 'previousField' | 'deleteLastSentence';
+
+export type DictationToken =
+  | { type: 'text'; text: string }
+  | { type: 'command'; command: DictationCommand };
+
+// Frases reconhecidas; acentos são opcionais porque a transcrição nem sempre os preserva.
+export const DICTATION_COMMANDS: { command: DictationCommand; phrase: string; pattern: string }[] = [
+  { command: 'newParagraph', phrase: 'novo parágrafo', pattern: 'novo\\s+par[aá]grafo' },
+  { command: 'newLine', phrase: 'nova linha', pattern: 'nova\\s+linha' },
+  { command: 'nextField', phrase: 'próximo campo', pattern: 'pr[oó]xim[oa]\\s+(?:campo|se[cç][aã]o)' },
+  { command: 'previousField', phrase: 'campo anterior', pattern: '(?:campo|se[cç][aã]o)\\s+anterior' },
+  { command: 'deleteLastSentence', phrase: 'apagar última frase', pattern: 'apag(?:ar|a|ue)\\s+(?:a\\s+)?[uú]ltima\\s+frase' },
+];
+
+// Cada comando é um grupo de captura; pontuação que a transcrição coloca em volta dele é descartada.
+const COMMAND_PATTERN = new RegExp(
+  `[,;]?\\s*(?<![\\p{L}])(?:${DICTATION_COMMANDS.map(item => `(${item.pattern})`).join('|')})(?![\\p{L}])[.,;:!]*`,
+  'giu',
+);
+
+export function parseDictation(transcript: string): DictationToken[] {
+  const tokens: DictationToken[] = [];
+  const pushText = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed) tokens.push({ type: 'text', text: trimmed });
+  };
+  let lastIndex = 0;
+  for (const match of transcript.matchAll(COMMAND_PATTERN)) {
+    pushText(transcript.slice(lastIndex, match.index));
+    const groupIndex = match.slice(1).findIndex(group => group !== undefined);
+    tokens.push({ type: 'command', command: DICTATION_COMMANDS[groupIndex].command });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  pushText(transcript.slice(lastIndex));
+  return tokens;
+}
+
+export interface ReportField {
+  label: string;
+  startLine: number; // Linha do rótulo ("**ACHADOS:**")
+  endLine: number;   // Última linha do conteúdo, antes do próximo rótulo
+}
+
+const FIELD_HEADING = /^\s*\*\*(.+?):\*\*/;
+
+// Cada linha "**Rótulo:**" abre um campo. Sem rótulos (texto livre), o laudo inteiro é um único campo.
+export function listReportFields(text: string): ReportField[] {
+  const lines = text.split('\n');
+  const fields: ReportField[] = [];
+  lines.forEach((line, index) => {
+    const label = line.match(FIELD_HEADING)?.[1].trim();
+    if (label) {
+      fields.push({ label, startLine: index, endLine: index });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].endLine = index;
+    }
+  });
+  if (fields.length === 0) {
+    return [{ label: 'Laudo', startLine: 0, endLine: lines.length - 1 }];
+  }
+  return fields;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Texto ditado vai para o fim do campo, com espaço e maiúscula inicial quando começa uma nova frase.
+function appendToLine(line: string, text: string): string {
+  const trimmed = line.trimEnd();
+  const bare = trimmed.replace(/^\s*[-•]\s*$/, '');
+  const startsSentence = !bare || /[.!?:]$/.test(trimmed) || (FIELD_HEADING.test(trimmed) && trimmed.endsWith('**'));
+  const piece = startsSentence ? capitalize(text) : text;
+  if (!bare || /\s$/.test(line)) return `${line}${piece}`;
+  return `${trimmed} ${piece}`;
+}
+
+// Remove a última frase do conteúdo do campo, preservando o rótulo e os marcadores de lista.
+function deleteLastSentence(lines: string[], field: ReportField): string[] {
+  for (let index = field.endLine; index >= field.startLine; index--) {
+    const line = lines[index];
+    const heading = index === field.startLine ? line.match(FIELD_HEADING)?.[0] ?? '' : '';
+    const content = line.slice(heading.length);
+    if (!content.trim() || /^\s*[-•]\s*$/.test(content)) {
+      if (index > field.startLine) {
+        lines.splice(index, 1); // Linha vazia (ou marcador sem texto) no fim do campo
+        field.endLine--;
+        continue;
+      }
+      return lines;
+    }
+    const body = content.trimEnd();
+    const cut = body.search(/(?<=[.!?…])\s+[^.!?…]+[.!?…]?$/);
+    let remaining = cut >= 0 ? body.slice(0, cut) : body.replace(/[^\s\-•][^]*$/, '');
+    if (!remaining.trim() || /^\s*[-•]\s*$/.test(remaining)) remaining = '';
+    if (!remaining && index > field.startLine) {
+      lines.splice(index, 1);
+      field.endLine--;
+    } else {
+      lines[index] = `${heading}${remaining}`.trimEnd();
+    }
+    return lines;
+  }
+  return lines;
+}
+
+// Aplica os trechos ditados ao texto do laudo e devolve o novo texto e o campo ativo resultante.
+export function applyDictation(text: string, activeField: number, tokens: DictationToken[]): { text: string; activeField: number } {
+  let lines = text.split('\n');
+  let fieldIndex = activeField;
+  for (const token of tokens) {
+    const fields = listReportFields(lines.join('\n'));
+    fieldIndex = Math.min(Math.max(fieldIndex, 0), fields.length - 1);
+    const field = fields[fieldIndex];
+    if (token.type === 'text') {
+      lines[field.endLine] = appendToLine(lines[field.endLine], token.text);
+      continue;
+    }
+    switch (token.command) {
+      case 'nextField':
+        fieldIndex = Math.min(fieldIndex + 1, fields.length - 1);
+        break;
+      case 'previousField':
+        fieldIndex = Math.max(fieldIndex - 1, 0);
+        break;
+      case 'newLine':
+        lines.splice(field.endLine + 1, 0, '');
+        break;
+      case 'newParagraph':
+        lines.splice(field.endLine + 1, 0, '', '');
+        break;
+      case 'deleteLastSentence':
+        lines = deleteLastSentence(lines, { ...field });
+        break;
+    }
+  }
+  return { text: lines.join('\n'), activeField: fieldIndex };
+}
@@ -0,0 +1,218 @@
+import { ReportExportInput, ReportStatus } from '../types';
+import { parseReportSections } from './structuredReport';
+import { latestSignOff, formatReportForExport } from './reportStatus';
+import { bytesToBase64 } from './audio';
+
+// Bundle FHIR R4 de transação com Patient, ImagingStudy, uma Media por imagem e o DiagnosticReport
+// que referencia todos eles. Os recursos se referenciam por urn:uuid, resolvidos pelo servidor na transação.
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+type FhirResource = { resourceType: string; [key: string]: unknown };
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource; request: { method: 'POST'; url: string; ifNoneExist?: string } }[];
+}
+
+export const FHIR_REPORT_STATUS: Record<ReportStatus, string> = {
+  draft: 'partial',
+  'in-review': 'partial',
+  preliminary: 'preliminary',
+  final: 'final',
+  addendum: 'appended',
+};
+
+const DIAGNOSTIC_REPORT_STATUSES = ['registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown'];
+const GENDERS: Record<ReportExportInput['identifiers']['sex'], string> = { M: 'male', F: 'female', O: 'other', U: 'unknown' };
+const DICOM_UID = /^[0-2](\.(0|[1-9]\d*))+$/;
+const FHIR_DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+const FHIR_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+const PATIENT_ID_SYSTEM = 'urn:rainer:patient-id';
+const ACCESSION_SYSTEM = 'urn:rainer:accession';
+
+const textToBase64 = (text: string) => bytesToBase64(new TextEncoder().encode(text));
+const newFullUrl = () => `urn:uuid:${crypto.randomUUID()}`;
+
+function findImpression(reportText: string, fallback: string | undefined): string | undefined {
+  const section = parseReportSections(reportText).sections.find(candidate =>
+    /^(impress|conclus)/.test(candidate.label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()));
+  return section?.content || fallback || undefined;
+}
+
+export function buildFhirBundle(input: ReportExportInput): FhirBundle {
+  const { identifiers, report, images, issuedAt } = input;
+  const signOff = latestSignOff(report);
+  const patientUrl = newFullUrl();
+  const studyUrl = newFullUrl();
+  const patientRef = { reference: patientUrl };
+  const accessionIdentifier = identifiers.accessionNumber.trim()
+    ? {
+        type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'ACSN' }] },
+        system: ACCESSION_SYSTEM,
+        value: identifiers.accessionNumber.trim(),
+      }
+    : undefined;
+  const nameParts = identifiers.patientName.trim().split(/\s+/).filter(Boolean);
+  const modalityCoding = identifiers.modality.trim()
+    ? { system: 'http://dicom.nema.org/resources/ontology/DCM', code: identifiers.modality.trim().toUpperCase() }
+    : undefined;
+
+  const patient: FhirResource = {
+    resourceType: 'Patient',
+    identifier: [{ system: PATIENT_ID_SYSTEM, value: identifiers.patientId.trim() }],
+    name: [{
+      text: identifiers.patientName.trim(),
+      family: nameParts.length > 1 ? nameParts[nameParts.length - 1] : nameParts[0],
+      given: nameParts.length > 1 ? nameParts.slice(0, -1) : undefined,
+    }],
+    gender: GENDERS[identifiers.sex],
+    birthDate: identifiers.birthDate || undefined,
+  };
+
+  const imagingStudy: FhirResource = {
+    resourceType: 'ImagingStudy',
+    status: 'available',
+    subject: patientRef,
+    identifier: [
+      ...(identifiers.studyInstanceUid.trim() ? [{ system: 'urn:dicom:uid', value: `urn:oid:${identifiers.studyInstanceUid.trim()}` }] : []),
+      ...(accessionIdentifier ? [accessionIdentifier] : []),
+    ],
+    started: identifiers.studyDate || undefined,
+    modality: modalityCoding ? [modalityCoding] : undefined,
+    description: identifiers.studyDescription.trim() || undefined,
+    numberOfInstances: images.length,
+  };
+
+  const mediaEntries = images.map((image, index) => ({
+    fullUrl: newFullUrl(),
+    resource: {
+      resourceType: 'Media',
+      status: 'completed',
+      type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'image', display: 'Image' }] },
+      subject: patientRef,
+      partOf: [{ reference: studyUrl }],
+      content: { contentType: image.mimeType, data: image.base64, title: `Imagem ${index + 1} · ${image.name}` },
+    } as FhirResource,
+    request: { method: 'POST' as const, url: 'Media' },
+  }));
+
+  const interpreter = signOff ? [{ display: `${signOff.name} (${signOff.registry})` }] : undefined;
+  const diagnosticReport: FhirResource = {
+    resourceType: 'DiagnosticReport',
+    identifier: accessionIdentifier ? [accessionIdentifier] : undefined,
+    status: FHIR_REPORT_STATUS[report.status],
+    category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'RAD', display: 'Radiology' }] }],
+    code: {
+      coding: [{ system: 'http://loinc.org', code: '18748-4', display: 'Diagnostic imaging study' }],
+      text: identifiers.studyDescription.trim() || undefined,
+    },
+    subject: patientRef,
+    effectiveDateTime: identifiers.studyDate || undefined,
+    issued: issuedAt.toISOString(),
+    performer: interpreter,
+    resultsInterpreter: interpreter,
+    imagingStudy: [{ reference: studyUrl }],
+    media: mediaEntries.map((entry, index) => ({ comment: `Imagem ${index + 1}`, link: { reference: entry.fullUrl } })),
+    conclusion: findImpression(report.text, report.structured?.impression),
+    presentedForm: [{
+      contentType: 'text/plain; charset=utf-8',
+      language: 'pt-BR',
+      title: 'Laudo',
+      data: textToBase64(formatReportForExport(report)),
+    }],
+  };
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: issuedAt.toISOString(),
+    entry: [
+      {
+        fullUrl: patientUrl,
+        resource: patient,
+        // Reaproveita o paciente já cadastrado no servidor com o mesmo identificador.
+        request: { method: 'POST', url: 'Patient', ifNoneExist: `identifier=${encodeURIComponent(`${PATIENT_ID_SYSTEM}|${identifiers.patientId.trim()}`)}` },
+      },
+      { fullUrl: studyUrl, resource: imagingStudy, request: { method: 'POST', url: 'ImagingStudy' } },
+      ...mediaEntries,
+      { fullUrl: newFullUrl(), resource: diagnosticReport, request: { method: 'POST', url: 'DiagnosticReport' } },
+    ],
+  };
+}
+
+// Remove campos undefined e listas vazias, que o FHIR não admite no JSON.
+export function serializeFhirBundle(bundle: FhirBundle): string {
+  return JSON.stringify(bundle, (_key, value) => (Array.isArray(value) && value.length === 0 ? undefined : value), 2);
+}
+
+// Verificação estrutural contra as cardinalidades obrigatórias do R4 e as referências internas do bundle.
+// Devolve a lista de problemas; vazia quando o bundle está correto.
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const errors: string[] = [];
+  if (bundle.resourceType !== 'Bundle' || bundle.type !== 'transaction') {
+    errors.push("O recurso raiz deve ser um Bundle do tipo transaction.");
+  }
+  const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+  if (fullUrls.size !== bundle.entry.length) errors.push("Há entradas com fullUrl repetido.");
+
+  const checkReference = (owner: string, field: string, ref: unknown) => {
+    const reference = (ref as { reference?: unknown } | undefined)?.reference;
+    if (typeof reference !== 'string' || !fullUrls.has(reference)) {
+      errors.push(`${owner}.${field} não aponta para um recurso do bundle.`);
+    }
+  };
+
+  for (const { fullUrl, resource, request } of bundle.entry) {
+    const type = resource.resourceType;
+    if (!/^urn:uuid:[0-9a-f-]{36}$/.test(fullUrl)) errors.push(`${type}: fullUrl deve ser um urn:uuid.`);
+    if (request.url !== type) errors.push(`${type}: request.url deve ser "${type}".`);
+    switch (type) {
+      case 'Patient': {
+        const identifier = (resource.identifier as { value?: string }[] | undefined)?.[0];
+        if (!identifier?.value) errors.push("Patient.identifier é obrigatório para localizar o paciente no destino.");
+        const name = (resource.name as { text?: string }[] | undefined)?.[0];
+        if (!name?.text) errors.push("Patient.name é obrigatório.");
+        if (resource.birthDate !== undefined && !FHIR_DATE.test(String(resource.birthDate))) errors.push("Patient.birthDate deve estar no formato AAAA-MM-DD.");
+        break;
+      }
+      case 'ImagingStudy': {
+        if (resource.status !== 'available') errors.push("ImagingStudy.status inválido.");
+        checkReference('ImagingStudy', 'subject', resource.subject);
+        const uid = (resource.identifier as { system?: string; value?: string }[]).find(identifier => identifier.system === 'urn:dicom:uid');
+        if (uid && !DICOM_UID.test(uid.value?.replace(/^urn:oid:/, '') ?? '')) errors.push("ImagingStudy: Study Instance UID inválido.");
+        if (resource.started !== undefined && !FHIR_DATE_TIME.test(String(resource.started))) errors.push("ImagingStudy.started deve ser uma data AAAA-MM-DD.");
+        break;
+      }
+      case 'Media': {
+        if (resource.status !== 'completed') errors.push("Media.status inválido.");
+        const content = resource.content as { contentType?: string; data?: string } | undefined;
+        if (!content?.contentType || !content.data) errors.push("Media.content exige contentType e dados.");
+        checkReference('Media', 'subject', resource.subject);
+        (resource.partOf as unknown[] | undefined)?.forEach(ref => checkReference('Media', 'partOf', ref));
+        break;
+      }
+      case 'DiagnosticReport': {
+        if (!DIAGNOSTIC_REPORT_STATUSES.includes(String(resource.status))) errors.push("DiagnosticReport.status inválido.");
+        const code = resource.code as { coding?: unknown[] } | undefined;
+        if (!code?.coding?.length) errors.push("DiagnosticReport.code é obrigatório.");
+        checkReference('DiagnosticReport', 'subject', resource.subject);
+        (resource.imagingStudy as unknown[] | undefined)?.forEach(ref => checkReference('DiagnosticReport', 'imagingStudy', ref));
+        (resource.media as { link?: unknown }[] | undefined)?.forEach(media => checkReference('DiagnosticReport', 'media.link', media.link));
+        if (resource.effectiveDateTime !== undefined && !FHIR_DATE_TIME.test(String(resource.effectiveDateTime))) errors.push("DiagnosticReport.effectiveDateTime inválido.");
+        if (!FHIR_DATE_TIME.test(String(resource.issued))) errors.push("DiagnosticReport.issued inválido.");
+        if (!(resource.presentedForm as { data?: string }[] | undefined)?.[0]?.data) errors.push("DiagnosticReport.presentedForm deve conter o texto do laudo.");
+        break;
+      }
+      default:
+        errors.push(`Recurso inesperado no bundle: ${type}.`);
+    }
+  }
+  if (!bundle.entry.some(entry => entry.resource.resourceType === 'DiagnosticReport')) {
+    errors.push("O bundle não contém o DiagnosticReport.");
+  }
+  return errors;
+}
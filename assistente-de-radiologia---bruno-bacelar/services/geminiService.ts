@@ -1,84 +1,104 @@
+import { CriticalFindingsAssessment, ProviderSettings, ReportAudioSegment, ReportChatReply, ReportChatRequest, ReportProvider, ReportRequest, ReportStreamEvent, SpeechProvider, SpeechSettings, StructuredReport, TranscriptionProvider } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS, createReportProvider, createSpeechProvider, createTranscriptionProvider } from './providers';
+import { validateReportRequest } from './reportPrompt';
+import { validateChatRequest } from './reportChat';
+import { detectCriticalFindingsByRules, validateCriticalFindingsRequest } from './criticalFindings';
+import { API_BASE_PATH, describeHttpError } from './providers/http';
+import { base64ToBytes, bytesToBase64, concatenateWavs, convertRecordingToWav, normalizeSpeechAudio, parseAudioDataUrl } from './audio';
+import { DEFAULT_SPEECH_SETTINGS, SPEECH_PREVIEW_TEXT, applyPronunciationLexicon, splitReportForSpeech } from './speech';
+
+// Ponto de entrada usado pela interface. As chamadas são delegadas ao provedor
+// selecionado nas configurações (Gemini, HTTP compatível com OpenAI ou simulado).
+let reportProvider: ReportProvider = createReportProvider(DEFAULT_PROVIDER_SETTINGS);
+let speechProvider: SpeechProvider = createSpeechProvider(DEFAULT_PROVIDER_SETTINGS);
+let transcriptionProvider: TranscriptionProvider = createTranscriptionProvider(DEFAULT_PROVIDER_SETTINGS);
+let speechSettings: SpeechSettings = DEFAULT_SPEECH_SETTINGS;
+let speechVoiceKey = describeSpeechVoice(DEFAULT_PROVIDER_SETTINGS);
+let reportModelLabel = describeReportModel(DEFAULT_PROVIDER_SETTINGS);
+let maxImagesPerReport = DEFAULT_PROVIDER_SETTINGS.maxImagesPerReport;
+
+const SECTION_GAP_SECONDS = 0.4;
+
+// Identifica provedor, modelo e voz: trocar qualquer um deles invalida o áudio das seções em cache.
+function describeSpeechVoice(settings: ProviderSettings): string {
+  switch (settings.speechProvider) {
+    case 'gemini':
+      return JSON.stringify(['gemini', settings.gemini.speechModel, settings.gemini.voice]);
+    case 'openai-compatible':
+      return JSON.stringify(['openai-compatible', settings.openAiCompatible.speechModel, settings.openAiCompatible.voice]);
+    default:
+      return JSON.stringify([settings.speechProvider]);
+  }
+}
 
-import { GoogleGenAI, GenerateContentResponse, Part, HarmCategory, HarmBlockThreshold, GenerationConfig } from "@google/genai";
-import { SpeechConfig, TTSGenerationConfig } from '../types'; 
+// Autor registrado nas versões do laudo geradas pela IA.
+function describeReportModel(settings: ProviderSettings): string {
+  switch (settings.reportProvider) {
+    case 'gemini':
+      return `IA · ${PROVIDER_LABELS.gemini} (${settings.gemini.reportModel})`;
+    case 'openai-compatible':
+      return `IA · ${PROVIDER_LABELS['openai-compatible']} (${settings.openAiCompatible.reportModel})`;
+    default:
+      return `IA · ${PROVIDER_LABELS[settings.reportProvider]}`;
+  }
+}
 
-const apiKey = process.env.API_KEY;
-if (!apiKey) {
-  console.warn("API_KEY environment variable not set. Gemini API calls will likely fail.");
+export function getReportModelLabel(): string {
+  return reportModelLabel;
 }
-// Initialize with a fallback key to prevent constructor error if API_KEY is undefined,
-// though calls will fail without a valid key.
-const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY_DO_NOT_USE" });
 
-const safetySettings = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-];
+export function configureProviders(settings: ProviderSettings) {
+  reportProvider = createReportProvider(settings);
+  speechProvider = createSpeechProvider(settings);
+  transcriptionProvider = createTranscriptionProvider(settings);
+  speechVoiceKey = describeSpeechVoice(settings);
+  reportModelLabel = describeReportModel(settings);
+  maxImagesPerReport = settings.maxImagesPerReport;
+}
 
-export async function generateReportFromImage(userPrompt: string, imageParts: Part[]): Promise<string> {
-  if (imageParts.length === 0) {
-    throw new Error("Nenhuma imagem fornecida para análise.");
-  }
-  if (imageParts.length > 10) { // Updated from 5 to 10
-    throw new Error("A análise é limitada a um máximo de 10 imagens."); // Updated message
-  }
+export function configureSpeech(settings: SpeechSettings) {
+  speechSettings = settings;
+}
 
-  const currentDate = new Date();
-  const formattedDate = `${currentDate.getDate().toString().padStart(2, '0')}/${(currentDate.getMonth() + 1).toString().padStart(2, '0')}/${currentDate.getFullYear()}`;
-
-  const imageIdentifiers = imageParts.map((part, index) => {
-    // Tenta extrair um nome de arquivo ou um segmento da URL para identificação
-    // Isso é um placeholder; a API Gemini não recebe metadados de nome de arquivo diretamente com inlineData.
-    // A referência a qual imagem é qual terá que ser inferida pela ordem ou descrita no prompt se necessário.
-    return `Imagem ${index + 1}`; 
-  }).join(', ');
-
-  const systemInstruction = `
-Você é um assistente de radiologia altamente qualificado, com conhecimento e capacidade de análise comparáveis aos modelos especializados em imagens médicas como o MedGemma.
-Analise TODAS as imagens fornecidas (até 10, identificadas como ${imageIdentifiers}) e o prompt do usuário para gerar um laudo radiológico CONSOLIDADO e detalhado.
-Siga ESTRITAMENTE o formato abaixo. Use a marcação Markdown '**TEXTO EM NEGRITO**' para os títulos dos campos principais, exatamente como mostrado no modelo.
-O prompt do usuário para esta análise é: "${userPrompt}"
-
-Utilize o prompt do usuário e as informações de TODAS as imagens para elaborar os campos 'ACHADOS' e 'IMPRESSÃO DIAGNÓSTICA'.
-No campo 'ACHADOS', se houver múltiplas imagens e os achados forem distintos ou específicos para cada uma, tente referenciar qual imagem (ex: "Na Imagem 1...") exibe qual achado. Sintetize quando possível.
-Tente inferir a 'Modalidade' principal das imagens (ex: Raio-X, Tomografia Computadorizada, Ressonância Magnética) ou liste as modalidades se forem diversas. Se não puder determinar, escreva 'Não especificado'.
-Para o campo 'TÉCNICA:', descreva brevemente qualquer técnica de imagem observável ou considerações relevantes para a análise, ou escreva 'Não especificado'.
-
-Modelo do Laudo:
-**RELATÓRIO DE IMAGEM**
-**Data do exame:** ${formattedDate}
-**Modalidade:** <Preencha aqui com a(s) modalidade(s) inferida(s) ou 'Não especificado'>
-**Processamento:** Análise assistida por IA
-**TÉCNICA:** <Preencha aqui com base nas imagens e no prompt do usuário>
-**ACHADOS:** <Preencha aqui detalhadamente com base em TODAS as imagens e no prompt do usuário. Referencie imagens específicas se necessário.>
-**IMPRESSÃO DIAGNÓSTICA:** <Preencha aqui com base em TODAS as imagens e no prompt do usuário. Deve ser uma conclusão consolidada.>
-`;
-
-  const textPart: Part = {
-    text: systemInstruction,
-  };
+// Expande as abreviações do léxico e sintetiza; PCM cru (ex.: audio/L16 do Gemini) não toca no <audio>, então é convertido em WAV.
+async function synthesizeToDataUrl(provider: SpeechProvider, settings: SpeechSettings, text: string): Promise<string> {
+  const spokenText = applyPronunciationLexicon(text, settings.lexicon);
+  const audio = normalizeSpeechAudio(await provider.synthesizeSpeech(spokenText, { style: settings.style, rate: settings.rate }));
+  return `data:${audio.mimeType};base64,${audio.base64}`;
+}
 
+export async function generateReportFromImage(request: ReportRequest): Promise<StructuredReport> {
+  validateReportRequest(request, maxImagesPerReport);
+  return reportProvider.generateReport(request);
+}
+
+// Variante em streaming: emite os trechos do JSON conforme chegam e, por último, o laudo validado.
+// Abortar o `signal` interrompe a requisição em andamento.
+export async function* streamReportFromImage(request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+  validateReportRequest(request, maxImagesPerReport);
+  yield* reportProvider.streamReport(request, signal);
+}
+
+// Pergunta de acompanhamento sobre o laudo atual, com as mesmas imagens como contexto.
+export async function askAboutReport(request: ReportChatRequest): Promise<ReportChatReply> {
+  validateChatRequest(request, maxImagesPerReport);
+  return reportProvider.chat(request);
+}
+
+// Segunda leitura do laudo em busca de achados críticos. Nunca falha: se o modelo não responder,
+// vale a lista de palavras-chave, e o motivo fica registrado na avaliação.
+export async function assessCriticalFindings(reportText: string): Promise<Omit<CriticalFindingsAssessment, 'versionId'>> {
+  validateCriticalFindingsRequest(reportText);
   try {
-    // FIX: Moved safetySettings into generationConfig
-    const generationConfig: GenerationConfig = {
-      temperature: 0.2, 
-      maxOutputTokens: 4096, // Aumentado para acomodar laudos de múltiplas imagens
-      safetySettings: safetySettings,
-    };
-    
-    const contents = [{ parts: [textPart, ...imageParts] }];
-
-    const result: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-preview-04-17',
-      contents: contents, 
-      config: generationConfig
-    });
-    return result.text;
+    return { findings: await reportProvider.classifyCriticalFindings(reportText), source: 'model', assessedAt: Date.now() };
   } catch (error) {
-    console.error("Erro ao gerar laudo a partir da imagem:", error);
-    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+    console.warn("Classificação de achados críticos pelo modelo falhou; usando palavras-chave:", error);
+    return {
+      findings: detectCriticalFindingsByRules(reportText),
+      source: 'rules',
+      assessedAt: Date.now(),
+      fallbackReason: error instanceof Error ? error.message : String(error),
+    };
   }
 }
 
@@ -86,83 +106,80 @@ export async function generateSpeechFromText(textToSynthesize: string): Promise<
   if (!textToSynthesize || textToSynthesize.trim() === "") {
     throw new Error("Não é possível gerar fala a partir de texto vazio.");
   }
-  
-  // FIX: Moved safetySettings into ttsConfig which is used as the 'config' parameter
-  const ttsConfig = {
-    responseModalities: ["AUDIO"], 
-    speechConfig: {               
-      voiceConfig: {
-        prebuiltVoiceConfig: {
-          voiceName: "vindemiatrix", 
-        },
-      },
-    },
-    safetySettings: safetySettings,
-  };
-  
-  try {
-    const result: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts', 
-        contents: textToSynthesize, 
-        config: ttsConfig as any, 
-    });
-
-    if (
-      result.candidates &&
-      result.candidates.length > 0 &&
-      result.candidates[0].content &&
-      result.candidates[0].content.parts &&
-      result.candidates[0].content.parts.length > 0 &&
-      result.candidates[0].content.parts[0].inlineData &&
-      result.candidates[0].content.parts[0].inlineData.data 
-    ) {
-      const audioBase64 = result.candidates[0].content.parts[0].inlineData.data;
-      if (!audioBase64 || audioBase64.trim() === "") {
-        console.error("A resposta TTS continha dados de áudio vazios.", { result });
-        throw new Error("Falha ao gerar fala: Recebidos dados de áudio vazios do serviço.");
-      }
-      const audioMimeType = result.candidates[0].content.parts[0].inlineData.mimeType || 'audio/wav'; 
-      return `data:${audioMimeType};base64,${audioBase64}`;
-    } else {
-      const textFallback = result.text; 
-      if (textFallback) {
-         console.warn("Dados de áudio TTS não encontrados. O modelo pode ter retornado texto em vez disso. A configuração TTS pode não ser suportada ou o nome da voz é inválido.", {textFallback, result});
-         throw new Error(`Falha ao gerar fala: Dados de áudio não encontrados. O modelo retornou o texto: "${textFallback.substring(0,100)}..." Isso pode indicar um problema com a configuração TTS ou a validade do nome da voz para o modelo selecionado.`);
-      }
-      console.error("A resposta TTS não continha dados de áudio nem texto alternativo:", result);
-      throw new Error("Falha ao gerar fala: Sem dados de áudio na resposta e sem texto alternativo. Verifique as capacidades do modelo e a configuração TTS.");
-    }
-  } catch (error) {
-    console.error("Erro ao gerar fala:", error);
-    throw new Error(`Falha ao gerar fala: ${error instanceof Error ? error.message : String(error)}`);
+  return synthesizeToDataUrl(speechProvider, speechSettings, textToSynthesize);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Sintetiza o laudo seção por seção e combina os trechos num único WAV. Seções cujo texto falado e
+// configurações de voz não mudaram reaproveitam o áudio de `cachedSegments` (ex.: após uma edição).
+export async function generateSectionedSpeech(
+  reportText: string,
+  cachedSegments: ReportAudioSegment[] = [],
+): Promise<{ audioDataUrl: string; segments: ReportAudioSegment[] }> {
+  const sections = splitReportForSpeech(reportText);
+  if (sections.length === 0) {
+    throw new Error("Não é possível gerar fala a partir de texto vazio.");
+  }
+  const cache = new Map(cachedSegments.map(segment => [segment.hash, segment.audioDataUrl]));
+  const settingsKey = JSON.stringify([speechVoiceKey, speechSettings.style, speechSettings.rate]);
+
+  const sectionAudio: { hash: string; audioDataUrl: string }[] = [];
+  for (const section of sections) {
+    const hash = await sha256Hex(`${settingsKey}\n${applyPronunciationLexicon(section.text, speechSettings.lexicon)}`);
+    const audioDataUrl = cache.get(hash) ?? await synthesizeToDataUrl(speechProvider, speechSettings, section.text);
+    cache.set(hash, audioDataUrl);
+    sectionAudio.push({ hash, audioDataUrl });
   }
+
+  const { wav, durations } = concatenateWavs(
+    sectionAudio.map(({ audioDataUrl }) => base64ToBytes(parseAudioDataUrl(audioDataUrl).base64)),
+    SECTION_GAP_SECONDS,
+  );
+  let startSeconds = 0;
+  const segments = sections.map((section, index) => {
+    const segment: ReportAudioSegment = {
+      label: section.label,
+      hash: sectionAudio[index].hash,
+      audioDataUrl: sectionAudio[index].audioDataUrl,
+      startSeconds,
+      durationSeconds: durations[index],
+      startLine: section.startLine,
+      endLine: section.endLine,
+    };
+    startSeconds += durations[index] + SECTION_GAP_SECONDS;
+    return segment;
+  });
+  return { audioDataUrl: `data:audio/wav;base64,${bytesToBase64(wav)}`, segments };
+}
+
+// Amostra curta com configurações ainda não aplicadas, para ouvir a voz antes de escolhê-la.
+export async function previewSpeech(providerSettings: ProviderSettings, settings: SpeechSettings, text: string = SPEECH_PREVIEW_TEXT): Promise<string> {
+  return synthesizeToDataUrl(createSpeechProvider(providerSettings), settings, text);
 }
 
+// Transcreve uma gravação do ditado; os comandos falados são interpretados depois, em services/dictation.ts.
+export async function transcribeDictation(recording: Blob): Promise<string> {
+  if (recording.size === 0) {
+    throw new Error("Nenhum áudio foi gravado.");
+  }
+  const audio = await convertRecordingToWav(recording);
+  return (await transcriptionProvider.transcribeAudio(audio)).trim();
+}
+
+// As imagens por URL são baixadas pelo servidor proxy, o que evita bloqueios de CORS no navegador.
 export async function fetchImageAsBase64(imageUrl: string): Promise<{ base64: string; mimeType: string }> {
   try {
-    const response = await fetch(imageUrl);
+    const response = await fetch(`${API_BASE_PATH}/fetch-image?url=${encodeURIComponent(imageUrl)}`);
     if (!response.ok) {
-      throw new Error(`Falha ao buscar imagem: ${response.status} ${response.statusText}`);
+      throw new Error(await describeHttpError(response));
     }
-    const blob = await response.blob();
-    const mimeType = blob.type || 'image/jpeg'; // Default to jpeg if type is not present
-
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (typeof reader.result === 'string') {
-          resolve({ base64: reader.result.split(',')[1], mimeType });
-        } else {
-          reject(new Error("Falha ao ler a imagem como string base64."));
-        }
-      };
-      reader.onerror = () => {
-        reject(new Error("Erro ao ler arquivo de imagem."));
-      };
-      reader.readAsDataURL(blob);
-    });
+    return await response.json();
   } catch (error) {
     console.error("Erro ao buscar imagem da URL:", error);
-    throw new Error(`Falha ao buscar imagem da URL: ${error instanceof Error ? error.message : String(error)}. Isso pode ser devido à política CORS no servidor da imagem.`);
+    throw new Error(`Falha ao buscar imagem da URL: ${error instanceof Error ? error.message : String(error)}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,176 @@
+import { ReportExportInput, ReportStatus } from '../types';
+import { parseReportSections } from './structuredReport';
+import { latestSignOff } from './reportStatus';
+
+// Mensagem HL7 v2.5 ORU^R01 com o laudo em texto: um OBX por linha, agrupados por seção (OBX-4).
+
+export const HL7_CONTENT_TYPE = 'x-application/hl7-v2+er7; charset=utf-8';
+
+const SENDING_APPLICATION = 'RAINER';
+
+// OBR-25 / OBX-11: R = não verificado, P = preliminar, F = final, C = corrigido (adendo).
+export const HL7_RESULT_STATUS: Record<ReportStatus, string> = {
+  draft: 'R',
+  'in-review': 'R',
+  preliminary: 'P',
+  final: 'F',
+  addendum: 'C',
+};
+
+const VALID_RESULT_STATUSES = ['R', 'P', 'F', 'C'];
+const VALID_OBX_VALUE_TYPES = ['TX', 'ST', 'FT'];
+
+export interface Hl7Options {
+  sendingFacility: string;
+  receivingApplication: string;
+  receivingFacility: string;
+  controlId?: string;
+}
+
+// Escapa os delimitadores padrão (|^~\&) e troca quebras de linha por espaço, já que \r separa segmentos.
+// O laudo é dividido por linha antes; sobram o \r de textos com CRLF e quebras em campos avulsos.
+export function escapeHl7(value: string): string {
+  return value
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/[\r\n]+/g, ' ');
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// AAAAMMDDHHMMSS+ZZZZ no fuso local.
+export function formatHl7DateTime(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    + `${sign}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+}
+
+// 'AAAA-MM-DD' → 'AAAAMMDD'
+const toHl7Date = (value: string) => value.replace(/-/g, '');
+
+// XPN: Sobrenome^Nomes. O último termo do nome completo é o sobrenome.
+function formatPersonName(fullName: string): string {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return escapeHl7(parts[0] ?? '');
+  return `${escapeHl7(parts[parts.length - 1])}^${escapeHl7(parts.slice(0, -1).join(' '))}`;
+}
+
+// LOINC da seção: impressão e adendo têm códigos próprios; as demais seções são observações narrativas.
+function sectionCode(label: string): string {
+  const normalized = label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+  if (normalized.startsWith('IMPRESS') || normalized.startsWith('CONCLUS')) return `19005-8^${escapeHl7(label)}^LN`;
+  return `18782-3^${escapeHl7(label || 'Laudo')}^LN`;
+}
+
+export function buildOruR01(input: ReportExportInput, options: Hl7Options): string {
+  const { identifiers, report, issuedAt } = input;
+  const resultStatus = HL7_RESULT_STATUS[report.status];
+  const signOff = latestSignOff(report);
+  const timestamp = formatHl7DateTime(issuedAt);
+  const controlId = options.controlId ?? `${Date.now()}`;
+  const accession = escapeHl7(identifiers.accessionNumber.trim());
+  const observationDate = identifiers.studyDate ? toHl7Date(identifiers.studyDate) : timestamp;
+  // OBR-32 usa subcomponentes (registro&nome); o & do texto já sai escapado.
+  const interpreter = signOff ? `${escapeHl7(signOff.registry)}&${escapeHl7(signOff.name)}` : '';
+  const responsibleObserver = signOff ? `${escapeHl7(signOff.registry)}^${escapeHl7(signOff.name)}` : '';
+
+  const segments: string[] = [
+    ['MSH', '^~\\&', SENDING_APPLICATION, escapeHl7(options.sendingFacility), escapeHl7(options.receivingApplication), escapeHl7(options.receivingFacility),
+      timestamp, '', 'ORU^R01^ORU_R01', escapeHl7(controlId), 'P', '2.5', '', '', '', '', '', 'UNICODE UTF-8'].join('|'),
+    ['PID', '1', '', `${escapeHl7(identifiers.patientId.trim())}^^^^MR`, '', formatPersonName(identifiers.patientName),
+      '', toHl7Date(identifiers.birthDate), identifiers.sex].join('|'),
+    ['ORC', 'RE', accession, accession].join('|'),
+  ];
+
+  const obr = ['OBR', '1', accession, accession,
+    `18748-4^Diagnostic imaging study^LN^${escapeHl7(identifiers.modality)}^${escapeHl7(identifiers.studyDescription)}^L`];
+  obr[7] = observationDate;
+  obr[16] = identifiers.orderingProvider.trim() ? `^${formatPersonName(identifiers.orderingProvider)}` : '';
+  obr[22] = timestamp;
+  obr[24] = 'RAD';
+  obr[25] = resultStatus;
+  obr[32] = interpreter;
+  segments.push(Array.from(obr, field => field ?? '').join('|'));
+
+  let setId = 0;
+  const pushObx = (valueType: string, code: string, subId: string, value: string) => {
+    setId++;
+    segments.push(['OBX', `${setId}`, valueType, code, subId, value, '', '', '', '', '', resultStatus, '', '', timestamp, '', responsibleObserver].join('|'));
+  };
+
+  const { title, sections } = parseReportSections(report.text);
+  pushObx('TX', '18782-3^Título^LN', '0', escapeHl7(title));
+  sections.forEach((section, index) => {
+    const lines = section.content.split('\n').filter(line => line.trim());
+    const values = section.label ? [`${section.label}:`, ...lines] : lines;
+    values.forEach(line => pushObx('TX', sectionCode(section.label), `${index + 1}`, escapeHl7(line)));
+  });
+  report.addenda.forEach((addendum, index) => {
+    const subId = `${sections.length + index + 1}`;
+    pushObx('TX', `55107-7^Adendo ${index + 1}^LN`, subId, escapeHl7(`Adendo ${index + 1} - ${addendum.name} (${addendum.registry}) ${formatHl7DateTime(new Date(addendum.signedAt))}`));
+    addendum.text.split('\n').filter(line => line.trim()).forEach(line => pushObx('TX', `55107-7^Adendo ${index + 1}^LN`, subId, escapeHl7(line)));
+  });
+  if (identifiers.studyInstanceUid.trim()) {
+    pushObx('ST', '113014^DICOM Study^DCM', '', escapeHl7(identifiers.studyInstanceUid.trim()));
+  }
+
+  return segments.join('\r');
+}
+
+// Verificação estrutural da mensagem: segmentos obrigatórios, ordem e campos exigidos pelo ORU^R01.
+// Devolve a lista de problemas; vazia quando a mensagem está correta.
+export function validateOruR01(message: string): string[] {
+  const errors: string[] = [];
+  const segments = message.split(/\r\n?|\n/).filter(Boolean).map(segment => segment.split('|'));
+  const names = segments.map(fields => fields[0]);
+  const bad = names.filter(name => !/^[A-Z][A-Z0-9]{2}$/.test(name));
+  if (bad.length > 0) errors.push(`Segmentos com nome inválido: ${bad.join(', ')}.`);
+
+  const msh = segments[0];
+  if (!msh || msh[0] !== 'MSH') {
+    return [...errors, "A mensagem deve começar pelo segmento MSH."];
+  }
+  // No MSH, o campo 1 é o próprio separador: MSH-n está em fields[n - 1].
+  if (msh[1] !== '^~\\&') errors.push("MSH-2 deve conter os caracteres de codificação ^~\\&.");
+  if (!msh[6]) errors.push("MSH-7 (data/hora da mensagem) é obrigatório.");
+  if (!msh[8]?.startsWith('ORU^R01')) errors.push("MSH-9 deve ser ORU^R01.");
+  if (!msh[9]) errors.push("MSH-10 (identificador da mensagem) é obrigatório.");
+  if (!['P', 'T', 'D'].includes(msh[10])) errors.push("MSH-11 (processamento) deve ser P, T ou D.");
+  if (msh[11] !== '2.5') errors.push("MSH-12 deve ser a versão 2.5.");
+
+  const pidIndex = names.indexOf('PID');
+  const obrIndex = names.indexOf('OBR');
+  if (pidIndex < 0) {
+    errors.push("Segmento PID ausente.");
+  } else {
+    const pid = segments[pidIndex];
+    if (!pid[3]?.split('^')[0]) errors.push("PID-3 (identificador do paciente) é obrigatório.");
+    if (!pid[5]?.replace(/\^/g, '')) errors.push("PID-5 (nome do paciente) é obrigatório.");
+    if (pid[7] && !/^\d{8}$/.test(pid[7])) errors.push("PID-7 (nascimento) deve estar no formato AAAAMMDD.");
+  }
+  if (obrIndex < 0) {
+    errors.push("Segmento OBR ausente.");
+  } else {
+    const obr = segments[obrIndex];
+    if (pidIndex > obrIndex) errors.push("O PID deve vir antes do OBR.");
+    if (!obr[2] && !obr[3]) errors.push("OBR-2 ou OBR-3 (número de acesso) é obrigatório.");
+    if (!obr[4]) errors.push("OBR-4 (procedimento) é obrigatório.");
+    if (!VALID_RESULT_STATUSES.includes(obr[25])) errors.push("OBR-25 (status do resultado) inválido.");
+  }
+  const obxSegments = segments.filter(fields => fields[0] === 'OBX');
+  if (obxSegments.length === 0) errors.push("A mensagem não tem segmentos OBX com o laudo.");
+  obxSegments.forEach((obx, index) => {
+    if (obx[1] !== `${index + 1}`) errors.push(`OBX-1 fora de sequência no OBX ${index + 1}.`);
+    if (!VALID_OBX_VALUE_TYPES.includes(obx[2])) errors.push(`OBX-2 (tipo de valor) inválido no OBX ${index + 1}.`);
+    if (!obx[3]) errors.push(`OBX-3 (identificador da observação) ausente no OBX ${index + 1}.`);
+    if (!VALID_RESULT_STATUSES.includes(obx[11])) errors.push(`OBX-11 (status) inválido no OBX ${index + 1}.`);
+  });
+  if (obrIndex >= 0 && names.findIndex(name => name === 'OBX') < obrIndex) {
+    errors.push("Os OBX devem vir depois do OBR.");
+  }
+  return errors;
+}
@@ -0,0 +1,71 @@
+import { DicomPixelData } from '../types';
+import { renderPixelData } from './dicomService';
+
+export interface WindowLevel {
+  center: number;
+  width: number;
+}
+
+export interface WindowPreset extends WindowLevel {
+  id: string;
+  label: string;
+}
+
+// Presets clássicos em unidades Hounsfield; só fazem sentido sobre valores de pixel DICOM.
+export const WINDOW_PRESETS: WindowPreset[] = [
+  { id: 'lung', label: 'Pulmão', center: -600, width: 1500 },
+  { id: 'bone', label: 'Osso', center: 400, width: 1800 },
+  { id: 'soft-tissue', label: 'Partes moles', center: 40, width: 400 },
+  { id: 'brain', label: 'Cérebro', center: 40, width: 80 },
+];
+
+// Janela que reproduz a imagem original: a janela do próprio DICOM ou toda a faixa de 8 bits.
+export function getDefaultWindowLevel(pixelData: DicomPixelData | null | undefined): WindowLevel {
+  if (pixelData && pixelData.samplesPerPixel === 1) {
+    return {
+      center: pixelData.windowCenter ?? (pixelData.minValue + pixelData.maxValue) / 2,
+      width: pixelData.windowWidth ?? Math.max(1, pixelData.maxValue - pixelData.minValue),
+    };
+  }
+  return { center: 128, width: 256 };
+}
+
+// Aplica window/level a uma imagem comum de 8 bits, canal a canal.
+export function applyWindowLevelToImageData(source: ImageData, windowLevel: WindowLevel, invert: boolean): ImageData {
+  const output = new ImageData(source.width, source.height);
+  const lower = windowLevel.center - windowLevel.width / 2;
+  const width = Math.max(1, windowLevel.width);
+  const lookup = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    const mapped = ((v - lower) / width) * 255;
+    lookup[v] = invert ? 255 - mapped : mapped;
+  }
+  const src = source.data;
+  const out = output.data;
+  for (let i = 0; i < src.length; i += 4) {
+    out[i] = lookup[src[i]];
+    out[i + 1] = lookup[src[i + 1]];
+    out[i + 2] = lookup[src[i + 2]];
+    out[i + 3] = src[i + 3];
+  }
+  return output;
+}
+
+// Gera os pixels exibidos: janelamento sobre os valores DICOM originais quando disponíveis,
+// senão sobre os pixels da imagem de pré-visualização.
+export function renderAdjustedImage(
+  source: ImageData,
+  pixelData: DicomPixelData | null | undefined,
+  windowLevel: WindowLevel,
+  invert: boolean,
+): ImageData {
+  if (pixelData && pixelData.samplesPerPixel === 1) {
+    // MONOCHROME1 já é invertido por padrão; o botão "Inverter" alterna a partir desse estado.
+    return renderPixelData(pixelData, {
+      windowCenter: windowLevel.center,
+      windowWidth: windowLevel.width,
+      invert: pixelData.invert !== invert,
+    });
+  }
+  return applyWindowLevelToImageData(source, windowLevel, invert);
+}
@@ -0,0 +1,376 @@
+import { ImageCrop, ImagePreprocessing, PreprocessedImageFormat, PreprocessingSettings, ProcessedImageFile, ProviderId } from '../types';
+
+// Pré-processamento das imagens carregadas: orientação, recorte, redução ao lado máximo configurado,
+// normalização de contraste (CLAHE) e conversão de formato, tudo no navegador. A receita fica no
+// arquivo e cada alteração é refeita a partir da imagem de origem.
+
+export const DEFAULT_PREPROCESSING_SETTINGS: PreprocessingSettings = {
+  maxDimension: 1536,
+  outputFormat: 'image/jpeg',
+  normalizeContrast: false,
+};
+
+export const MAX_DIMENSION_OPTIONS = [768, 1024, 1536, 2048, 3072];
+
+export const OUTPUT_FORMAT_LABELS: Record<PreprocessedImageFormat, string> = {
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/png': 'PNG (sem perdas)',
+};
+
+const ENCODER_QUALITY = 0.9;
+const CLAHE_TILES = 8;
+const CLAHE_CLIP_LIMIT = 2.5;
+const FULL_FRAME: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+export type ImageGeometryEdit =
+  | { kind: 'rotate' } // 90° no sentido horário
+  | { kind: 'flip'; axis: 'horizontal' | 'vertical' }
+  | { kind: 'crop'; rect: ImageCrop } // Frações da imagem resultante atual
+  | { kind: 'resetCrop' };
+
+type PreprocessingRecipe = Omit<ImagePreprocessing, 'sourceWidth' | 'sourceHeight' | 'width' | 'height'>;
+
+interface PixelSource {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // RGBA
+}
+
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// CLAHE sobre a luminância: histogramas equalizados por bloco, com teto para não amplificar ruído,
+// interpolados entre os centros dos blocos. Nas imagens coloridas a mesma variação de luminância é
+// somada aos três canais, preservando a cor.
+export function applyClahe(image: PixelSource, tiles = CLAHE_TILES, clipLimit = CLAHE_CLIP_LIMIT): Uint8ClampedArray {
+  const { width, height, data } = image;
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < luminance.length; i += 4, p++) {
+    luminance[p] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+
+  const tilesX = Math.min(tiles, width);
+  const tilesY = Math.min(tiles, height);
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+  const lookups = new Uint8Array(tilesX * tilesY * 256);
+  const histogram = new Uint32Array(256);
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x1 = Math.floor(tx * tileWidth);
+      const x2 = tx === tilesX - 1 ? width : Math.floor((tx + 1) * tileWidth);
+      const y1 = Math.floor(ty * tileHeight);
+      const y2 = ty === tilesY - 1 ? height : Math.floor((ty + 1) * tileHeight);
+      histogram.fill(0);
+      for (let y = y1; y < y2; y++) {
+        for (let x = x1; x < x2; x++) histogram[luminance[y * width + x]]++;
+      }
+      const count = (x2 - x1) * (y2 - y1);
+      const limit = Math.max(1, Math.floor(clipLimit * count / 256));
+      let excess = 0;
+      for (let bin = 0; bin < 256; bin++) {
+        if (histogram[bin] > limit) {
+          excess += histogram[bin] - limit;
+          histogram[bin] = limit;
+        }
+      }
+      // O excedente volta distribuído por toda a faixa; a sobra da divisão, em passos regulares.
+      const increment = Math.floor(excess / 256);
+      const remainder = excess % 256;
+      const step = remainder > 0 ? Math.floor(256 / remainder) : 256;
+      const offset = (ty * tilesX + tx) * 256;
+      let cumulative = 0;
+      for (let bin = 0; bin < 256; bin++) {
+        cumulative += histogram[bin] + increment + (bin % step === 0 && bin / step < remainder ? 1 : 0);
+        lookups[offset + bin] = Math.round(cumulative * 255 / count);
+      }
+    }
+  }
+
+  // Bloco vizinho e peso de interpolação por coluna e por linha, calculados uma única vez.
+  const neighbours = (size: number, tileSize: number, tileCount: number) => {
+    const first = new Uint16Array(size);
+    const weight = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const position = (i + 0.5) / tileSize - 0.5;
+      const index = Math.floor(position);
+      if (index < 0) {
+        first[i] = 0;
+      } else if (index >= tileCount - 1) {
+        first[i] = tileCount - 1;
+      } else {
+        first[i] = index;
+        weight[i] = position - index;
+      }
+    }
+    return { first, weight };
+  };
+  const columns = neighbours(width, tileWidth, tilesX);
+  const rows = neighbours(height, tileHeight, tilesY);
+
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const ty0 = rows.first[y];
+    const ty1 = Math.min(ty0 + 1, tilesY - 1);
+    const fy = rows.weight[y];
+    for (let x = 0; x < width; x++) {
+      const tx0 = columns.first[x];
+      const tx1 = Math.min(tx0 + 1, tilesX - 1);
+      const fx = columns.weight[x];
+      const value = luminance[y * width + x];
+      const top = lookups[(ty0 * tilesX + tx0) * 256 + value] * (1 - fx) + lookups[(ty0 * tilesX + tx1) * 256 + value] * fx;
+      const bottom = lookups[(ty1 * tilesX + tx0) * 256 + value] * (1 - fx) + lookups[(ty1 * tilesX + tx1) * 256 + value] * fx;
+      const delta = top * (1 - fy) + bottom * fy - value;
+      const i = (y * width + x) * 4;
+      output[i] = data[i] + delta;
+      output[i + 1] = data[i + 1] + delta;
+      output[i + 2] = data[i + 2] + delta;
+      output[i + 3] = data[i + 3];
+    }
+  }
+  return output;
+}
+
+// Retângulos em frações (regiões, tarjas, recorte) acompanham cada alteração de geometria.
+const rotateRect = <T extends ImageCrop>(rect: T): T =>
+  ({ ...rect, x: 1 - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width });
+const flipRect = <T extends ImageCrop>(rect: T, axis: 'horizontal' | 'vertical'): T => axis === 'horizontal'
+  ? { ...rect, x: 1 - rect.x - rect.width }
+  : { ...rect, y: 1 - rect.y - rect.height };
+
+// Posição do retângulo dentro do recorte; null quando fica de fora.
+function cropRect<T extends ImageCrop>(rect: T, crop: ImageCrop): T | null {
+  const x1 = Math.max(0, (rect.x - crop.x) / crop.width);
+  const y1 = Math.max(0, (rect.y - crop.y) / crop.height);
+  const x2 = Math.min(1, (rect.x + rect.width - crop.x) / crop.width);
+  const y2 = Math.min(1, (rect.y + rect.height - crop.y) / crop.height);
+  if (x2 <= x1 || y2 <= y1) return null;
+  return { ...rect, x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+const uncropRect = <T extends ImageCrop>(rect: T, crop: ImageCrop): T => ({
+  ...rect,
+  x: crop.x + rect.x * crop.width,
+  y: crop.y + rect.y * crop.height,
+  width: rect.width * crop.width,
+  height: rect.height * crop.height,
+});
+
+// Leva um retângulo da imagem resultante antes da alteração para a imagem resultante depois dela.
+export function mapRectThroughEdit<T extends ImageCrop>(rect: T, edit: ImageGeometryEdit, previousCrop: ImageCrop | undefined): T | null {
+  switch (edit.kind) {
+    case 'rotate': return rotateRect(rect);
+    case 'flip': return flipRect(rect, edit.axis);
+    case 'crop': return cropRect(rect, edit.rect);
+    case 'resetCrop': return previousCrop ? uncropRect(rect, previousCrop) : rect;
+  }
+}
+
+// A orientação é guardada como espelhamento horizontal seguido de rotação; qualquer sequência de
+// giros e espelhamentos se reduz a essa forma (espelhar depois de girar k graus equivale a espelhar
+// antes e girar -k; o vertical é o horizontal seguido de 180°).
+function applyGeometryEdit(recipe: PreprocessingRecipe, edit: ImageGeometryEdit): PreprocessingRecipe {
+  const normalize = (degrees: number) => (((degrees % 360) + 360) % 360) as ImagePreprocessing['rotation'];
+  switch (edit.kind) {
+    case 'rotate':
+      return { ...recipe, rotation: normalize(recipe.rotation + 90), crop: recipe.crop && rotateRect(recipe.crop) };
+    case 'flip':
+      return {
+        ...recipe,
+        flipHorizontal: !recipe.flipHorizontal,
+        rotation: normalize((edit.axis === 'horizontal' ? 0 : 180) - recipe.rotation),
+        crop: recipe.crop && flipRect(recipe.crop, edit.axis),
+      };
+    case 'crop':
+      return { ...recipe, crop: recipe.crop ? uncropRect(edit.rect, recipe.crop) : edit.rect };
+    case 'resetCrop':
+      return { ...recipe, crop: undefined };
+  }
+}
+
+// Resultado com os mesmos pixels da origem: só então o janelamento pode partir dos valores DICOM.
+export function isSourceFrame(preprocessing: ImagePreprocessing | undefined): boolean {
+  return !preprocessing || (
+    preprocessing.rotation === 0 && !preprocessing.flipHorizontal && !preprocessing.crop && !preprocessing.normalizeContrast
+    && preprocessing.width === preprocessing.sourceWidth && preprocessing.height === preprocessing.sourceHeight
+  );
+}
+
+// mm por pixel [linha, coluna] da imagem resultante, para a régua continuar correta após girar e reduzir.
+export function outputPixelSpacing(pixelSpacing: [number, number] | undefined, preprocessing: ImagePreprocessing | undefined): [number, number] | undefined {
+  if (!pixelSpacing || !preprocessing) return pixelSpacing;
+  const quarterTurn = preprocessing.rotation % 180 !== 0;
+  const [rowSpacing, columnSpacing] = quarterTurn ? [pixelSpacing[1], pixelSpacing[0]] : pixelSpacing;
+  const orientedWidth = quarterTurn ? preprocessing.sourceHeight : preprocessing.sourceWidth;
+  const scale = (orientedWidth * (preprocessing.crop ?? FULL_FRAME).width) / preprocessing.width;
+  return [rowSpacing * scale, columnSpacing * scale];
+}
+
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} MB`;
+}
+
+// Regras publicadas de contagem de tokens por imagem; servem apenas como estimativa antes do envio.
+export function estimateImageTokens(width: number, height: number, provider: ProviderId): number {
+  if (provider === 'openai-compatible') {
+    // Alta resolução: cabe em 2048×2048, lado menor reduzido a 768, blocos de 512 px (170 tokens) + 85.
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    const shortSide = Math.min(1, 768 / (Math.min(width, height) * fit));
+    return 85 + 170 * Math.ceil(width * fit * shortSide / 512) * Math.ceil(height * fit * shortSide / 512);
+  }
+  // Gemini: até 384 px nos dois lados custa 258 tokens; acima disso, blocos de 768×768 com 258 cada.
+  if (width <= 384 && height <= 384) return 258;
+  return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+}
+
+export function estimateImageCost(file: ProcessedImageFile, provider: ProviderId): { bytes: number; tokens: number | null } {
+  return {
+    bytes: base64ByteLength(file.base64),
+    tokens: file.preprocessing ? estimateImageTokens(file.preprocessing.width, file.preprocessing.height, provider) : null,
+  };
+}
+
+// Total dos arquivos; os que não têm dimensões conhecidas (estudos antigos) ficam fora dos tokens.
+export function estimateUploadCost(files: ProcessedImageFile[], provider: ProviderId): { bytes: number; tokens: number; unmeasured: number } {
+  return files.reduce((total, file) => {
+    const cost = estimateImageCost(file, provider);
+    return {
+      bytes: total.bytes + cost.bytes,
+      tokens: total.tokens + (cost.tokens ?? 0),
+      unmeasured: total.unmeasured + (cost.tokens === null ? 1 : 0),
+    };
+  }, { bytes: 0, tokens: 0, unmeasured: 0 });
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Não foi possível decodificar a imagem."));
+    image.src = dataUrl;
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D indisponível neste navegador.");
+  }
+  context.imageSmoothingQuality = 'high';
+  return { canvas, context };
+}
+
+async function renderRecipe(recipe: PreprocessingRecipe, settings: PreprocessingSettings): Promise<Pick<ProcessedImageFile, 'mimeType' | 'base64' | 'previewUrl' | 'preprocessing'>> {
+  const image = await loadImage(recipe.sourceDataUrl);
+  const sourceWidth = image.naturalWidth;
+  const sourceHeight = image.naturalHeight;
+  const quarterTurn = recipe.rotation % 180 !== 0;
+  const oriented = createCanvas(quarterTurn ? sourceHeight : sourceWidth, quarterTurn ? sourceWidth : sourceHeight);
+  oriented.context.translate(oriented.canvas.width / 2, oriented.canvas.height / 2);
+  oriented.context.rotate(recipe.rotation * Math.PI / 180);
+  if (recipe.flipHorizontal) oriented.context.scale(-1, 1);
+  oriented.context.drawImage(image, -sourceWidth / 2, -sourceHeight / 2);
+
+  const crop = recipe.crop ?? FULL_FRAME;
+  let stage = {
+    canvas: oriented.canvas,
+    x: Math.round(crop.x * oriented.canvas.width),
+    y: Math.round(crop.y * oriented.canvas.height),
+    width: Math.max(1, Math.round(crop.width * oriented.canvas.width)),
+    height: Math.max(1, Math.round(crop.height * oriented.canvas.height)),
+  };
+  const target = fitWithin(stage.width, stage.height, settings.maxDimension);
+  // Reduções grandes são feitas pela metade em etapas; um único drawImage serrilha bordas finas.
+  while (stage.width >= target.width * 2 && stage.height >= target.height * 2) {
+    const half = createCanvas(Math.round(stage.width / 2), Math.round(stage.height / 2));
+    half.context.drawImage(stage.canvas, stage.x, stage.y, stage.width, stage.height, 0, 0, half.canvas.width, half.canvas.height);
+    stage = { canvas: half.canvas, x: 0, y: 0, width: half.canvas.width, height: half.canvas.height };
+  }
+  const output = createCanvas(target.width, target.height);
+  output.context.drawImage(stage.canvas, stage.x, stage.y, stage.width, stage.height, 0, 0, target.width, target.height);
+
+  if (recipe.normalizeContrast) {
+    const pixels = output.context.getImageData(0, 0, target.width, target.height);
+    pixels.data.set(applyClahe(pixels));
+    output.context.putImageData(pixels, 0, 0);
+  }
+
+  const previewUrl = output.canvas.toDataURL(settings.outputFormat, ENCODER_QUALITY);
+  return {
+    // Navegadores sem codificador WebP devolvem PNG; o tipo vem do próprio resultado.
+    mimeType: previewUrl.slice('data:'.length, previewUrl.indexOf(';')),
+    base64: previewUrl.split(',')[1],
+    previewUrl,
+    preprocessing: { ...recipe, sourceWidth, sourceHeight, width: target.width, height: target.height },
+  };
+}
+
+// Estudos salvos antes do pré-processamento usam a própria imagem enviada como origem.
+const recipeOf = (file: ProcessedImageFile): PreprocessingRecipe => file.preprocessing ?? {
+  sourceDataUrl: file.previewUrl,
+  originalBytes: base64ByteLength(file.base64),
+  flipHorizontal: false,
+  rotation: 0,
+  normalizeContrast: false,
+};
+
+async function render(file: ProcessedImageFile, recipe: PreprocessingRecipe, settings: PreprocessingSettings): Promise<ProcessedImageFile> {
+  try {
+    return { ...file, ...await renderRecipe(recipe, settings) };
+  } catch (error) {
+    console.error("Erro ao pré-processar imagem:", error);
+    throw new Error(`Falha ao pré-processar "${file.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Primeira passagem de um arquivo recém-carregado (ou DICOM já renderizado).
+export function preprocessImage(file: ProcessedImageFile, originalBytes: number, settings: PreprocessingSettings): Promise<ProcessedImageFile> {
+  return render(file, {
+    sourceDataUrl: file.previewUrl,
+    originalBytes,
+    flipHorizontal: false,
+    rotation: 0,
+    normalizeContrast: settings.normalizeContrast,
+  }, settings);
+}
+
+// Refaz o resultado com outras configurações ou outro contraste, sem mudar a geometria.
+export function reprocessImage(file: ProcessedImageFile, settings: PreprocessingSettings, changes: Pick<Partial<ImagePreprocessing>, 'normalizeContrast'> = {}): Promise<ProcessedImageFile> {
+  return render(file, { ...recipeOf(file), ...changes }, settings);
+}
+
+// Gira, espelha ou recorta, levando junto as regiões de interesse e as tarjas.
+export async function editImageGeometry(file: ProcessedImageFile, edit: ImageGeometryEdit, settings: PreprocessingSettings): Promise<ProcessedImageFile> {
+  const recipe = recipeOf(file);
+  const mapRects = <T extends ImageCrop>(rects: T[]) =>
+    rects.flatMap(rect => mapRectThroughEdit(rect, edit, recipe.crop) ?? []);
+  const edited = await render(file, applyGeometryEdit(recipe, edit), settings);
+  return {
+    ...edited,
+    annotation: file.annotation?.regions ? { ...file.annotation, regions: mapRects(file.annotation.regions) } : file.annotation,
+    redaction: file.redaction && { ...file.redaction, boxes: mapRects(file.redaction.boxes) },
+  };
+}
+
+// "Usar imagem ajustada": a imagem com janela/nível vira a nova origem, com geometria e contraste já embutidos.
+export function replaceSourceImage(file: ProcessedImageFile, dataUrl: string, settings: PreprocessingSettings): Promise<ProcessedImageFile> {
+  return render(file, {
+    sourceDataUrl: dataUrl,
+    originalBytes: recipeOf(file).originalBytes,
+    flipHorizontal: false,
+    rotation: 0,
+    normalizeContrast: false,
+  }, settings);
+}
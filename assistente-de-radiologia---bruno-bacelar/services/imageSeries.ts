@@ -0,0 +1,271 @@
+import { DicomMetadata, ImageSeries, ProcessedImageFile, SeriesFrame } from '../types';
+import { DicomSource, decodeDicomFrame, isDicomFile, loadDicomFile, renderDicomFrame, renderPixelData } from './dicomService';
+
+// Séries de imagens (pastas de DICOM, arquivos multiquadro, sequências de PNG/JPEG): agrupamento e
+// ordenação dos cortes, decodificação sob demanda de cada corte e escolha automática de cortes-chave.
+
+// Lado da miniatura em tons de cinza comparada entre cortes na escolha automática.
+const SIGNATURE_SIZE = 16;
+// Cortes com variação abaixo desta fração da maior variação da série são tratados como vazios.
+const EMPTY_FRAME_SPREAD = 0.1;
+
+// Arquivo carregado e o tamanho que ocupava antes do pré-processamento.
+export interface LoadedImage {
+  file: ProcessedImageFile;
+  originalBytes: number;
+}
+
+interface PixelSource {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // RGBA
+}
+
+// Arquivos multiquadro ficam lidos enquanto a série existir; os de um quadro são relidos a cada exibição.
+const multiFrameSources = new WeakMap<File, DicomSource>();
+
+const pathOf = (file: File) => file.webkitRelativePath || file.name;
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// ex: "Corte 12/240 · 35 mm"
+function frameLabel(prefix: string, index: number, count: number, sliceLocation?: number): string {
+  const position = sliceLocation !== undefined
+    ? ` · ${sliceLocation.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} mm`
+    : '';
+  return `${prefix} ${index + 1}/${count}${position}`;
+}
+
+// Ordena pelo número da instância ou, na falta dele, pela posição do corte; sem nenhum dos dois, mantém o nome do arquivo.
+function sortSlices(entries: { file: File; metadata: DicomMetadata }[]) {
+  for (const key of ['instanceNumber', 'sliceLocation'] as const) {
+    if (entries.every(entry => entry.metadata[key] !== undefined)) {
+      entries.sort((a, b) => a.metadata[key]! - b.metadata[key]!);
+      return;
+    }
+  }
+}
+
+// Série de um DICOM multiquadro já lido; o arquivo fica guardado para a decodificação dos quadros.
+export function createMultiFrameSeries(file: File, source: DicomSource): ImageSeries {
+  multiFrameSources.set(file, source);
+  return {
+    id: crypto.randomUUID(),
+    name: source.metadata.seriesDescription || file.name,
+    modality: source.metadata.modality,
+    frames: Array.from({ length: source.numberOfFrames }, (_, frameIndex) => ({
+      file,
+      kind: 'dicom' as const,
+      frameIndex,
+      label: frameLabel('Quadro', frameIndex, source.numberOfFrames),
+    })),
+    keyFrames: [],
+  };
+}
+
+// Agrupa os arquivos por série DICOM; cada DICOM multiquadro vira uma série, e as imagens comuns
+// formam uma série ordenada pelo nome. Arquivos sem imagem (DICOMDIR, textos) são ignorados.
+export async function loadSeries(files: File[], onProgress?: (done: number, total: number) => void): Promise<{ series: ImageSeries[]; skipped: number }> {
+  const sortedFiles = [...files].sort((a, b) => naturalCompare(pathOf(a), pathOf(b)));
+  const dicomGroups = new Map<string, { file: File; metadata: DicomMetadata }[]>();
+  const imageFiles: File[] = [];
+  const series: ImageSeries[] = [];
+  let skipped = 0;
+
+  for (const [index, file] of sortedFiles.entries()) {
+    onProgress?.(index, sortedFiles.length);
+    const headerBytes = new Uint8Array(await file.slice(0, 132).arrayBuffer());
+    if (isDicomFile(file, headerBytes)) {
+      let source: DicomSource;
+      try {
+        source = await loadDicomFile(file);
+      } catch (error) {
+        console.warn(`Arquivo "${pathOf(file)}" ignorado na série:`, error);
+        skipped++;
+        continue;
+      }
+      if (source.numberOfFrames > 1) {
+        series.push(createMultiFrameSeries(file, source));
+        continue;
+      }
+      const key = source.metadata.seriesInstanceUid ?? `pasta:${pathOf(file).split('/').slice(0, -1).join('/')}`;
+      dicomGroups.set(key, [...(dicomGroups.get(key) ?? []), { file, metadata: source.metadata }]);
+    } else if (file.type.startsWith('image/')) {
+      imageFiles.push(file);
+    } else {
+      skipped++;
+    }
+  }
+  onProgress?.(sortedFiles.length, sortedFiles.length);
+
+  for (const entries of dicomGroups.values()) {
+    sortSlices(entries);
+    const { metadata, file } = entries[0];
+    series.push({
+      id: crypto.randomUUID(),
+      name: metadata.seriesDescription || file.webkitRelativePath.split('/').slice(-2, -1)[0] || file.name,
+      modality: metadata.modality,
+      frames: entries.map((entry, index) => ({
+        file: entry.file,
+        kind: 'dicom',
+        frameIndex: 0,
+        label: frameLabel('Corte', index, entries.length, entry.metadata.sliceLocation),
+      })),
+      keyFrames: [],
+    });
+  }
+  if (imageFiles.length > 0) {
+    series.push({
+      id: crypto.randomUUID(),
+      name: imageFiles[0].webkitRelativePath.split('/')[0] || 'Imagens',
+      frames: imageFiles.map((file, index) => ({ file, kind: 'image', frameIndex: 0, label: frameLabel('Imagem', index, imageFiles.length) })),
+      keyFrames: [],
+    });
+  }
+  return { series, skipped };
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => (typeof reader.result === 'string' ? resolve(reader.result) : reject(new Error("Falha ao ler dados da imagem.")));
+    reader.onerror = () => reject(new Error("Erro ao ler o arquivo."));
+    reader.readAsDataURL(file);
+  });
+}
+
+const sourceOf = async (frame: SeriesFrame) => multiFrameSources.get(frame.file) ?? loadDicomFile(frame.file);
+
+// Decodifica um corte como arquivo pronto para exibição ou envio, identificado pela série e posição.
+export async function loadSeriesFrame(series: ImageSeries, index: number): Promise<LoadedImage> {
+  const frame = series.frames[index];
+  try {
+    const framesInFile = multiFrameSources.get(frame.file)?.numberOfFrames ?? 1;
+    const name = framesInFile > 1 ? `${frame.file.name} (quadro ${frame.frameIndex + 1})` : frame.file.name;
+    let file: ProcessedImageFile;
+    if (frame.kind === 'dicom') {
+      file = await renderDicomFrame(await sourceOf(frame), frame.frameIndex, name);
+    } else {
+      const previewUrl = await readAsDataUrl(frame.file);
+      file = { id: crypto.randomUUID(), name, mimeType: frame.file.type, base64: previewUrl.split(',')[1], previewUrl };
+    }
+    return {
+      file: { ...file, annotation: { series: series.name, note: frame.label } },
+      originalBytes: Math.round(frame.file.size / framesInFile),
+    };
+  } catch (error) {
+    console.error("Erro ao ler corte da série:", error);
+    throw new Error(`Falha ao ler ${frame.label} da série "${series.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Média da luminância (0 a 1) em blocos de uma grade size×size.
+export function computeFrameSignature(image: PixelSource, size = SIGNATURE_SIZE): Float32Array {
+  const sums = new Float32Array(size * size);
+  const counts = new Uint32Array(size * size);
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.min(size - 1, Math.floor(y * size / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const cell = row * size + Math.min(size - 1, Math.floor(x * size / image.width));
+      const i = (y * image.width + x) * 4;
+      sums[cell] += (0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]) / 255;
+      counts[cell]++;
+    }
+  }
+  return sums.map((sum, cell) => (counts[cell] ? sum / counts[cell] : 0));
+}
+
+const standardDeviation = (values: Float32Array) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+const meanAbsoluteDifference = (a: Float32Array, b: Float32Array) =>
+  a.reduce((sum, v, i) => sum + Math.abs(v - b[i]), 0) / a.length;
+
+// Escolhe `count` cortes representativos. Descarta os cortes quase vazios das pontas da série e
+// espalha os escolhidos por uma posição que mistura a ordem dos cortes com a variação acumulada
+// entre vizinhos, de modo que trechos onde a anatomia muda depressa recebam mais cortes.
+export function selectKeyFrames(signatures: Float32Array[], count: number): number[] {
+  if (signatures.length === 0 || count <= 0) return [];
+  const spreads = signatures.map(standardDeviation);
+  const maxSpread = Math.max(...spreads);
+  let first = spreads.findIndex(spread => spread >= maxSpread * EMPTY_FRAME_SPREAD);
+  let last = signatures.length - 1 - [...spreads].reverse().findIndex(spread => spread >= maxSpread * EMPTY_FRAME_SPREAD);
+  if (first < 0 || maxSpread === 0) {
+    first = 0;
+    last = signatures.length - 1;
+  }
+  const length = last - first + 1;
+  if (count >= length) {
+    return Array.from({ length }, (_, k) => first + k);
+  }
+
+  const cumulativeChange = [0];
+  for (let k = 1; k < length; k++) {
+    cumulativeChange.push(cumulativeChange[k - 1] + meanAbsoluteDifference(signatures[first + k], signatures[first + k - 1]));
+  }
+  const totalChange = cumulativeChange[length - 1];
+  const positions = cumulativeChange.map((change, k) => {
+    const order = k / (length - 1);
+    return 0.5 * order + 0.5 * (totalChange > 0 ? change / totalChange : order);
+  });
+
+  const selected = new Set<number>();
+  for (let k = 0; k < count; k++) {
+    const target = (k + 0.5) / count;
+    let best = -1;
+    for (let j = 0; j < length; j++) {
+      if (!selected.has(j) && (best < 0 || Math.abs(positions[j] - target) < Math.abs(positions[best] - target))) best = j;
+    }
+    selected.add(best);
+  }
+  return [...selected].map(k => first + k).sort((a, b) => a - b);
+}
+
+// Miniatura desenhada direto no tamanho da assinatura; o navegador faz a redução.
+async function signatureFromUrl(url: string): Promise<Float32Array> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error("Não foi possível decodificar a imagem."));
+    element.src = url;
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_SIZE;
+  canvas.height = SIGNATURE_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Canvas 2D indisponível neste navegador.");
+  }
+  context.drawImage(image, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  return computeFrameSignature(context.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE));
+}
+
+async function frameSignature(frame: SeriesFrame): Promise<Float32Array> {
+  if (frame.kind === 'dicom') {
+    const { pixelData, jpegDataUrl } = await decodeDicomFrame(await sourceOf(frame), frame.frameIndex);
+    return pixelData ? computeFrameSignature(renderPixelData(pixelData)) : signatureFromUrl(jpegDataUrl!);
+  }
+  const url = URL.createObjectURL(frame.file);
+  try {
+    return await signatureFromUrl(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Lê todos os cortes em miniatura e sugere os cortes-chave.
+export async function suggestKeyFrames(series: ImageSeries, count: number, onProgress?: (done: number, total: number) => void): Promise<number[]> {
+  try {
+    const signatures: Float32Array[] = [];
+    for (const [index, frame] of series.frames.entries()) {
+      onProgress?.(index, series.frames.length);
+      signatures.push(await frameSignature(frame));
+    }
+    onProgress?.(series.frames.length, series.frames.length);
+    return selectKeyFrames(signatures, count);
+  } catch (error) {
+    console.error("Erro ao escolher cortes-chave:", error);
+    throw new Error(`Falha ao escolher cortes-chave da série "${series.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,76 @@
+import { IntegrationSettings, PatientStudyIdentifiers, ProcessedImageFile, ReportExportInput, StructuredReport } from '../types';
+import { describeHttpError } from './providers/http';
+
+// Envio das exportações HL7 v2 e FHIR ao RIS/PEP e pré-preenchimento dos identificadores.
+
+export const DEFAULT_INTEGRATION_SETTINGS: IntegrationSettings = {
+  hl7Endpoint: '',
+  fhirEndpoint: '',
+  authorization: '',
+  sendingFacility: 'RAINER',
+  receivingApplication: 'RIS',
+  receivingFacility: '',
+};
+
+// "20240315" → "2024-03-15"
+const fromDicomDate = (value: string | undefined) =>
+  value && /^\d{8}$/.test(value) ? `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}` : '';
+
+// Nomes DICOM vêm como "SOBRENOME^NOMES"; a interface usa o nome completo na ordem natural.
+const fromDicomPersonName = (value: string | undefined) =>
+  (value ?? '').split('^').slice(0, 2).reverse().map(part => part.trim()).filter(Boolean).join(' ');
+
+export function identifiersFromStudy(files: ProcessedImageFile[], structured: StructuredReport | null): PatientStudyIdentifiers {
+  const metadata = files.find(file => file.dicom)?.dicom?.metadata;
+  const sex = metadata?.patientSex?.toUpperCase();
+  return {
+    patientId: metadata?.patientId ?? '',
+    patientName: fromDicomPersonName(metadata?.patientName),
+    birthDate: fromDicomDate(metadata?.patientBirthDate),
+    sex: sex === 'M' || sex === 'F' || sex === 'O' ? sex : 'U',
+    accessionNumber: metadata?.accessionNumber ?? '',
+    studyInstanceUid: metadata?.studyInstanceUid ?? '',
+    modality: metadata?.modality ?? '',
+    studyDate: fromDicomDate(metadata?.studyDate),
+    studyDescription: metadata?.studyDescription ?? [structured?.modality, structured?.bodyRegion].filter(Boolean).join(' - '),
+    orderingProvider: fromDicomPersonName(metadata?.referringPhysicianName),
+  };
+}
+
+// Campos exigidos pelas duas exportações, conferidos antes de montar a mensagem.
+export function validateExportInput(input: ReportExportInput): string[] {
+  const { identifiers } = input;
+  const errors: string[] = [];
+  if (!identifiers.patientId.trim()) errors.push("Informe o ID do paciente.");
+  if (!identifiers.patientName.trim()) errors.push("Informe o nome do paciente.");
+  if (!identifiers.accessionNumber.trim()) errors.push("Informe o número de acesso do pedido.");
+  if (identifiers.birthDate && !/^\d{4}-\d{2}-\d{2}$/.test(identifiers.birthDate)) errors.push("Data de nascimento inválida.");
+  if (identifiers.studyDate && !/^\d{4}-\d{2}-\d{2}$/.test(identifiers.studyDate)) errors.push("Data do exame inválida.");
+  if (!input.report.text.trim()) errors.push("O laudo está vazio.");
+  return errors;
+}
+
+// Só laudos assinados (preliminar ou final) seguem para o RIS/PEP; rascunhos podem apenas ser baixados.
+export function canSendReport(status: ReportExportInput['report']['status']): boolean {
+  return status === 'preliminary' || status === 'final' || status === 'addendum';
+}
+
+export async function sendIntegrationMessage(endpoint: string, body: string, contentType: string, authorization: string): Promise<string> {
+  if (!/^https?:\/\//i.test(endpoint.trim())) {
+    throw new Error("Endpoint de integração inválido: informe uma URL http(s).");
+  }
+  try {
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (authorization.trim()) {
+      headers.Authorization = authorization.trim();
+    }
+    const response = await fetch(endpoint.trim(), { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response));
+    }
+    return (await response.text()).substring(0, 2000);
+  } catch (error) {
+    console.error("Erro ao enviar o laudo ao RIS/PEP:", error);
+    throw new Error(`Falha ao enviar o laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,267 @@
+import { GState, jsPDF } from 'jspdf';
+import { ProcessedImageFile, ReportAddendum, ReportSignOff, ReportStatus } from '../types';
+import { CLINIC_NAME, CLINIC_SUBTITLE, LEGAL_DISCLAIMER, LEGAL_DISCLAIMER_TITLE, hasRainerLogo, rainerLogoBase64 } from '../constants';
+import { parseReportSections } from './structuredReport';
+import { describeReportStatus, latestSignOff } from './reportStatus';
+
+// Exportação do laudo em PDF (A4), gerada inteiramente no navegador com jsPDF.
+
+export interface ReportPdfOptions {
+  reportText: string;               // Texto Markdown exibido, incluindo edições manuais
+  keyImages: ProcessedImageFile[];  // Imagens-chave escolhidas pelo usuário, na ordem em que aparecem no PDF
+  status: ReportStatus;
+  signOffs: ReportSignOff[];        // A assinatura impressa é a mais recente
+  addenda: ReportAddendum[];
+  issuedAt?: Date;
+}
+
+const PAGE_MARGIN = 18;
+const FOOTER_HEIGHT = 12;
+const BODY_FONT_SIZE = 10;
+const LINE_HEIGHT = 5;
+const IMAGES_PER_ROW = 3;
+const IMAGE_CELL_HEIGHT = 50;
+const MAX_IMAGE_EDGE_PX = 1024;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Não foi possível carregar a imagem para o PDF."));
+  image.src = src;
+});
+
+// Reduz e converte para JPEG, para que o PDF aceite qualquer formato de origem e não fique enorme.
+async function toPdfImage(src: string): Promise<{ dataUrl: string; width: number; height: number }> {
+  const image = await loadImage(src);
+  const scale = Math.min(1, MAX_IMAGE_EDGE_PX / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D indisponível neste navegador.");
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+}
+
+const formatIssuedAt = (date: Date) =>
+  date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Cores da faixa de status: rascunho e revisão em vermelho, preliminar em âmbar, final em verde.
+const STATUS_BANNER_COLORS: Record<ReportStatus, [number, number, number]> = {
+  draft: [185, 28, 28],
+  'in-review': [185, 28, 28],
+  preliminary: [180, 83, 9],
+  final: [21, 128, 61],
+  addendum: [21, 128, 61],
+};
+
+const WATERMARK_TEXT: Partial<Record<ReportStatus, string>> = {
+  draft: 'RASCUNHO',
+  'in-review': 'NÃO ASSINADO',
+  preliminary: 'PRELIMINAR',
+};
+
+export async function buildReportPdf(options: ReportPdfOptions): Promise<jsPDF> {
+  const { reportText, keyImages, status, signOffs, addenda } = options;
+  const signOff = latestSignOff({ signOffs });
+  const issuedAt = options.issuedAt ?? new Date();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  const bottomLimit = pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomLimit) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const writeParagraph = (text: string, fontSize = BODY_FONT_SIZE, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(fontSize);
+    const lineHeight = LINE_HEIGHT * fontSize / BODY_FONT_SIZE;
+    for (const line of doc.splitTextToSize(text, contentWidth) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, PAGE_MARGIN, y);
+      y += lineHeight;
+    }
+  };
+
+  // Timbre
+  let textX = PAGE_MARGIN;
+  if (hasRainerLogo) {
+    const logo = await toPdfImage(rainerLogoBase64);
+    const logoHeight = 16;
+    const logoWidth = logoHeight * logo.width / logo.height;
+    doc.addImage(logo.dataUrl, 'JPEG', PAGE_MARGIN, y - 4, logoWidth, logoHeight);
+    textX += logoWidth + 4;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(CLINIC_NAME, textX, y + 2);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(90);
+  doc.text(CLINIC_SUBTITLE, textX, y + 8);
+  doc.text(`Emitido em ${formatIssuedAt(issuedAt)}`, pageWidth - PAGE_MARGIN, y + 8, { align: 'right' });
+  doc.setTextColor(0);
+  y += 14;
+  doc.setDrawColor(79, 70, 229);
+  doc.setLineWidth(0.6);
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+  y += 4;
+
+  // Faixa de status, para que um rascunho nunca passe por laudo assinado
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  const statusLines = doc.splitTextToSize(describeReportStatus({ status, signOffs }), contentWidth - 6) as string[];
+  const bannerHeight = statusLines.length * 4.5 + 3;
+  doc.setFillColor(...STATUS_BANNER_COLORS[status]);
+  doc.rect(PAGE_MARGIN, y, contentWidth, bannerHeight, 'F');
+  doc.setTextColor(255);
+  statusLines.forEach((line, index) => doc.text(line, pageWidth / 2, y + 5 + index * 4.5, { align: 'center' }));
+  doc.setTextColor(0);
+  y += bannerHeight + 8;
+
+  // Seções do laudo
+  const { title, sections } = parseReportSections(reportText);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text(title, pageWidth / 2, y, { align: 'center' });
+  y += 10;
+
+  for (const section of sections) {
+    if (section.label) {
+      // Rótulos curtos (ex: "Data do exame") ficam na mesma linha do valor, como no texto original.
+      const isInline = !!section.content && !section.content.includes('\n') && section.label !== section.label.toUpperCase();
+      if (isInline) {
+        writeParagraph(`${section.label}: ${section.content}`);
+        continue;
+      }
+      ensureSpace(LINE_HEIGHT * 3);
+      y += 2;
+      writeParagraph(section.label, BODY_FONT_SIZE + 1, 'bold');
+    }
+    for (const paragraph of section.content.split('\n')) {
+      writeParagraph(paragraph);
+    }
+  }
+
+  // Adendos posteriores à assinatura final; o texto original permanece inalterado acima
+  if (addenda.length > 0) {
+    y += 4;
+    ensureSpace(LINE_HEIGHT * 3);
+    writeParagraph('ADENDOS', BODY_FONT_SIZE + 1, 'bold');
+    addenda.forEach((addendum, index) => {
+      y += 1;
+      writeParagraph(`Adendo ${index + 1} — ${addendum.name} (${addendum.registry}), ${formatIssuedAt(new Date(addendum.signedAt))}`, BODY_FONT_SIZE, 'bold');
+      for (const paragraph of addendum.text.split('\n')) {
+        writeParagraph(paragraph);
+      }
+    });
+  }
+
+  // Imagens-chave
+  if (keyImages.length > 0) {
+    const gap = 4;
+    const cellWidth = (contentWidth - gap * (IMAGES_PER_ROW - 1)) / IMAGES_PER_ROW;
+    y += 4;
+    ensureSpace(LINE_HEIGHT * 2 + IMAGE_CELL_HEIGHT);
+    writeParagraph('IMAGENS-CHAVE', BODY_FONT_SIZE + 1, 'bold');
+    y += 1;
+    for (let i = 0; i < keyImages.length; i += IMAGES_PER_ROW) {
+      ensureSpace(IMAGE_CELL_HEIGHT + LINE_HEIGHT + gap);
+      const row = keyImages.slice(i, i + IMAGES_PER_ROW);
+      for (let col = 0; col < row.length; col++) {
+        const file = row[col];
+        const image = await toPdfImage(file.previewUrl);
+        const scale = Math.min(cellWidth / image.width, IMAGE_CELL_HEIGHT / image.height);
+        const width = image.width * scale;
+        const height = image.height * scale;
+        const cellX = PAGE_MARGIN + col * (cellWidth + gap);
+        doc.setFillColor(0, 0, 0);
+        doc.rect(cellX, y, cellWidth, IMAGE_CELL_HEIGHT, 'F');
+        doc.addImage(image.dataUrl, 'JPEG', cellX + (cellWidth - width) / 2, y + (IMAGE_CELL_HEIGHT - height) / 2, width, height);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7.5);
+        const caption = doc.splitTextToSize(`Imagem ${i + col + 1} · ${file.name}`, cellWidth)[0] as string;
+        doc.text(caption, cellX, y + IMAGE_CELL_HEIGHT + 3.5);
+      }
+      y += IMAGE_CELL_HEIGHT + LINE_HEIGHT + gap;
+    }
+  }
+
+  // Assinatura
+  ensureSpace(30);
+  y += 14;
+  const signatureWidth = 80;
+  const signatureX = (pageWidth - signatureWidth) / 2;
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.3);
+  doc.line(signatureX, y, signatureX + signatureWidth, y);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(BODY_FONT_SIZE);
+  if (signOff) {
+    doc.text(signOff.name, pageWidth / 2, y + 5, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.text(signOff.registry, pageWidth / 2, y + 10, { align: 'center' });
+    doc.setFontSize(8);
+    doc.text(
+      `Assinado como ${signOff.status === 'final' ? 'laudo final' : 'laudo preliminar'} em ${formatIssuedAt(new Date(signOff.signedAt))}`,
+      pageWidth / 2, y + 14, { align: 'center' },
+    );
+  } else {
+    doc.text('Laudo não assinado', pageWidth / 2, y + 5, { align: 'center' });
+  }
+  y += 20;
+
+  // Aviso legal
+  ensureSpace(LINE_HEIGHT * 4);
+  doc.setTextColor(110);
+  writeParagraph(LEGAL_DISCLAIMER_TITLE, 8, 'bold');
+  writeParagraph(LEGAL_DISCLAIMER, 7.5);
+  doc.setTextColor(0);
+
+  // Rodapé com paginação e, para laudos ainda não finais, marca d'água em todas as páginas
+  const watermark = WATERMARK_TEXT[status];
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (watermark) {
+      doc.saveGraphicsState();
+      doc.setGState(new GState({ opacity: 0.12 }));
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(64);
+      doc.setTextColor(...STATUS_BANNER_COLORS[status]);
+      // Texto girado 45°: recua meia largura ao longo da diagonal para centralizá-lo na página.
+      const offset = doc.getTextWidth(watermark) / 2 / Math.SQRT2;
+      doc.text(watermark, pageWidth / 2 - offset, pageHeight / 2 + offset, { angle: 45 });
+      doc.restoreGraphicsState();
+    }
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor(120);
+    doc.text(`${CLINIC_NAME} · Laudo emitido em ${formatIssuedAt(issuedAt)}`, PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+  }
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+export async function exportReportPdf(options: ReportPdfOptions): Promise<void> {
+  try {
+    const doc = await buildReportPdf(options);
+    const issuedAt = options.issuedAt ?? new Date();
+    const datePart = `${issuedAt.getFullYear()}${(issuedAt.getMonth() + 1).toString().padStart(2, '0')}${issuedAt.getDate().toString().padStart(2, '0')}`;
+    doc.save(`laudo-${datePart}.pdf`);
+  } catch (error) {
+    console.error("Erro ao gerar PDF do laudo:", error);
+    throw new Error(`Falha ao exportar PDF: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { CriticalFinding, GeminiProviderSettings, ReportChatReply, ReportChatRequest, ReportProvider, ReportRequest, ReportStreamEvent, SpeechOptions, SpeechProvider, StructuredReport, SynthesizedAudio, TranscriptionProvider } from '../../types';
+import { postJson, streamReportEvents } from './http';
+import { buildSpeechStyleInstruction } from '../speech';
+
+// O Gemini é acessado através do servidor proxy (server/index.ts), que guarda a chave de API.
+// O navegador envia apenas o pedido e o nome do modelo; nenhuma credencial sai do servidor.
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiProviderSettings = {
+  reportModel: 'gemini-2.5-flash-preview-04-17',
+  speechModel: 'gemini-2.5-flash-preview-tts',
+  voice: 'Vindemiatrix',
+  transcriptionModel: 'gemini-2.5-flash-preview-04-17',
+};
+
+export function createGeminiReportProvider(settings: GeminiProviderSettings): ReportProvider {
+  return {
+    id: 'gemini',
+    async generateReport(request: ReportRequest): Promise<StructuredReport> {
+      try {
+        const data = await postJson<{ report: StructuredReport }>('/report', { model: settings.reportModel, request });
+        return data.report;
+      } catch (error) {
+        console.error("Erro ao gerar laudo a partir da imagem:", error);
+        throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async *streamReport(request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+      try {
+        yield* streamReportEvents('/report/stream', { model: settings.reportModel, request }, signal);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error("Erro ao gerar laudo a partir da imagem:", error);
+        throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async chat(request: ReportChatRequest): Promise<ReportChatReply> {
+      try {
+        return await postJson<ReportChatReply>('/report/chat', { model: settings.reportModel, request });
+      } catch (error) {
+        console.error("Erro ao conversar sobre o laudo:", error);
+        throw new Error(`Falha ao responder à pergunta: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async classifyCriticalFindings(reportText: string): Promise<CriticalFinding[]> {
+      try {
+        const data = await postJson<{ findings: CriticalFinding[] }>('/report/critical-findings', { model: settings.reportModel, reportText });
+        return data.findings;
+      } catch (error) {
+        console.error("Erro ao classificar achados críticos:", error);
+        throw new Error(`Falha ao classificar achados críticos: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
+
+export function createGeminiSpeechProvider(settings: GeminiProviderSettings): SpeechProvider {
+  return {
+    id: 'gemini',
+    async synthesizeSpeech(textToSynthesize: string, options: SpeechOptions): Promise<SynthesizedAudio> {
+      try {
+        // O Gemini TTS não tem parâmetro de velocidade: estilo e ritmo vão como instrução em linguagem natural.
+        return await postJson<SynthesizedAudio>('/speech', {
+          model: settings.speechModel,
+          text: textToSynthesize,
+          voice: settings.voice,
+          style: buildSpeechStyleInstruction(options),
+        });
+      } catch (error) {
+        console.error("Erro ao gerar fala:", error);
+        throw new Error(`Falha ao gerar fala: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
+
+export function createGeminiTranscriptionProvider(settings: GeminiProviderSettings): TranscriptionProvider {
+  return {
+    id: 'gemini',
+    async transcribeAudio(audio: SynthesizedAudio): Promise<string> {
+      try {
+        const data = await postJson<{ text: string }>('/transcribe', { model: settings.transcriptionModel, audio });
+        return data.text;
+      } catch (error) {
+        console.error("Erro ao transcrever ditado:", error);
+        throw new Error(`Falha ao transcrever ditado: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { ReportStreamEvent } from '../../types';
+
+// Utilitários HTTP compartilhados pelos provedores que falam com serviços via fetch.
+
+// Prefixo do servidor proxy (server/index.ts), que guarda as credenciais dos provedores.
+export const API_BASE_PATH = '/api';
+
+export async function describeHttpError(response: Response): Promise<string> {
+  let detail = '';
+  try {
+    const body = await response.text();
+    // O proxy responde com {"error": "..."}; outros serviços podem devolver texto livre.
+    try {
+      const parsed = JSON.parse(body);
+      detail = typeof parsed?.error === 'string' ? parsed.error : body;
+    } catch {
+      detail = body;
+    }
+    detail = detail.substring(0, 200);
+  } catch {
+    // Corpo ilegível: o status já basta para o diagnóstico.
+  }
+  return `${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`;
+}
+
+// Lê um corpo Server-Sent Events e devolve o conteúdo de cada "data:" até o marcador [DONE].
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.substring(5).trim();
+        if (data === '[DONE]') return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${API_BASE_PATH}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await describeHttpError(response));
+  }
+  return response.json();
+}
+
+// Lê os eventos do laudo repassados pelo servidor; um evento de erro encerra o streaming com exceção.
+export async function* streamReportEvents(path: string, body: unknown, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+  const response = await fetch(`${API_BASE_PATH}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(await describeHttpError(response));
+  }
+  for await (const data of readServerSentEvents(response.body)) {
+    const event: ReportStreamEvent | { type: 'error'; message: string } = JSON.parse(data);
+    if (event.type === 'error') {
+      throw new Error(event.message);
+    }
+    yield event;
+  }
+}
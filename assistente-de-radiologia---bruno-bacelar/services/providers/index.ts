@@ -0,0 +1,61 @@
+import { ProviderId, ProviderSettings, ReportProvider, SpeechProvider, TranscriptionProvider } from '../../types';
+import { DEFAULT_GEMINI_SETTINGS, createGeminiReportProvider, createGeminiSpeechProvider, createGeminiTranscriptionProvider } from './geminiProvider';
+import {
+  DEFAULT_OPENAI_COMPATIBLE_SETTINGS,
+  createOpenAiCompatibleReportProvider,
+  createOpenAiCompatibleSpeechProvider,
+  createOpenAiCompatibleTranscriptionProvider,
+} from './openAiCompatibleProvider';
+import { createMockReportProvider, createMockSpeechProvider, createMockTranscriptionProvider } from './mockProvider';
+import { DEFAULT_MAX_IMAGES_PER_REPORT } from '../reportPrompt';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'Compatível com OpenAI (HTTP)',
+  mock: 'Simulado (offline)',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  reportProvider: 'gemini',
+  maxImagesPerReport: DEFAULT_MAX_IMAGES_PER_REPORT,
+  speechProvider: 'gemini',
+  transcriptionProvider: 'gemini',
+  gemini: DEFAULT_GEMINI_SETTINGS,
+  openAiCompatible: DEFAULT_OPENAI_COMPATIBLE_SETTINGS,
+};
+
+export function createReportProvider(settings: ProviderSettings): ReportProvider {
+  switch (settings.reportProvider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleReportProvider(settings.openAiCompatible);
+    case 'mock':
+      return createMockReportProvider();
+    case 'gemini':
+    default:
+      return createGeminiReportProvider(settings.gemini);
+  }
+}
+
+export function createSpeechProvider(settings: ProviderSettings): SpeechProvider {
+  switch (settings.speechProvider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleSpeechProvider(settings.openAiCompatible);
+    case 'mock':
+      return createMockSpeechProvider();
+    case 'gemini':
+    default:
+      return createGeminiSpeechProvider(settings.gemini);
+  }
+}
+
+export function createTranscriptionProvider(settings: ProviderSettings): TranscriptionProvider {
+  switch (settings.transcriptionProvider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleTranscriptionProvider(settings.openAiCompatible);
+    case 'mock':
+      return createMockTranscriptionProvider();
+    case 'gemini':
+    default:
+      return createGeminiTranscriptionProvider(settings.gemini);
+  }
+}
@@ -0,0 +1,131 @@
+import { CriticalFinding, ReportChatReply, ReportChatRequest, ReportProvider, ReportRequest, ReportStreamEvent, SpeechOptions, SpeechProvider, StructuredReport, SynthesizedAudio, TranscriptionProvider } from '../../types';
+import { buildReportPrompt, completeReport, finalizeReport } from '../reportPrompt';
+import { base64ToBytes, bytesToBase64, decodeWav, encodeWav } from '../audio';
+import { SPEAKING_RATES } from '../speech';
+import { detectCriticalFindingsByRules } from '../criticalFindings';
+
+// Adaptador determinístico para desenvolvimento offline e demonstrações:
+// a mesma entrada produz sempre o mesmo laudo e o mesmo áudio, sem chamadas de rede.
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_STREAM_CHUNK_SIZE = 48;
+const MOCK_STREAM_INTERVAL_MS = 60;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Geração cancelada.', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Geração cancelada.', 'AbortError'));
+  }, { once: true });
+});
+
+function buildMockReport(request: ReportRequest): StructuredReport {
+  const prepared = buildReportPrompt(request);
+  return finalizeReport({
+    examDate: prepared.examDate,
+    modality: 'Não especificado',
+    technique: 'Laudo simulado gerado pelo provedor de teste; nenhuma imagem foi analisada.',
+    comparison: request.prior
+      ? `Exame anterior de ${request.prior.studyDate || 'data não informada'} recebido (${request.prior.images.length} imagem(ns)); evolução não avaliada pelo provedor simulado.`
+      : undefined,
+    findings: request.images.map((image, index) => ({
+      image: `Imagem ${index + 1}${image.annotation?.view || image.name ? ` (${image.annotation?.view || image.name})` : ''}`,
+      description: `Imagem ${image.mimeType} recebida (${Math.round(image.base64.length * 0.75 / 1024)} KB). Sem alterações descritas pelo provedor simulado.`,
+    })),
+    impression: `Laudo de teste para o prompt: "${request.prompt.trim()}".`,
+    additionalSections: request.template?.sectionHeadings.filter(heading => heading.trim()).map(heading => ({
+      heading,
+      content: 'Não avaliado pelo provedor simulado.',
+    })),
+    recommendations: ['Selecionar um provedor real nas configurações para obter uma análise.'],
+    confidence: 'baixa',
+  }, prepared);
+}
+
+// Pedidos de alteração ("reescreva", "corrija", "inclua"...) recebem uma revisão que acrescenta
+// a pergunta ao fim do laudo, para exercitar a aplicação de sugestões sem um modelo real.
+const MOCK_CHANGE_REQUEST = /\b(reescrev|corrij|corrig|alter|mud|atualiz|remov|exclu|inclu|acrescent|adicion|resum)/i;
+
+function buildMockChatReply(request: ReportChatRequest): ReportChatReply {
+  const question = request.messages[request.messages.length - 1].text.trim();
+  const turn = request.messages.filter(message => message.role === 'user').length;
+  if (!MOCK_CHANGE_REQUEST.test(question)) {
+    return { reply: `Resposta simulada (pergunta ${turn}) para: "${question}". ${request.images.length} imagem(ns) disponível(is) como contexto; nenhuma imagem foi analisada.` };
+  }
+  return {
+    reply: `Revisão simulada do laudo para o pedido: "${question}".`,
+    revisedReport: `${request.reportText.trim()}\n\n**Observação:** Revisão simulada: ${question}`,
+  };
+}
+
+export function createMockReportProvider(): ReportProvider {
+  return {
+    id: 'mock',
+    async generateReport(request: ReportRequest): Promise<StructuredReport> {
+      await delay(MOCK_LATENCY_MS);
+      return buildMockReport(request);
+    },
+
+    // Emite o JSON do laudo simulado em pedaços fixos, imitando o streaming de um modelo real.
+    async *streamReport(request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+      const rawResponse = JSON.stringify(buildMockReport(request));
+      await delay(MOCK_LATENCY_MS, signal);
+      for (let i = 0; i < rawResponse.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        yield { type: 'chunk', text: rawResponse.substring(i, i + MOCK_STREAM_CHUNK_SIZE) };
+        await delay(MOCK_STREAM_INTERVAL_MS, signal);
+      }
+      yield { type: 'done', report: completeReport(rawResponse, buildReportPrompt(request)) };
+    },
+
+    async chat(request: ReportChatRequest): Promise<ReportChatReply> {
+      await delay(MOCK_LATENCY_MS);
+      return buildMockChatReply(request);
+    },
+
+    // Sem modelo, a classificação simulada é a própria lista de palavras-chave.
+    async classifyCriticalFindings(reportText: string): Promise<CriticalFinding[]> {
+      await delay(MOCK_LATENCY_MS);
+      return detectCriticalFindingsByRules(reportText);
+    },
+  };
+}
+
+export function createMockSpeechProvider(): SpeechProvider {
+  return {
+    id: 'mock',
+    async synthesizeSpeech(text: string, options: SpeechOptions): Promise<SynthesizedAudio> {
+      await delay(MOCK_LATENCY_MS);
+      // Um bipe curto por palavra (até 20), para que a duração acompanhe o texto e o ritmo escolhido.
+      const words = Math.min(20, text.trim().split(/\s+/).length);
+      const speed = SPEAKING_RATES[options.rate].speed;
+      const beepSamples = Math.round(MOCK_SAMPLE_RATE * 0.12 / speed);
+      const gapSamples = Math.round(MOCK_SAMPLE_RATE * 0.08 / speed);
+      const samples = new Int16Array(words * (beepSamples + gapSamples));
+      for (let w = 0; w < words; w++) {
+        const start = w * (beepSamples + gapSamples);
+        for (let i = 0; i < beepSamples; i++) {
+          samples[start + i] = Math.round(Math.sin(2 * Math.PI * 440 * i / MOCK_SAMPLE_RATE) * 4000);
+        }
+      }
+      return { base64: bytesToBase64(encodeWav(samples, MOCK_SAMPLE_RATE, 1)), mimeType: 'audio/wav' };
+    },
+  };
+}
+
+// Transcrição fixa que exercita os comandos de ditado; a duração do áudio entra no texto para diferenciar gravações.
+export function createMockTranscriptionProvider(): TranscriptionProvider {
+  return {
+    id: 'mock',
+    async transcribeAudio(audio: SynthesizedAudio): Promise<string> {
+      await delay(MOCK_LATENCY_MS);
+      const { samples, sampleRate, channels } = decodeWav(base64ToBytes(audio.base64));
+      const seconds = Math.round(samples.length / channels / sampleRate);
+      return `Ditado simulado de ${seconds} segundos. Nova linha. Sem outras alterações.`;
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { CriticalFinding, OpenAiCompatibleProviderSettings, ReportChatReply, ReportChatRequest, ReportProvider, ReportRequest, ReportStreamEvent, SpeechOptions, SpeechProvider, StructuredReport, SynthesizedAudio, TranscriptionProvider } from '../../types';
+import { postJson, streamReportEvents } from './http';
+import { SPEAKING_RATES } from '../speech';
+
+// APIs no formato da OpenAI (a própria OpenAI e servidores locais como vLLM, LM Studio e Ollama), acessadas
+// através do servidor proxy (server/openAiCompatible.ts). A URL base e a chave ficam no ambiente do servidor;
+// o navegador escolhe apenas os modelos e a voz.
+
+export const DEFAULT_OPENAI_COMPATIBLE_SETTINGS: OpenAiCompatibleProviderSettings = {
+  reportModel: 'gpt-4o-mini',
+  speechModel: 'gpt-4o-mini-tts',
+  voice: 'alloy',
+  transcriptionModel: 'gpt-4o-mini-transcribe',
+};
+
+const PATH_PREFIX = '/openai-compatible';
+
+export function createOpenAiCompatibleReportProvider(settings: OpenAiCompatibleProviderSettings): ReportProvider {
+  return {
+    id: 'openai-compatible',
+    async generateReport(request: ReportRequest): Promise<StructuredReport> {
+      try {
+        const data = await postJson<{ report: StructuredReport }>(`${PATH_PREFIX}/report`, { model: settings.reportModel, request });
+        return data.report;
+      } catch (error) {
+        console.error("Erro ao gerar laudo via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async *streamReport(request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent> {
+      try {
+        yield* streamReportEvents(`${PATH_PREFIX}/report/stream`, { model: settings.reportModel, request }, signal);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error("Erro ao gerar laudo via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async chat(request: ReportChatRequest): Promise<ReportChatReply> {
+      try {
+        return await postJson<ReportChatReply>(`${PATH_PREFIX}/report/chat`, { model: settings.reportModel, request });
+      } catch (error) {
+        console.error("Erro ao conversar sobre o laudo via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao responder à pergunta: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async classifyCriticalFindings(reportText: string): Promise<CriticalFinding[]> {
+      try {
+        const data = await postJson<{ findings: CriticalFinding[] }>(`${PATH_PREFIX}/report/critical-findings`, { model: settings.reportModel, reportText });
+        return data.findings;
+      } catch (error) {
+        console.error("Erro ao classificar achados críticos via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao classificar achados críticos: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
+
+export function createOpenAiCompatibleSpeechProvider(settings: OpenAiCompatibleProviderSettings): SpeechProvider {
+  return {
+    id: 'openai-compatible',
+    async synthesizeSpeech(text: string, options: SpeechOptions): Promise<SynthesizedAudio> {
+      try {
+        // Ao contrário do Gemini, a velocidade vai como parâmetro numérico e o estilo, sem o ritmo.
+        return await postJson<SynthesizedAudio>(`${PATH_PREFIX}/speech`, {
+          model: settings.speechModel,
+          text,
+          voice: settings.voice,
+          style: options.style.trim(),
+          speed: SPEAKING_RATES[options.rate].speed,
+        });
+      } catch (error) {
+        console.error("Erro ao gerar fala via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao gerar fala: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
+
+export function createOpenAiCompatibleTranscriptionProvider(settings: OpenAiCompatibleProviderSettings): TranscriptionProvider {
+  return {
+    id: 'openai-compatible',
+    async transcribeAudio(audio: SynthesizedAudio): Promise<string> {
+      try {
+        const data = await postJson<{ text: string }>(`${PATH_PREFIX}/transcribe`, { model: settings.transcriptionModel, audio });
+        return data.text;
+      } catch (error) {
+        console.error("Erro ao transcrever ditado via provedor compatível com OpenAI:", error);
+        throw new Error(`Falha ao transcrever ditado: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { Schema, Type } from "@google/genai";
+import { ReportChatReply, ReportChatRequest } from '../types';
+import { DEFAULT_MAX_IMAGES_PER_REPORT, describeReportImage } from './reportPrompt';
+import { describeModality } from './dicomService';
+
+// Conversa de acompanhamento sobre um laudo já gerado: instrução, formato da resposta e validação,
+// comuns a todos os provedores.
+
+export const MAX_CHAT_HISTORY_MESSAGES = 20; // Mensagens anteriores enviadas como contexto, além da pergunta atual
+export const MAX_CHAT_QUESTION_LENGTH = 2000;
+
+export const REPORT_CHAT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING, description: "Resposta ao radiologista, em português." },
+    revisedReport: {
+      type: Type.STRING,
+      description: "Texto COMPLETO do laudo com a alteração proposta, no mesmo formato Markdown do laudo atual. Omita quando não houver alteração a propor.",
+    },
+  },
+  required: ['reply'],
+  propertyOrdering: ['reply', 'revisedReport'],
+};
+
+export function validateChatRequest(request: ReportChatRequest, maxImages = DEFAULT_MAX_IMAGES_PER_REPORT) {
+  if (request.images.length === 0) {
+    throw new Error("As imagens do estudo não estão disponíveis para a conversa.");
+  }
+  if (request.images.length > maxImages) {
+    throw new Error(`A conversa aceita no máximo ${maxImages} imagens.`);
+  }
+  if (!request.reportText.trim()) {
+    throw new Error("Não há laudo para discutir.");
+  }
+  const question = request.messages[request.messages.length - 1];
+  if (!question || question.role !== 'user' || !question.text.trim()) {
+    throw new Error("Digite uma pergunta sobre o laudo.");
+  }
+  if (question.text.length > MAX_CHAT_QUESTION_LENGTH) {
+    throw new Error(`A pergunta deve ter no máximo ${MAX_CHAT_QUESTION_LENGTH} caracteres.`);
+  }
+  if (request.messages[0].role !== 'user') {
+    throw new Error("A conversa deve começar com uma mensagem do usuário.");
+  }
+}
+
+// Mantém as mensagens mais recentes, começando sempre por uma do usuário (exigência dos modelos de chat).
+export function trimChatHistory<T extends { role: string }>(messages: T[]): T[] {
+  const recent = messages.slice(-(MAX_CHAT_HISTORY_MESSAGES + 1));
+  const firstUser = recent.findIndex(message => message.role === 'user');
+  return firstUser > 0 ? recent.slice(firstUser) : recent;
+}
+
+export function buildChatInstruction(request: ReportChatRequest): string {
+  const imageList = request.images.map((image, index) => describeReportImage(`Imagem ${index + 1}`, image)).join('\n');
+  const modalities = request.studyInfo?.modalities.map(describeModality).join(', ');
+  return `
+Você é um assistente de radiologia conversando com o radiologista responsável sobre um laudo já gerado.
+Você recebe as mesmas imagens usadas no laudo, cada uma precedida do seu identificador, e o texto atual do laudo (que pode ter sido editado pelo radiologista).
+Responda às perguntas com base nas imagens e no laudo, de forma objetiva e em português. Se algo não puder ser avaliado nas imagens, diga isso claramente.
+Responda SOMENTE com um objeto JSON que siga o schema fornecido, sem Markdown fora dos campos e sem texto fora do JSON.
+- reply: a resposta ao radiologista.
+- revisedReport: apenas quando o radiologista pedir uma alteração no laudo ou quando a resposta implicar uma correção. Traga o laudo COMPLETO já alterado, preservando o formato Markdown, os rótulos em negrito e todas as seções não afetadas; não acrescente comentários ao texto do laudo. Omita o campo nos demais casos.${modalities ? `\nModalidade informada nos metadados DICOM: ${modalities}.` : ''}
+
+Imagens do estudo:
+${imageList}
+
+Laudo atual, entre as marcações ---:
+---
+${request.reportText.trim()}
+---
+`;
+}
+
+// Valida o JSON da resposta. Uma revisão idêntica ao laudo atual é descartada.
+export function parseChatReply(rawJson: string | undefined, currentReport: string): ReportChatReply {
+  if (!rawJson) {
+    throw new Error("O modelo não retornou conteúdo.");
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(rawJson);
+  } catch {
+    throw new Error("Resposta do modelo não é um JSON válido.");
+  }
+  const source = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (typeof source.reply !== 'string' || !source.reply.trim()) {
+    throw new Error("Resposta do modelo fora do formato esperado: o campo 'reply' deveria ser um texto não vazio.");
+  }
+  const revisedReport = typeof source.revisedReport === 'string' ? source.revisedReport.trim() : '';
+  return {
+    reply: source.reply.trim(),
+    revisedReport: revisedReport && revisedReport !== currentReport.trim() ? revisedReport : undefined,
+  };
+}
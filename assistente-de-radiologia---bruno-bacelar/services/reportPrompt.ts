@@ -0,0 +1,191 @@
+import { ImageAnnotation, PriorStudyInput, ReportImageInput, ReportRequest, ReportTemplate, StructuredReport } from '../types';
+import { describeModality } from './dicomService';
+import { parseStructuredReport } from './structuredReport';
+import { buildClinicalContextInstruction, clinicalHeaderFields, validateClinicalContext } from './clinicalContext';
+
+export const DEFAULT_MAX_IMAGES_PER_REPORT = 10;
+// Teto do limite configurável; o servidor de API aplica este valor.
+export const MAX_IMAGES_PER_REPORT_LIMIT = 100;
+export const MAX_PRIOR_IMAGES = 4;
+
+// Instrução comum a todos os provedores, junto com os campos já conhecidos antes da chamada ao modelo.
+export interface PreparedReportPrompt {
+  instruction: string;
+  examDate: string;
+  modality?: string;
+  bodyRegion?: string;
+  patient?: string;
+  clinicalIndication?: string;
+  requestingPhysician?: string;
+}
+
+export function validateReportRequest(request: ReportRequest, maxImages = DEFAULT_MAX_IMAGES_PER_REPORT) {
+  if (request.images.length === 0) {
+    throw new Error("Nenhuma imagem fornecida para análise.");
+  }
+  if (request.images.length > maxImages) {
+    throw new Error(`A análise é limitada a um máximo de ${maxImages} imagens.`);
+  }
+  if (request.clinicalContext) {
+    validateClinicalContext(request.clinicalContext);
+  }
+  if (request.prior) {
+    if (request.prior.images.length > MAX_PRIOR_IMAGES) {
+      throw new Error(`A comparação aceita no máximo ${MAX_PRIOR_IMAGES} imagens do exame anterior.`);
+    }
+    if (request.prior.images.length === 0 && !request.prior.reportText.trim()) {
+      throw new Error("O exame anterior precisa de imagens ou do texto do laudo anterior para a comparação.");
+    }
+  }
+}
+
+// Imagem acompanhada do texto de identificação que os provedores enviam imediatamente antes dela.
+export interface LabeledReportImage {
+  caption: string;
+  image: ReportImageInput;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function describeAnnotation(annotation: ImageAnnotation | undefined): string[] {
+  if (!annotation) return [];
+  const parts: string[] = [];
+  if (annotation.view?.trim()) parts.push(`Incidência/projeção: ${annotation.view.trim()}`);
+  if (annotation.series?.trim()) parts.push(`Série: ${annotation.series.trim()}`);
+  if (annotation.phase?.trim()) parts.push(`Fase: ${annotation.phase.trim()}`);
+  if (annotation.note?.trim()) parts.push(`Observação do usuário: ${annotation.note.trim()}`);
+  if (annotation.regions && annotation.regions.length > 0) {
+    const regions = annotation.regions.map(r =>
+      `"${r.label}" (x=${formatPercent(r.x)}, y=${formatPercent(r.y)}, largura=${formatPercent(r.width)}, altura=${formatPercent(r.height)})`,
+    );
+    parts.push(`Regiões de interesse marcadas: ${regions.join('; ')}`);
+  }
+  return parts;
+}
+
+export function describeReportImage(identifier: string, image: ReportImageInput): string {
+  const name = image.name?.trim();
+  return [`${identifier}${name ? ` — "${name}"` : ''}`, ...describeAnnotation(image.annotation)].join('. ') + '.';
+}
+
+// Ordem em que os provedores enviam as imagens: primeiro as do exame atual, depois as do anterior,
+// cada uma precedida do seu texto de identificação.
+export function collectLabeledImages(request: ReportRequest): LabeledReportImage[] {
+  return [
+    ...request.images.map((image, index) => ({ caption: describeReportImage(`Imagem ${index + 1}`, image), image })),
+    ...(request.prior?.images ?? []).map((image, index) => ({ caption: describeReportImage(`Imagem anterior ${index + 1}`, image), image })),
+  ];
+}
+
+export function buildReportPrompt(request: ReportRequest): PreparedReportPrompt {
+  const { prompt: userPrompt, images, studyInfo, template, prior, clinicalContext } = request;
+
+  const currentDate = new Date();
+  const formattedDate = studyInfo?.studyDate
+    ?? `${currentDate.getDate().toString().padStart(2, '0')}/${(currentDate.getMonth() + 1).toString().padStart(2, '0')}/${currentDate.getFullYear()}`;
+
+  // Quando as imagens vieram de arquivos DICOM, o cabeçalho usa as tags do arquivo em vez de deixar o modelo inferir.
+  const dicomModality = studyInfo && studyInfo.modalities.length > 0
+    ? studyInfo.modalities.map(describeModality).join(', ')
+    : undefined;
+  const dicomBodyRegion = studyInfo && studyInfo.bodyParts.length > 0
+    ? studyInfo.bodyParts.join(', ')
+    : undefined;
+  const dicomContext = studyInfo
+    ? `\nAs imagens foram extraídas de arquivos DICOM. Use EXATAMENTE os valores informados abaixo para 'modality'${dicomBodyRegion ? " e 'bodyRegion'" : ''}, pois vêm dos metadados do arquivo.${studyInfo.studyDescription ? ` Descrição do estudo no PACS: "${studyInfo.studyDescription}".` : ''}`
+    : '';
+
+  const templateContext = template ? buildTemplateContext(template) : '';
+  const sectionHeadings = template?.sectionHeadings.map(h => h.trim()).filter(Boolean) ?? [];
+  const additionalSectionsInstruction = sectionHeadings.length > 0
+    ? `um item para cada uma destas seções, nesta ordem, com heading exatamente igual ao nome: ${sectionHeadings.map(h => `"${h}"`).join(', ')}`
+    : 'lista vazia';
+
+  // Cada imagem chega precedida de um texto com identificador, nome e anotações (ver collectLabeledImages).
+  const imageIdentifiers = images.map((_image, index) => `Imagem ${index + 1}`).join(', ');
+  const hasRegions = [...images, ...(prior?.images ?? [])].some(image => (image.annotation?.regions?.length ?? 0) > 0);
+  const comparisonContext = prior ? buildComparisonContext(prior) : '';
+  const clinicalContextInstruction = buildClinicalContextInstruction(clinicalContext);
+  // Sem DICOM, o exame solicitado orienta a modalidade, mas ainda cabe ao modelo confirmá-la nas imagens.
+  const requestedExam = !dicomModality && clinicalContext?.examType.trim()
+    ? `. O exame solicitado foi "${clinicalContext.examType.trim()}"; use-o como referência se as imagens forem compatíveis`
+    : '';
+
+  const instruction = `
+Você é um assistente de radiologia altamente qualificado, com conhecimento e capacidade de análise comparáveis aos modelos especializados em imagens médicas como o MedGemma.
+Analise TODAS as ${images.length} imagens do exame atual (identificadas como ${imageIdentifiers}) e o prompt do usuário para gerar um laudo radiológico CONSOLIDADO e detalhado.
+Cada imagem é precedida por um texto de identificação com o identificador, o nome do arquivo e, quando informados, incidência, série, fase do contraste e observações do usuário. Use essas informações para interpretar cada imagem.${hasRegions ? ' Regiões de interesse são dadas em porcentagem da largura e altura da imagem a partir do canto superior esquerdo; comente explicitamente cada região marcada.' : ''}
+Responda SOMENTE com um objeto JSON que siga o schema fornecido, sem Markdown e sem texto fora do JSON.
+O prompt do usuário para esta análise é: "${userPrompt}"
+
+Preencha os campos do JSON assim:
+- examDate: "${formattedDate}".
+- modality: ${dicomModality ? `"${dicomModality}"` : `infira a modalidade principal das imagens (ex: Raio-X, Tomografia Computadorizada, Ressonância Magnética) ou liste as modalidades se forem diversas. Se não puder determinar, use 'Não especificado'${requestedExam}`}.
+- bodyRegion: ${dicomBodyRegion ? `"${dicomBodyRegion}"` : "região anatômica examinada, se for possível determinar; caso contrário omita o campo"}.
+- technique: descreva brevemente qualquer técnica de imagem observável ou considerações relevantes para a análise, ou use 'Não especificado'.
+- comparison: ${prior ? `compare com o exame anterior de ${prior.studyDate || 'data não informada'}, descrevendo a evolução de cada achado (novo, estável, aumentado, reduzido ou resolvido)` : 'omita o campo, pois não há exame anterior'}.
+- findings: achados detalhados com base em TODAS as imagens do exame atual e no prompt do usuário. Se os achados forem específicos de uma imagem, crie um item com image igual ao identificador seguido da incidência ou do nome entre parênteses (ex: "Imagem 1 (PA)"); para achados que sintetizam várias imagens use image "Geral".
+- impression: impressão diagnóstica consolidada com base em TODAS as imagens e no prompt do usuário.
+- additionalSections: ${additionalSectionsInstruction}.
+- recommendations: condutas ou exames complementares sugeridos (lista vazia se não houver).
+- confidence: "baixa", "moderada" ou "alta", conforme a qualidade das imagens e a certeza da análise.
+Não inclua em nenhum campo dados de identificação, idade, sexo ou indicação clínica que não tenham sido informados.${clinicalContextInstruction}${dicomContext}${templateContext}${comparisonContext}
+`;
+
+  return {
+    instruction,
+    examDate: formattedDate,
+    modality: dicomModality,
+    bodyRegion: dicomBodyRegion,
+    ...clinicalHeaderFields(clinicalContext),
+  };
+}
+
+function buildComparisonContext(prior: PriorStudyInput): string {
+  const parts = [`\nMODO DE COMPARAÇÃO: há um exame anterior${prior.studyDate ? ` realizado em ${prior.studyDate}` : ''}.`];
+  if (prior.images.length > 0) {
+    const priorIdentifiers = prior.images.map((_image, index) => `Imagem anterior ${index + 1}`).join(', ');
+    parts.push(`As últimas ${prior.images.length} imagem(ns) enviadas pertencem ao exame anterior (${priorIdentifiers}). Use-as SOMENTE para a comparação; não as descreva em 'findings'.`);
+  }
+  if (prior.reportText.trim()) {
+    parts.push(`Laudo do exame anterior (referência para a comparação), entre as marcações ---:\n---\n${prior.reportText.trim()}\n---`);
+  }
+  return parts.join('\n');
+}
+
+function buildTemplateContext(template: ReportTemplate): string {
+  const parts = [`\nModelo de laudo selecionado: "${template.name}"${template.examType ? ` (exame esperado: ${template.examType})` : ''}.`];
+  if (template.instructions.trim()) {
+    parts.push(`Orientações do modelo: ${template.instructions.trim()}`);
+  }
+  if (template.normalFindings.trim()) {
+    parts.push(`Para estruturas sem alterações, use como base o texto de normalidade abaixo, adaptando-o ao que for visível nas imagens e removendo o que não se aplicar:\n${template.normalFindings.trim()}`);
+  }
+  return parts.join('\n');
+}
+
+// Valores conhecidos de antemão prevalecem sobre o que o modelo devolver.
+export function finalizeReport(report: StructuredReport, prepared: PreparedReportPrompt): StructuredReport {
+  return {
+    ...report,
+    patient: prepared.patient,
+    clinicalIndication: prepared.clinicalIndication,
+    requestingPhysician: prepared.requestingPhysician,
+    examDate: prepared.examDate,
+    modality: prepared.modality ?? report.modality,
+    bodyRegion: prepared.bodyRegion ?? report.bodyRegion,
+  };
+}
+
+// Valida a resposta bruta do modelo (completa ou acumulada do streaming) e aplica os campos conhecidos.
+export function completeReport(rawResponse: string | undefined, prepared: PreparedReportPrompt): StructuredReport {
+  if (!rawResponse) {
+    throw new Error("Falha ao gerar laudo: o modelo não retornou conteúdo.");
+  }
+  try {
+    return finalizeReport(parseStructuredReport(rawResponse), prepared);
+  } catch (error) {
+    console.error("Resposta estruturada inválida:", { rawResponse, error });
+    throw new Error(`Falha ao gerar laudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,108 @@
+import { ReportAddendum, ReportData, ReportSignOff, ReportStatus, UserProfile } from '../types';
+import { needsCriticalNotification } from './criticalFindings';
+
+// Fluxo de assinatura do laudo: transições de status, bloqueio do texto final e adendos.
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Rascunho da IA',
+  'in-review': 'Em revisão',
+  preliminary: 'Preliminar',
+  final: 'Final',
+  addendum: 'Final com adendo',
+};
+
+export const REPORT_STATUS_ORDER: ReportStatus[] = ['draft', 'in-review', 'preliminary', 'final', 'addendum'];
+
+export function isReportLocked(status: ReportStatus): boolean {
+  return status === 'final' || status === 'addendum';
+}
+
+// Status depois de uma alteração no texto. Alterar um laudo preliminar exige nova assinatura.
+export function statusAfterEdit(status: ReportStatus): ReportStatus {
+  if (isReportLocked(status)) {
+    throw new Error("O laudo final não pode ser alterado; registre um adendo.");
+  }
+  return 'in-review';
+}
+
+function requireSigner(signer: UserProfile): { name: string; registry: string } {
+  const name = signer.name.trim();
+  const registry = signer.registry.trim();
+  if (!name || !registry) {
+    throw new Error("Informe o nome e o registro profissional do radiologista antes de assinar.");
+  }
+  return { name, registry };
+}
+
+// O rascunho da IA precisa entrar em revisão antes de qualquer assinatura.
+export function canSignAs(status: ReportStatus, target: ReportSignOff['status']): boolean {
+  return target === 'preliminary'
+    ? status === 'in-review'
+    : status === 'in-review' || status === 'preliminary';
+}
+
+// Assina a versão atual do texto. A assinatura final bloqueia o texto.
+export function signReport(reportData: ReportData, target: ReportSignOff['status'], signer: UserProfile): ReportData {
+  if (!canSignAs(reportData.status, target)) {
+    throw new Error(`Um laudo com status "${REPORT_STATUS_LABELS[reportData.status]}" não pode ser assinado como ${REPORT_STATUS_LABELS[target].toLowerCase()}.`);
+  }
+  const currentVersion = reportData.versions[reportData.versions.length - 1];
+  if (!currentVersion || currentVersion.text !== reportData.text) {
+    throw new Error("Salve as alterações do laudo antes de assinar.");
+  }
+  if (target === 'final' && !reportData.criticalFindings) {
+    throw new Error("Verifique os achados críticos do laudo antes da assinatura final.");
+  }
+  if (target === 'final' && reportData.criticalFindings?.versionId !== currentVersion.id) {
+    throw new Error("O texto mudou desde a verificação de achados críticos: reavalie antes da assinatura final.");
+  }
+  if (target === 'final' && needsCriticalNotification(reportData)) {
+    throw new Error("O laudo tem achados críticos: registre quem foi comunicado antes da assinatura final.");
+  }
+  const signOff: ReportSignOff = { status: target, ...requireSigner(signer), signedAt: Date.now(), versionId: currentVersion.id };
+  return { ...reportData, status: target, signOffs: [...reportData.signOffs, signOff] };
+}
+
+export function addAddendum(reportData: ReportData, text: string, signer: UserProfile): ReportData {
+  if (!isReportLocked(reportData.status)) {
+    throw new Error("Adendos só podem ser registrados após a assinatura final; antes disso, edite o laudo.");
+  }
+  if (!text.trim()) {
+    throw new Error("O adendo está vazio.");
+  }
+  const addendum: ReportAddendum = { id: crypto.randomUUID(), text: text.trim(), ...requireSigner(signer), signedAt: Date.now() };
+  return { ...reportData, status: 'addendum', addenda: [...reportData.addenda, addendum] };
+}
+
+export function latestSignOff(reportData: Pick<ReportData, 'signOffs'>): ReportSignOff | null {
+  return reportData.signOffs[reportData.signOffs.length - 1] ?? null;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Linha de status exibida no topo das exportações, para que um rascunho nunca passe por laudo assinado.
+export function describeReportStatus(reportData: Pick<ReportData, 'status' | 'signOffs'>): string {
+  const signOff = latestSignOff(reportData);
+  const signature = signOff ? `assinado por ${signOff.name} (${signOff.registry}) em ${formatDateTime(signOff.signedAt)}` : '';
+  switch (reportData.status) {
+    case 'draft':
+      return 'RASCUNHO DA IA — NÃO REVISADO E NÃO ASSINADO';
+    case 'in-review':
+      return 'EM REVISÃO — NÃO ASSINADO';
+    case 'preliminary':
+      return `LAUDO PRELIMINAR — ${signature}`;
+    case 'final':
+      return `LAUDO FINAL — ${signature}`;
+    case 'addendum':
+      return `LAUDO FINAL COM ADENDO — ${signature}`;
+  }
+}
+
+// Texto do laudo para cópia e exportação: status no topo e adendos ao final, cada um com sua assinatura.
+export function formatReportForExport(reportData: Pick<ReportData, 'text' | 'status' | 'signOffs' | 'addenda'>): string {
+  const addenda = reportData.addenda.map((addendum, index) =>
+    `**ADENDO ${index + 1}:**\n${addendum.text}\n${addendum.name} (${addendum.registry}) — ${formatDateTime(addendum.signedAt)}`,
+  );
+  return [`[${describeReportStatus(reportData)}]`, reportData.text, ...addenda].join('\n\n');
+}
@@ -0,0 +1,64 @@
+import { ReportTemplate } from '../types';
+
+// Modelos oferecidos na primeira execução (e ao restaurar os padrões). Depois disso
+// são dados do usuário como quaisquer outros: podem ser editados ou excluídos.
+export const DEFAULT_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'default-chest-xray',
+    name: 'Radiografia de tórax',
+    examType: 'Radiografia de tórax (PA e perfil)',
+    defaultPrompt: 'Descreva esta radiografia de tórax.',
+    sectionHeadings: [],
+    normalFindings: [
+      'Campos pulmonares com transparência preservada, sem consolidações ou nódulos.',
+      'Seios costofrênicos livres.',
+      'Área cardíaca dentro dos limites da normalidade.',
+      'Hilos pulmonares de aspecto habitual.',
+      'Estruturas ósseas e partes moles sem alterações evidentes.',
+    ].join('\n'),
+    instructions: 'Descreva sistematicamente: parênquima pulmonar, pleura, mediastino e hilos, silhueta cardíaca, estruturas ósseas e partes moles, e dispositivos (cateteres, sondas, eletrodos), se presentes.',
+  },
+  {
+    id: 'default-abdominal-ct',
+    name: 'TC de abdome',
+    examType: 'Tomografia computadorizada de abdome e pelve',
+    defaultPrompt: 'Descreva esta tomografia de abdome.',
+    sectionHeadings: [],
+    normalFindings: [
+      'Fígado de dimensões e contornos normais, com densidade homogênea.',
+      'Vesícula biliar normodistendida, sem cálculos radiopacos.',
+      'Pâncreas, baço e adrenais sem alterações.',
+      'Rins tópicos, de dimensões normais, sem hidronefrose ou cálculos.',
+      'Alças intestinais de calibre e distribuição habituais.',
+      'Ausência de líquido livre ou linfonodomegalias.',
+    ].join('\n'),
+    instructions: 'Organize os achados por órgão. Informe se o exame parece ter contraste e em qual fase, quando for possível inferir pelas imagens.',
+  },
+  {
+    id: 'default-brain-mri',
+    name: 'RM de crânio',
+    examType: 'Ressonância magnética de crânio',
+    defaultPrompt: 'Descreva esta ressonância magnética de crânio.',
+    sectionHeadings: [],
+    normalFindings: [
+      'Parênquima encefálico com morfologia e intensidade de sinal preservadas.',
+      'Sistema ventricular de dimensões normais, centrado.',
+      'Sulcos corticais e cisternas de amplitude habitual para a faixa etária.',
+      'Ausência de lesões expansivas, coleções ou sinais de sangramento.',
+      'Estruturas da linha média centradas.',
+    ].join('\n'),
+    instructions: 'Identifique as sequências visíveis (T1, T2, FLAIR, difusão etc.) quando possível e descreva os achados por compartimento (supratentorial, infratentorial, extra-axial).',
+  },
+  {
+    id: 'default-mammography-birads',
+    name: 'Mamografia (BI-RADS)',
+    examType: 'Mamografia bilateral',
+    defaultPrompt: 'Descreva esta mamografia e classifique segundo o BI-RADS.',
+    sectionHeadings: ['Composição mamária', 'Categoria BI-RADS'],
+    normalFindings: [
+      'Ausência de nódulos, microcalcificações suspeitas ou distorções arquiteturais.',
+      'Pele, complexo areolopapilar e regiões axilares sem alterações.',
+    ].join('\n'),
+    instructions: 'Use o léxico do ACR BI-RADS (5ª edição). Em "Composição mamária" informe a categoria de densidade (A a D). Em "Categoria BI-RADS" informe a categoria (0 a 6) com a conduta correspondente.',
+  },
+];
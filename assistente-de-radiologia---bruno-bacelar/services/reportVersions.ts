@@ -0,0 +1,156 @@
+import { ReportAddendum, ReportData, ReportSignOff, ReportStatus, ReportVersion, ReportVersionSource } from '../types';
+import { formatReportAsMarkdown } from './structuredReport';
+import { statusAfterEdit } from './reportStatus';
+
+// Histórico de versões do texto do laudo e comparação entre versões.
+
+export const VERSION_SOURCE_LABELS: Record<ReportVersionSource, string> = {
+  ai: 'Gerado pela IA',
+  manual: 'Edição manual',
+  chat: 'Sugestão do chat',
+  restore: 'Restauração',
+};
+
+export const UNKNOWN_AUTHOR = 'Usuário não identificado';
+
+export function createReportVersion(text: string, source: ReportVersionSource, author: string, note?: string): ReportVersion {
+  return { id: crypto.randomUUID(), text, createdAt: Date.now(), source, author: author.trim() || UNKNOWN_AUTHOR, note };
+}
+
+// Torna a versão o texto atual do laudo e o devolve para revisão (falha se o laudo já é final).
+// O áudio combinado deixa de corresponder ao texto e é descartado; o áudio por seção continua como cache.
+export function applyReportVersion(reportData: ReportData, version: ReportVersion): ReportData {
+  return {
+    ...reportData,
+    text: version.text,
+    audioDataUrl: null,
+    versions: [...reportData.versions, version],
+    status: statusAfterEdit(reportData.status),
+  };
+}
+
+// Estudos salvos antes do histórico de versões guardavam apenas `edits` (texto e data de cada edição), e os
+// anteriores ao fluxo de assinatura não têm status. A saída original da IA é reconstruída a partir do laudo estruturado.
+type LegacyEdit = { text: string; editedAt: number; source?: 'manual' | 'chat'; note?: string };
+
+interface LegacyReportData extends Omit<ReportData, 'versions' | 'status' | 'signOffs' | 'addenda'> {
+  versions?: ReportVersion[];
+  status?: ReportStatus;
+  signOffs?: ReportSignOff[];
+  addenda?: ReportAddendum[];
+  edits?: LegacyEdit[];
+}
+
+function rebuildVersions(reportData: LegacyReportData, edits: LegacyEdit[], createdAt: number): ReportVersion[] {
+  const versions: ReportVersion[] = [];
+  if (reportData.structured) {
+    versions.push({
+      id: crypto.randomUUID(),
+      text: formatReportAsMarkdown(reportData.structured),
+      createdAt,
+      source: 'ai',
+      author: 'IA',
+    });
+  }
+  edits.forEach(edit => versions.push({
+    id: crypto.randomUUID(),
+    text: edit.text,
+    createdAt: edit.editedAt,
+    source: edit.source ?? 'manual',
+    author: UNKNOWN_AUTHOR,
+    note: edit.note,
+  }));
+  if (versions.length === 0 || versions[versions.length - 1].text !== reportData.text) {
+    versions.push({ id: crypto.randomUUID(), text: reportData.text, createdAt, source: 'manual', author: UNKNOWN_AUTHOR });
+  }
+  return versions;
+}
+
+export function upgradeReportData(reportData: LegacyReportData, createdAt: number): ReportData {
+  const { edits = [], ...rest } = reportData;
+  const versions = reportData.versions ?? rebuildVersions(reportData, edits, createdAt);
+  return {
+    ...rest,
+    versions,
+    status: reportData.status ?? (versions.length > 1 ? 'in-review' : 'draft'),
+    signOffs: reportData.signOffs ?? [],
+    addenda: reportData.addenda ?? [],
+  };
+}
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Linha do diff. Linhas alteradas ('changed') trazem também o diff palavra a palavra.
+export interface LineDiff {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  oldText?: string;
+  newText?: string;
+  words?: DiffPart[];
+}
+
+// Diff por maior subsequência comum. Laudos têm poucas dezenas de linhas, então a tabela O(n·m) é barata.
+function diffSequences(a: string[], b: string[]): DiffPart[] {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ type: 'equal', text: a[i++] });
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  return parts;
+}
+
+// Diff palavra a palavra, com trechos consecutivos do mesmo tipo agrupados (espaços incluídos).
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  const merged: DiffPart[] = [];
+  for (const part of diffSequences(tokenize(oldText), tokenize(newText))) {
+    const last = merged[merged.length - 1];
+    if (last?.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
+
+// Diff por linha; blocos de linhas removidas seguidos de adicionadas são pareados como alterações.
+export function diffReportVersions(oldText: string, newText: string): LineDiff[] {
+  const parts = diffSequences(oldText.split('\n'), newText.split('\n'));
+  const lines: LineDiff[] = [];
+  let index = 0;
+  while (index < parts.length) {
+    if (parts[index].type === 'equal') {
+      lines.push({ type: 'equal', oldText: parts[index].text, newText: parts[index].text });
+      index++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < parts.length && parts[index].type === 'removed') removed.push(parts[index++].text);
+    while (index < parts.length && parts[index].type === 'added') added.push(parts[index++].text);
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      lines.push({ type: 'changed', oldText: removed[k], newText: added[k], words: diffWords(removed[k], added[k]) });
+    }
+    removed.slice(paired).forEach(text => lines.push({ type: 'removed', oldText: text }));
+    added.slice(paired).forEach(text => lines.push({ type: 'added', newText: text }));
+  }
+  return lines;
+}
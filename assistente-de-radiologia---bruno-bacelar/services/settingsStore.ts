@@ -0,0 +1,136 @@
+import { IntegrationSettings, OpenAiCompatibleProviderSettings, PreprocessingSettings, ProviderSettings, SpeakingRate, SpeechSettings, UserProfile } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from './providers';
+import { MAX_IMAGES_PER_REPORT_LIMIT } from './reportPrompt';
+import { DEFAULT_SPEECH_SETTINGS, SPEAKING_RATES } from './speech';
+import { DEFAULT_INTEGRATION_SETTINGS } from './integrationExport';
+import { DEFAULT_PREPROCESSING_SETTINGS, MAX_DIMENSION_OPTIONS, OUTPUT_FORMAT_LABELS } from './imagePreprocessing';
+
+const PROVIDER_SETTINGS_KEY = 'rainer.providerSettings';
+const SPEECH_SETTINGS_KEY = 'rainer.speechSettings';
+const USER_PROFILE_KEY = 'rainer.userProfile';
+const INTEGRATION_SETTINGS_KEY = 'rainer.integrationSettings';
+const PREPROCESSING_SETTINGS_KEY = 'rainer.preprocessingSettings';
+
+export function clampMaxImages(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_IMAGES_PER_REPORT_LIMIT, Math.max(1, Math.round(value)))
+    : DEFAULT_PROVIDER_SETTINGS.maxImagesPerReport;
+}
+
+// Mantém só os campos conhecidos: versões antigas guardavam aqui a URL base e a chave de API,
+// que agora ficam apenas no servidor.
+function loadOpenAiCompatibleSettings(stored: unknown): OpenAiCompatibleProviderSettings {
+  const parsed = (stored && typeof stored === 'object' ? stored : {}) as Partial<Record<keyof OpenAiCompatibleProviderSettings, unknown>>;
+  const settings = { ...DEFAULT_PROVIDER_SETTINGS.openAiCompatible };
+  for (const key of Object.keys(settings) as (keyof OpenAiCompatibleProviderSettings)[]) {
+    const value = parsed[key];
+    if (typeof value === 'string') settings[key] = value;
+  }
+  return settings;
+}
+
+// Lê as configurações salvas, completando com os valores padrão campos ausentes em versões antigas.
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+    const settings: ProviderSettings = {
+      ...DEFAULT_PROVIDER_SETTINGS,
+      ...parsed,
+      gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, ...parsed.gemini },
+      openAiCompatible: loadOpenAiCompatibleSettings(parsed.openAiCompatible),
+      maxImagesPerReport: clampMaxImages(parsed.maxImagesPerReport),
+    };
+    // Regrava já sem a chave antiga, para que ela não continue no armazenamento local.
+    if (parsed.openAiCompatible && ('apiKey' in parsed.openAiCompatible || 'baseUrl' in parsed.openAiCompatible)) {
+      saveProviderSettings(settings);
+    }
+    return settings;
+  } catch (error) {
+    console.warn("Configurações de provedor inválidas no armazenamento local; usando padrões.", error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    const stored = localStorage.getItem(SPEECH_SETTINGS_KEY);
+    if (!stored) return DEFAULT_SPEECH_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<SpeechSettings>;
+    return {
+      style: typeof parsed.style === 'string' ? parsed.style : DEFAULT_SPEECH_SETTINGS.style,
+      rate: parsed.rate && parsed.rate in SPEAKING_RATES ? parsed.rate as SpeakingRate : DEFAULT_SPEECH_SETTINGS.rate,
+      lexicon: Array.isArray(parsed.lexicon)
+        ? parsed.lexicon.filter(entry => typeof entry?.term === 'string' && typeof entry?.spoken === 'string')
+          .map(entry => ({ id: typeof entry.id === 'string' ? entry.id : crypto.randomUUID(), term: entry.term, spoken: entry.spoken }))
+        : DEFAULT_SPEECH_SETTINGS.lexicon,
+    };
+  } catch (error) {
+    console.warn("Configurações de voz inválidas no armazenamento local; usando padrões.", error);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings) {
+  localStorage.setItem(SPEECH_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadUserProfile(): UserProfile {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USER_PROFILE_KEY) ?? '{}') as Partial<UserProfile>;
+    return {
+      name: typeof parsed.name === 'string' ? parsed.name : '',
+      registry: typeof parsed.registry === 'string' ? parsed.registry : '',
+    };
+  } catch (error) {
+    console.warn("Perfil de usuário inválido no armazenamento local; usando perfil vazio.", error);
+    return { name: '', registry: '' };
+  }
+}
+
+export function saveUserProfile(profile: UserProfile) {
+  localStorage.setItem(USER_PROFILE_KEY, JSON.stringify(profile));
+}
+
+export function loadIntegrationSettings(): IntegrationSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(INTEGRATION_SETTINGS_KEY) ?? '{}') as Partial<IntegrationSettings>;
+    const settings = { ...DEFAULT_INTEGRATION_SETTINGS };
+    for (const key of Object.keys(settings) as (keyof IntegrationSettings)[]) {
+      if (typeof parsed[key] === 'string') settings[key] = parsed[key];
+    }
+    return settings;
+  } catch (error) {
+    console.warn("Configurações de integração inválidas no armazenamento local; usando padrões.", error);
+    return DEFAULT_INTEGRATION_SETTINGS;
+  }
+}
+
+export function saveIntegrationSettings(settings: IntegrationSettings) {
+  localStorage.setItem(INTEGRATION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadPreprocessingSettings(): PreprocessingSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PREPROCESSING_SETTINGS_KEY) ?? '{}') as Partial<PreprocessingSettings>;
+    return {
+      maxDimension: typeof parsed.maxDimension === 'number' && MAX_DIMENSION_OPTIONS.includes(parsed.maxDimension)
+        ? parsed.maxDimension
+        : DEFAULT_PREPROCESSING_SETTINGS.maxDimension,
+      outputFormat: parsed.outputFormat && parsed.outputFormat in OUTPUT_FORMAT_LABELS ? parsed.outputFormat : DEFAULT_PREPROCESSING_SETTINGS.outputFormat,
+      normalizeContrast: typeof parsed.normalizeContrast === 'boolean' ? parsed.normalizeContrast : DEFAULT_PREPROCESSING_SETTINGS.normalizeContrast,
+    };
+  } catch (error) {
+    console.warn("Configurações de pré-processamento inválidas no armazenamento local; usando padrões.", error);
+    return DEFAULT_PREPROCESSING_SETTINGS;
+  }
+}
+
+export function savePreprocessingSettings(settings: PreprocessingSettings) {
+  localStorage.setItem(PREPROCESSING_SETTINGS_KEY, JSON.stringify(settings));
+}
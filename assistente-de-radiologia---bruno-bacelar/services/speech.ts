@@ -0,0 +1,138 @@
+import { PronunciationEntry, SpeakingRate, SpeechOptions, SpeechSettings } from '../types';
+
+// Vozes, ritmo e léxico de pronúncia usados na leitura do laudo em áudio.
+
+export interface VoiceOption {
+  id: string;
+  description: string;
+}
+
+// Vozes pré-definidas do Gemini TTS (todas falam português; o nome define timbre e caráter).
+export const GEMINI_VOICES: VoiceOption[] = [
+  { id: 'Vindemiatrix', description: 'Suave' },
+  { id: 'Kore', description: 'Firme' },
+  { id: 'Charon', description: 'Informativa' },
+  { id: 'Schedar', description: 'Equilibrada' },
+  { id: 'Sulafat', description: 'Acolhedora' },
+  { id: 'Achird', description: 'Amigável' },
+  { id: 'Gacrux', description: 'Madura' },
+  { id: 'Iapetus', description: 'Clara' },
+  { id: 'Erinome', description: 'Clara' },
+  { id: 'Rasalgethi', description: 'Informativa' },
+  { id: 'Sadaltager', description: 'Conhecedora' },
+  { id: 'Alnilam', description: 'Firme' },
+  { id: 'Orus', description: 'Firme' },
+  { id: 'Achernar', description: 'Suave' },
+  { id: 'Algieba', description: 'Suave' },
+  { id: 'Despina', description: 'Suave' },
+  { id: 'Enceladus', description: 'Sussurrada' },
+  { id: 'Umbriel', description: 'Descontraída' },
+  { id: 'Zubenelgenubi', description: 'Casual' },
+  { id: 'Callirrhoe', description: 'Descontraída' },
+  { id: 'Aoede', description: 'Leve' },
+  { id: 'Autonoe', description: 'Brilhante' },
+  { id: 'Zephyr', description: 'Brilhante' },
+  { id: 'Leda', description: 'Jovial' },
+  { id: 'Puck', description: 'Animada' },
+  { id: 'Laomedeia', description: 'Animada' },
+  { id: 'Fenrir', description: 'Empolgada' },
+  { id: 'Sadachbia', description: 'Vivaz' },
+  { id: 'Pulcherrima', description: 'Assertiva' },
+  { id: 'Algenib', description: 'Rouca' },
+];
+
+export const OPENAI_VOICES: VoiceOption[] = [
+  'alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse',
+].map(id => ({ id, description: '' }));
+
+export const SPEAKING_RATES: Record<SpeakingRate, { label: string; speed: number; instruction: string }> = {
+  slow: { label: 'Lento', speed: 0.85, instruction: 'em ritmo lento e pausado' },
+  normal: { label: 'Normal', speed: 1, instruction: '' },
+  fast: { label: 'Rápido', speed: 1.2, instruction: 'em ritmo um pouco mais rápido' },
+};
+
+export const DEFAULT_PRONUNCIATION_LEXICON: PronunciationEntry[] = [
+  ['TC', 'tomografia computadorizada'],
+  ['RM', 'ressonância magnética'],
+  ['RX', 'raio X'],
+  ['US', 'ultrassonografia'],
+  ['USG', 'ultrassonografia'],
+  ['PA', 'póstero-anterior'],
+  ['AP', 'ântero-posterior'],
+  ['BI-RADS', 'birads'],
+  ['UH', 'unidades Hounsfield'],
+  ['HU', 'unidades Hounsfield'],
+  ['T1', 'tê um'],
+  ['T2', 'tê dois'],
+  ['mm', 'milímetros'],
+  ['cm', 'centímetros'],
+  ['cm²', 'centímetros quadrados'],
+  ['cm³', 'centímetros cúbicos'],
+  ['mL', 'mililitros'],
+  ['ml', 'mililitros'],
+  ['x', 'por'],
+].map(([term, spoken]) => ({ id: `default-${term}`, term, spoken }));
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  style: 'Leia como um radiologista ditando o laudo, em tom calmo e profissional',
+  rate: 'normal',
+  lexicon: DEFAULT_PRONUNCIATION_LEXICON,
+};
+
+export const SPEECH_PREVIEW_TEXT = 'TC de tórax: nódulo de 8 mm no lobo superior direito, medindo 0,8 x 0,6 cm.';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Substitui os termos do léxico pela forma falada antes da síntese. A comparação diferencia maiúsculas
+// ("TC" não casa com "tc") e exige que o termo não esteja colado a outras letras; unidades coladas ao número
+// ("5mm") também são expandidas. Termos mais longos têm prioridade ("cm³" antes de "cm") e o texto
+// substituído não é reprocessado.
+export function applyPronunciationLexicon(text: string, lexicon: PronunciationEntry[]): string {
+  const entries = lexicon.filter(entry => entry.term.trim() && entry.spoken.trim());
+  if (entries.length === 0) return text;
+  const spokenByTerm = new Map(entries.map(entry => [entry.term.trim(), entry.spoken.trim()]));
+  const alternatives = [...spokenByTerm.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'gu');
+  return text.replace(pattern, (match, offset: number) => {
+    const spoken = spokenByTerm.get(match) ?? match;
+    return /\d/.test(text[offset - 1] ?? '') ? ` ${spoken}` : spoken;
+  });
+}
+
+// Instrução em linguagem natural para modelos de voz que aceitam orientação de estilo.
+export function buildSpeechStyleInstruction(options: SpeechOptions): string {
+  return [options.style.trim(), SPEAKING_RATES[options.rate].instruction].filter(Boolean).join(', ');
+}
+
+export interface SpeechSection {
+  label: string;
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+const SECTION_HEADING = /^\s*\*\*(.+?):\*\*/;
+
+// Divide o laudo em trechos de leitura: cada rótulo em maiúsculas ("**TÉCNICA:**", "**ACHADOS:**") abre uma
+// seção; título e campos de identificação ("Data do exame", "Modalidade") formam a seção inicial.
+export function splitReportForSpeech(reportText: string): SpeechSection[] {
+  const sections: SpeechSection[] = [];
+  const parts: string[][] = [];
+  reportText.split('\n').forEach((line, index) => {
+    const label = line.match(SECTION_HEADING)?.[1].trim();
+    const opensSection = !!label && label === label.toUpperCase() && /\p{L}/u.test(label);
+    if (opensSection || sections.length === 0) {
+      sections.push({ label: opensSection ? label : 'Identificação', text: '', startLine: index, endLine: index });
+      parts.push([]);
+    }
+    const spoken = line.replace(/\*\*(.*?)\*\*/g, '$1').replace(/^\s*[-•]\s*/, '').trim();
+    if (spoken) parts[parts.length - 1].push(spoken);
+    sections[sections.length - 1].endLine = index;
+  });
+  return sections
+    .map((section, index) => ({ ...section, text: parts[index].join('\n') }))
+    .filter(section => section.text);
+}
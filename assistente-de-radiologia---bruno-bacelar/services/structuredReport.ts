@@ -0,0 +1,308 @@
+import { Schema, Type } from "@google/genai";
+import { ImageFinding, ParsedReportText, ReportConfidence, ReportSection, StructuredReport, TemplateSectionContent } from '../types';
+
+const CONFIDENCE_VALUES: ReportConfidence[] = ['baixa', 'moderada', 'alta'];
+
+const CONFIDENCE_LABELS: Record<ReportConfidence, string> = {
+  baixa: 'Baixa',
+  moderada: 'Moderada',
+  alta: 'Alta',
+};
+
+// Schema enviado como responseSchema: o modelo passa a responder com JSON neste formato.
+export const STRUCTURED_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    examDate: { type: Type.STRING, description: "Data do exame no formato DD/MM/AAAA." },
+    modality: { type: Type.STRING, description: "Modalidade(s) do exame ou 'Não especificado'." },
+    bodyRegion: { type: Type.STRING, description: "Região anatômica examinada, se conhecida." },
+    technique: { type: Type.STRING, description: "Técnica de imagem observável ou 'Não especificado'." },
+    comparison: { type: Type.STRING, description: "Evolução em relação ao exame anterior, apenas quando houver exame anterior." },
+    findings: {
+      type: Type.ARRAY,
+      description: "Achados, um item por imagem ou 'Geral' para achados consolidados.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          image: { type: Type.STRING, description: "Identificador da imagem, ex: 'Imagem 1', ou 'Geral'." },
+          description: { type: Type.STRING },
+        },
+        required: ['image', 'description'],
+        propertyOrdering: ['image', 'description'],
+      },
+    },
+    impression: { type: Type.STRING, description: "Impressão diagnóstica consolidada." },
+    additionalSections: {
+      type: Type.ARRAY,
+      description: "Seções próprias do modelo de laudo selecionado, na ordem pedida. Lista vazia se nenhum modelo definir seções.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          heading: { type: Type.STRING },
+          content: { type: Type.STRING },
+        },
+        required: ['heading', 'content'],
+        propertyOrdering: ['heading', 'content'],
+      },
+    },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    confidence: { type: Type.STRING, enum: CONFIDENCE_VALUES, description: "Grau de confiança da análise." },
+  },
+  required: ['examDate', 'modality', 'technique', 'findings', 'impression', 'recommendations', 'confidence'],
+  propertyOrdering: ['examDate', 'modality', 'bodyRegion', 'technique', 'comparison', 'findings', 'impression', 'additionalSections', 'recommendations', 'confidence'],
+};
+
+function fieldError(field: string, expected: string): Error {
+  return new Error(`Resposta do modelo fora do formato esperado: o campo '${field}' deveria ser ${expected}.`);
+}
+
+function requireString(source: Record<string, unknown>, field: string): string {
+  const value = source[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw fieldError(field, 'um texto não vazio');
+  }
+  return value.trim();
+}
+
+// Modelos às vezes envolvem o JSON num bloco ```json ou escrevem uma frase antes dele:
+// fica só o trecho a partir do primeiro '{', sem a cerca de fechamento.
+function extractJsonText(raw: string): string {
+  const start = raw.indexOf('{');
+  return (start >= 0 ? raw.slice(start) : raw).replace(/\s*```\s*$/, '').trim();
+}
+
+// Valida o JSON recebido do modelo e o converte em StructuredReport.
+export function parseStructuredReport(rawJson: string): StructuredReport {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonText(rawJson));
+  } catch {
+    throw new Error("Resposta do modelo não é um JSON válido.");
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error("Resposta do modelo fora do formato esperado: esperado um objeto JSON.");
+  }
+  const source = data as Record<string, unknown>;
+
+  if (!Array.isArray(source.findings) || source.findings.length === 0) {
+    throw fieldError('findings', 'uma lista com ao menos um achado');
+  }
+  const findings: ImageFinding[] = source.findings.map((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      throw fieldError(`findings[${index}]`, 'um objeto');
+    }
+    const finding = item as Record<string, unknown>;
+    return {
+      image: typeof finding.image === 'string' ? finding.image.trim() : '',
+      description: requireString(finding, 'description'),
+    };
+  });
+
+  if (!Array.isArray(source.recommendations) || source.recommendations.some(r => typeof r !== 'string')) {
+    throw fieldError('recommendations', 'uma lista de textos');
+  }
+
+  const confidence = typeof source.confidence === 'string' ? source.confidence.trim().toLowerCase() : '';
+  if (!CONFIDENCE_VALUES.includes(confidence as ReportConfidence)) {
+    throw fieldError('confidence', `um dos valores ${CONFIDENCE_VALUES.join(', ')}`);
+  }
+
+  let additionalSections: TemplateSectionContent[] | undefined;
+  if (source.additionalSections !== undefined) {
+    if (!Array.isArray(source.additionalSections)) {
+      throw fieldError('additionalSections', 'uma lista de seções');
+    }
+    additionalSections = source.additionalSections.map((item, index) => {
+      if (typeof item !== 'object' || item === null) {
+        throw fieldError(`additionalSections[${index}]`, 'um objeto');
+      }
+      const section = item as Record<string, unknown>;
+      return { heading: requireString(section, 'heading'), content: requireString(section, 'content') };
+    });
+    if (additionalSections.length === 0) additionalSections = undefined;
+  }
+
+  const bodyRegion = typeof source.bodyRegion === 'string' && source.bodyRegion.trim() !== ''
+    ? source.bodyRegion.trim()
+    : undefined;
+  const comparison = typeof source.comparison === 'string' && source.comparison.trim() !== ''
+    ? source.comparison.trim()
+    : undefined;
+
+  return {
+    examDate: requireString(source, 'examDate'),
+    modality: requireString(source, 'modality'),
+    bodyRegion,
+    technique: requireString(source, 'technique'),
+    comparison,
+    findings,
+    impression: requireString(source, 'impression'),
+    additionalSections,
+    recommendations: (source.recommendations as string[]).map(r => r.trim()).filter(Boolean),
+    confidence: confidence as ReportConfidence,
+  };
+}
+
+// Fecha strings, objetos e listas abertos de um JSON truncado (ex: durante o streaming)
+// para que ele possa ser interpretado. Retorna undefined se nada aproveitável existir ainda.
+function parsePartialJson(text: string): unknown {
+  const closeOpenStructures = (fragment: string): string => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const char of fragment) {
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') inString = true;
+      else if (char === '{') stack.push('}');
+      else if (char === '[') stack.push(']');
+      else if (char === '}' || char === ']') stack.pop();
+    }
+    let completed = fragment;
+    if (inString) {
+      if (escaped) completed = completed.slice(0, -1);
+      completed += '"';
+    }
+    completed = completed.replace(/[\s,]+$/, '');
+    return completed + stack.reverse().join('');
+  };
+
+  if (!text.includes('{')) return undefined;
+  const json = extractJsonText(text);
+  let end = json.length;
+  while (end > 0) {
+    try {
+      return JSON.parse(closeOpenStructures(json.slice(0, end)));
+    } catch {
+      // Recua até o separador anterior (ex: chave sem valor ainda) e tenta de novo; `end` sempre diminui.
+      let next = Math.max(json.lastIndexOf(',', end - 1), json.lastIndexOf('{', end - 1), json.lastIndexOf('[', end - 1));
+      if (next >= 0 && json[next] !== ',') next += 1;
+      end = Math.min(next, end - 1);
+    }
+  }
+  return undefined;
+}
+
+// Interpretação tolerante usada para renderizar o laudo enquanto ele ainda está sendo gerado.
+// Nenhuma validação é feita: campos ausentes ou incompletos simplesmente não aparecem.
+export function parsePartialStructuredReport(rawJson: string): Partial<StructuredReport> {
+  const data = parsePartialJson(rawJson);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return {};
+  const source = data as Record<string, unknown>;
+  const partial: Partial<StructuredReport> = {};
+
+  for (const field of ['examDate', 'modality', 'bodyRegion', 'technique', 'comparison', 'impression'] as const) {
+    const value = source[field];
+    if (typeof value === 'string' && value.trim() !== '') partial[field] = value;
+  }
+  if (Array.isArray(source.findings)) {
+    partial.findings = source.findings
+      .filter((f): f is Record<string, unknown> => typeof f === 'object' && f !== null && typeof f.description === 'string')
+      .map(f => ({ image: typeof f.image === 'string' ? f.image : '', description: f.description as string }));
+  }
+  if (Array.isArray(source.additionalSections)) {
+    const sections = source.additionalSections
+      .filter((s): s is Record<string, unknown> => typeof s === 'object' && s !== null && typeof s.heading === 'string' && typeof s.content === 'string')
+      .map(s => ({ heading: s.heading as string, content: s.content as string }));
+    if (sections.length > 0) partial.additionalSections = sections;
+  }
+  if (Array.isArray(source.recommendations)) {
+    partial.recommendations = source.recommendations.filter((r): r is string => typeof r === 'string');
+  }
+  if (typeof source.confidence === 'string' && CONFIDENCE_VALUES.includes(source.confidence as ReportConfidence)) {
+    partial.confidence = source.confidence as ReportConfidence;
+  }
+  return partial;
+}
+
+interface ReportLine {
+  label: string;
+  value: string;
+}
+
+// Aceita laudos parciais (streaming): apenas os campos já presentes viram linhas.
+function toReportLines(report: Partial<StructuredReport>): { title: string; lines: ReportLine[] } {
+  const lines: ReportLine[] = [];
+  const push = (label: string, value: string | undefined) => {
+    if (value !== undefined) lines.push({ label, value });
+  };
+
+  push('Paciente:', report.patient);
+  push('Data do exame:', report.examDate);
+  push('Modalidade:', report.modality);
+  push('Região examinada:', report.bodyRegion);
+  push('Indicação clínica:', report.clinicalIndication);
+  push('Médico solicitante:', report.requestingPhysician);
+  if (report.examDate) {
+    push('Processamento:', 'Análise assistida por IA');
+  }
+  push('TÉCNICA:', report.technique);
+  push('COMPARAÇÃO:', report.comparison);
+  if (report.findings && report.findings.length > 0) {
+    const findings = report.findings
+      .map(f => (f.image ? `- ${f.image}: ${f.description}` : `- ${f.description}`))
+      .join('\n');
+    push('ACHADOS:', `\n${findings}`);
+  }
+  push('IMPRESSÃO DIAGNÓSTICA:', report.impression);
+  for (const section of report.additionalSections ?? []) {
+    push(`${section.heading.trim().replace(/:$/, '').toUpperCase()}:`, section.content);
+  }
+  if (report.recommendations) {
+    const recommendations = report.recommendations.length > 0
+      ? report.recommendations.map(r => `- ${r}`).join('\n')
+      : 'Nenhuma.';
+    push('RECOMENDAÇÕES:', `\n${recommendations}`);
+  }
+  push('GRAU DE CONFIANÇA:', report.confidence && CONFIDENCE_LABELS[report.confidence]);
+  return { title: 'RELATÓRIO DE IMAGEM', lines };
+}
+
+const joinLine = (label: string, value: string) => `${label}${value.startsWith('\n') ? '' : ' '}${value}`;
+
+// Renderiza o laudo no mesmo modelo Markdown usado antes da saída estruturada,
+// de modo que a visualização e a edição em ReportOutput continuem funcionando.
+export function formatReportAsMarkdown(report: Partial<StructuredReport>): string {
+  const { title, lines } = toReportLines(report);
+  return [`**${title}**`, ...lines.map(line => joinLine(`**${line.label}**`, line.value))].join('\n');
+}
+
+export function formatReportAsPlainText(report: Partial<StructuredReport>): string {
+  const { title, lines } = toReportLines(report);
+  return [title, ...lines.map(line => joinLine(line.label, line.value))].join('\n');
+}
+
+const BOLD_LINE = /^\s*\*\*(.+?)\*\*\s*(.*)$/;
+
+// Faz o caminho inverso de formatReportAsMarkdown sobre o texto exibido, que pode ter sido
+// editado: cada linha iniciada por "**Rótulo:**" abre uma seção e as linhas seguintes são anexadas a ela.
+export function parseReportSections(markdown: string): ParsedReportText {
+  let title = '';
+  const sections: ReportSection[] = [];
+  for (const line of markdown.split('\n')) {
+    const match = line.match(BOLD_LINE);
+    if (match && !title && sections.length === 0 && !match[2] && !match[1].trim().endsWith(':')) {
+      title = match[1].trim();
+      continue;
+    }
+    if (match && match[1].trim().endsWith(':')) {
+      sections.push({ label: match[1].trim().replace(/:$/, ''), content: match[2].trim() });
+      continue;
+    }
+    const text = line.replace(/\*\*(.*?)\*\*/g, '$1').trimEnd();
+    const current = sections[sections.length - 1];
+    if (current) {
+      current.content = current.content ? `${current.content}\n${text}` : text;
+    } else if (text.trim()) {
+      sections.push({ label: '', content: text });
+    }
+  }
+  for (const section of sections) {
+    section.content = section.content.trim();
+  }
+  return { title: title || 'RELATÓRIO DE IMAGEM', sections };
+}
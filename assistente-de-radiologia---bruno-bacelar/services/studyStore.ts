@@ -0,0 +1,143 @@
+import { StudyRecord, StudySummary } from '../types';
+import { upgradeReportData } from './reportVersions';
+
+// Histórico de estudos no IndexedDB. Os registros completos (imagens, áudio) ficam em um
+// object store separado dos resumos, para que a listagem não precise carregar os binários.
+
+const DB_NAME = 'rainer';
+const DB_VERSION = 1;
+const STUDIES_STORE = 'studies';
+const SUMMARIES_STORE = 'studySummaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STUDIES_STORE)) {
+          db.createObjectStore(STUDIES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+          summaries.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transação abortada."));
+  });
+}
+
+export function summarizeStudy(record: StudyRecord): StudySummary {
+  const { structured } = record.reportData;
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    prompt: record.prompt,
+    modality: structured?.modality,
+    impression: structured?.impression,
+    imageCount: record.processedFiles.length + record.urlEntries.filter(entry => entry.value.trim()).length,
+    hasAudio: !!record.reportData.audioDataUrl,
+    status: record.reportData.status,
+    deidentification: record.deidentification && {
+      boxCount: record.deidentification.boxCount,
+      phiValuesScrubbed: record.deidentification.phiValuesScrubbed,
+      unreviewedImageCount: record.deidentification.unreviewedImageCount,
+    },
+  };
+}
+
+// Resumos ordenados do estudo alterado mais recentemente para o mais antigo.
+export async function listStudies(): Promise<StudySummary[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE);
+    const summaries = await requestToPromise(store.index('updatedAt').getAll() as IDBRequest<StudySummary[]>);
+    return summaries.reverse();
+  } catch (error) {
+    console.error("Erro ao listar estudos do histórico:", error);
+    throw new Error(`Falha ao carregar o histórico: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function getStudy(id: string): Promise<StudyRecord | null> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STUDIES_STORE, 'readonly').objectStore(STUDIES_STORE);
+    const record = await requestToPromise(store.get(id) as IDBRequest<StudyRecord | undefined>);
+    return record ? { ...record, reportData: upgradeReportData(record.reportData, record.createdAt) } : null;
+  } catch (error) {
+    console.error("Erro ao abrir estudo do histórico:", error);
+    throw new Error(`Falha ao abrir o estudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function saveStudy(record: StudyRecord): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STUDIES_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(STUDIES_STORE).put(record);
+    transaction.objectStore(SUMMARIES_STORE).put(summarizeStudy(record));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error("Erro ao salvar estudo no histórico:", error);
+    throw new Error(`Falha ao salvar o estudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function deleteStudy(id: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STUDIES_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(STUDIES_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error("Erro ao excluir estudo do histórico:", error);
+    throw new Error(`Falha ao excluir o estudo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Cria uma cópia independente do estudo, com novo id e datas, e a salva no histórico.
+export async function duplicateStudy(id: string): Promise<StudyRecord> {
+  const original = await getStudy(id);
+  if (!original) {
+    throw new Error("Falha ao duplicar o estudo: estudo não encontrado no histórico.");
+  }
+  const now = Date.now();
+  const copy: StudyRecord = {
+    ...original,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    processedFiles: original.processedFiles.map(file => ({ ...file, id: crypto.randomUUID() })),
+    urlEntries: original.urlEntries.map(entry => ({ ...entry, id: crypto.randomUUID() })),
+    // As assinaturas pertencem ao laudo original; a cópia recomeça como rascunho.
+    reportData: { ...original.reportData, status: 'draft', signOffs: [], addenda: [] },
+  };
+  await saveStudy(copy);
+  return copy;
+}
@@ -0,0 +1,91 @@
+import { ReportTemplate } from '../types';
+import { DEFAULT_REPORT_TEMPLATES } from './reportTemplates';
+
+const TEMPLATES_KEY = 'rainer.reportTemplates';
+const SELECTED_TEMPLATE_KEY = 'rainer.selectedTemplateId';
+const EXPORT_FORMAT_VERSION = 1;
+
+// Converte um objeto desconhecido (armazenamento ou arquivo importado) em ReportTemplate,
+// preenchendo campos opcionais ausentes. Retorna null se não houver ao menos um nome.
+function toTemplate(value: unknown): ReportTemplate | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const source = value as Record<string, unknown>;
+  const text = (field: string) => (typeof source[field] === 'string' ? (source[field] as string) : '');
+  const name = text('name').trim();
+  if (!name) return null;
+  return {
+    id: text('id').trim() || crypto.randomUUID(),
+    name,
+    examType: text('examType'),
+    defaultPrompt: text('defaultPrompt'),
+    sectionHeadings: Array.isArray(source.sectionHeadings)
+      ? source.sectionHeadings.filter((h): h is string => typeof h === 'string' && h.trim() !== '').map(h => h.trim())
+      : [],
+    normalFindings: text('normalFindings'),
+    instructions: text('instructions'),
+  };
+}
+
+export function loadReportTemplates(): ReportTemplate[] {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_KEY);
+    if (!stored) return DEFAULT_REPORT_TEMPLATES;
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return DEFAULT_REPORT_TEMPLATES;
+    return parsed.map(toTemplate).filter((t): t is ReportTemplate => t !== null);
+  } catch (error) {
+    console.warn("Modelos de laudo inválidos no armazenamento local; usando padrões.", error);
+    return DEFAULT_REPORT_TEMPLATES;
+  }
+}
+
+export function saveReportTemplates(templates: ReportTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function loadSelectedTemplateId(): string | null {
+  return localStorage.getItem(SELECTED_TEMPLATE_KEY);
+}
+
+export function saveSelectedTemplateId(id: string | null) {
+  if (id) {
+    localStorage.setItem(SELECTED_TEMPLATE_KEY, id);
+  } else {
+    localStorage.removeItem(SELECTED_TEMPLATE_KEY);
+  }
+}
+
+export function serializeReportTemplates(templates: ReportTemplate[]): string {
+  return JSON.stringify({ version: EXPORT_FORMAT_VERSION, templates }, null, 2);
+}
+
+// Aceita tanto o formato exportado ({ version, templates }) quanto uma lista simples de modelos.
+export function parseReportTemplatesJson(json: string): ReportTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Falha ao importar modelos: o arquivo não é um JSON válido.");
+  }
+  const list = Array.isArray(data)
+    ? data
+    : (typeof data === 'object' && data !== null && Array.isArray((data as Record<string, unknown>).templates))
+      ? (data as { templates: unknown[] }).templates
+      : null;
+  if (!list) {
+    throw new Error("Falha ao importar modelos: esperada uma lista de modelos de laudo.");
+  }
+  const templates = list.map(toTemplate).filter((t): t is ReportTemplate => t !== null);
+  if (templates.length === 0) {
+    throw new Error("Falha ao importar modelos: nenhum modelo válido encontrado no arquivo.");
+  }
+  return templates;
+}
+
+// Modelos importados substituem os existentes com o mesmo id; os demais são acrescentados.
+export function mergeReportTemplates(current: ReportTemplate[], imported: ReportTemplate[]): ReportTemplate[] {
+  const importedById = new Map(imported.map(t => [t.id, t]));
+  const merged = current.map(t => importedById.get(t.id) ?? t);
+  const currentIds = new Set(current.map(t => t.id));
+  return [...merged, ...imported.filter(t => !currentIds.has(t.id))];
+}
@@ -1,6 +1,195 @@
 export interface ReportData {
   text: string;
   audioDataUrl: string | null;
+  // Laudo estruturado retornado pelo modelo. Reflete a saída original da IA;
+  // edições manuais alteram apenas `text`.
+  structured: StructuredReport | null;
+  // Todas as versões do texto, da mais antiga para a mais recente; a última é sempre igual a `text`.
+  // Nunca são removidas: restaurar uma versão antiga cria uma nova.
+  versions: ReportVersion[];
+  status: ReportStatus;
+  signOffs: ReportSignOff[]; // Assinaturas (preliminar e final), da mais antiga para a mais recente
+  addenda: ReportAddendum[]; // Adendos assinados após o laudo final; o texto final não muda mais
+  // Áudio por seção que compõe `audioDataUrl`. Continua salvo depois de uma edição (quando o áudio
+  // combinado é descartado) para que apenas as seções alteradas sejam sintetizadas de novo.
+  audioSegments?: ReportAudioSegment[];
+  chat?: ReportChatMessage[]; // Conversa de acompanhamento sobre este laudo e as mesmas imagens
+  criticalFindings?: CriticalFindingsAssessment; // Segunda leitura do laudo em busca de achados críticos
+  criticalNotification?: CriticalFindingsNotification; // Exigida antes da assinatura final quando há achados críticos
+}
+
+export interface ReportAudioSegment {
+  label: string;          // Rótulo da seção ("TÉCNICA", "ACHADOS"...) ou "Identificação" para o cabeçalho
+  hash: string;           // SHA-256 do texto falado e das configurações de voz
+  audioDataUrl: string;   // WAV apenas desta seção
+  startSeconds: number;   // Início da seção no áudio combinado
+  durationSeconds: number;
+  startLine: number;      // Linhas do texto do laudo lidas nesta seção (para o destaque durante a reprodução)
+  endLine: number;
+}
+
+// Seção do laudo lida de volta do texto Markdown (que pode ter sido editado manualmente).
+export interface ReportSection {
+  label: string;   // Rótulo sem os asteriscos e sem ':' final; vazio para texto antes da primeira seção
+  content: string; // Pode conter várias linhas (ex: listas de achados)
+}
+
+export interface ParsedReportText {
+  title: string;
+  sections: ReportSection[];
+}
+
+// 'ai': laudo gerado (inclusive cada nova geração no mesmo estudo); 'chat': sugestão do chat aplicada.
+export type ReportVersionSource = 'ai' | 'manual' | 'chat' | 'restore';
+
+export interface ReportVersion {
+  id: string;
+  text: string;
+  createdAt: number; // Date.now() no momento em que a versão foi salva
+  source: ReportVersionSource;
+  author: string;    // Usuário que salvou; para versões da IA, o provedor e o modelo
+  note?: string;     // Pergunta do chat que originou a sugestão, versão restaurada etc.
+}
+
+// Ciclo de vida do laudo: rascunho da IA → em revisão → preliminar → final → adendo.
+// A partir de 'final' o texto fica bloqueado; 'addendum' indica um laudo final com adendos.
+export type ReportStatus = 'draft' | 'in-review' | 'preliminary' | 'final' | 'addendum';
+
+export interface ReportSignOff {
+  status: 'preliminary' | 'final';
+  name: string;
+  registry: string;  // Registro profissional do radiologista que assinou
+  signedAt: number;
+  versionId: string; // Versão do texto que foi assinada
+}
+
+export interface ReportAddendum {
+  id: string;
+  text: string;
+  name: string;
+  registry: string;
+  signedAt: number;
+}
+
+// Achados críticos exigem comunicação imediata ao médico assistente; urgentes, em poucas horas.
+export type CriticalFindingSeverity = 'critical' | 'urgent';
+
+export interface CriticalFinding {
+  finding: string;   // ex: "Pneumotórax à direita"
+  severity: CriticalFindingSeverity;
+  excerpt?: string;  // Trecho do laudo que motivou o alerta
+}
+
+export interface CriticalFindingsAssessment {
+  findings: CriticalFinding[];
+  source: 'model' | 'rules'; // 'rules' quando o modelo falhou e valeu a lista de palavras-chave
+  assessedAt: number;
+  versionId?: string;        // Versão do texto avaliada
+  fallbackReason?: string;   // Erro do modelo que levou ao uso das regras
+}
+
+// Registro de quem recebeu a comunicação dos achados críticos.
+export interface CriticalFindingsNotification {
+  notifiedPerson: string; // Nome e função de quem foi comunicado (ex: "Dr. Fulano, plantonista do PS")
+  method: string;         // ex: "Telefone"
+  notifiedAt: number;
+  acknowledgedBy: string; // Radiologista que registrou a comunicação
+  recordedAt: number;
+  versionId?: string;     // Versão do texto da avaliação comunicada (`CriticalFindingsAssessment.versionId`)
+}
+
+// Identificação de quem usa a aplicação neste navegador, registrada como autor das versões do laudo.
+export interface UserProfile {
+  name: string;
+  registry: string; // Registro profissional (ex: CRM-SP 123456)
+}
+
+// Identificação do paciente e do estudo para as exportações HL7 v2 e FHIR, digitada na interface
+// (pré-preenchida com os metadados DICOM, quando houver).
+export interface PatientStudyIdentifiers {
+  patientId: string;        // Prontuário / ID do paciente no RIS
+  patientName: string;      // Nome completo; o último termo é tratado como sobrenome
+  birthDate: string;        // 'AAAA-MM-DD' ou vazio
+  sex: 'M' | 'F' | 'O' | 'U';
+  accessionNumber: string;  // Número de acesso do pedido
+  studyInstanceUid: string; // Vazio quando as imagens não vieram de DICOM
+  modality: string;         // Código DICOM (ex: 'CR', 'CT')
+  studyDate: string;        // 'AAAA-MM-DD' ou vazio
+  studyDescription: string;
+  orderingProvider: string; // Médico solicitante
+}
+
+// Laudo e imagens a exportar para o RIS/PEP.
+export interface ReportExportInput {
+  identifiers: PatientStudyIdentifiers;
+  report: Pick<ReportData, 'text' | 'structured' | 'status' | 'signOffs' | 'addenda'>;
+  images: ProcessedImageFile[]; // Referenciadas como Media no FHIR
+  issuedAt: Date;
+}
+
+// Destinos das exportações, salvos no navegador. Endpoints vazios desabilitam o envio (só download).
+export interface IntegrationSettings {
+  hl7Endpoint: string;   // Recebe a mensagem ORU^R01 por HTTP POST
+  fhirEndpoint: string;  // Base do servidor FHIR R4; o Bundle de transação é enviado por POST
+  authorization: string; // Valor do cabeçalho Authorization, se o destino exigir
+  sendingFacility: string; // MSH-4
+  receivingApplication: string; // MSH-5
+  receivingFacility: string;    // MSH-6
+}
+
+export type ReportChatRole = 'user' | 'assistant';
+
+export interface ReportChatMessage {
+  id: string;
+  role: ReportChatRole;
+  text: string;
+  createdAt: number;
+  suggestedReport?: string; // Texto completo do laudo proposto pelo assistente, aplicável com um clique
+  appliedAt?: number;       // Quando a sugestão foi aplicada ao laudo
+}
+
+// Pergunta de acompanhamento: as mesmas imagens e o laudo atual como contexto, mais o histórico da conversa.
+// A última mensagem de `messages` é a pergunta do usuário.
+export interface ReportChatRequest {
+  images: ReportImageInput[];
+  studyInfo?: DicomStudyInfo;
+  reportText: string;
+  messages: { role: ReportChatRole; text: string }[];
+}
+
+export interface ReportChatReply {
+  reply: string;
+  revisedReport?: string; // Presente quando o modelo propõe uma alteração no laudo
+}
+
+export type ReportConfidence = 'baixa' | 'moderada' | 'alta';
+
+export interface ImageFinding {
+  image: string; // Identificador da imagem (ex: "Imagem 1") ou "Geral" para achados consolidados
+  description: string;
+}
+
+// Seção extra definida por um modelo de laudo (ex: "CATEGORIA BI-RADS").
+export interface TemplateSectionContent {
+  heading: string;
+  content: string;
+}
+
+// Formato que o modelo deve retornar (via response schema) e a partir do qual o texto do laudo é renderizado.
+export interface StructuredReport {
+  patient?: string;             // Preenchidos a partir do contexto clínico informado, nunca pelo modelo
+  clinicalIndication?: string;
+  requestingPhysician?: string;
+  examDate: string;
+  modality: string;
+  bodyRegion?: string;
+  technique: string;
+  comparison?: string; // Evolução em relação ao exame anterior; presente apenas no modo de comparação
+  findings: ImageFinding[];
+  impression: string;
+  additionalSections?: TemplateSectionContent[]; // Presente quando o modelo de laudo define seções próprias
+  recommendations: string[];
+  confidence: ReportConfidence;
 }
 
 export interface ProcessedImageFile {
@@ -9,45 +198,324 @@ export interface ProcessedImageFile {
   mimeType: string;
   base64: string;
   previewUrl: string; // Data URL para <img src>
+  dicom?: DicomImageInfo; // Presente apenas quando o arquivo original era DICOM (.dcm)
+  annotation?: ImageAnnotation;
+  redaction?: ImageRedaction; // Tarjas aplicadas sobre os pixels antes do envio ao modelo
+  preprocessing?: ImagePreprocessing; // Como base64/previewUrl foram gerados a partir da imagem carregada
 }
 
-export interface UrlImageEntry {
-  id: string; // Para keys em listas React
-  value: string;
+// Quadro de uma série carregada: um arquivo, ou um quadro de um DICOM multiquadro, decodificado só quando exibido.
+export interface SeriesFrame {
+  file: File;
+  kind: 'dicom' | 'image';
+  frameIndex: number; // 0 em arquivos de um único quadro
+  label: string; // ex: "Corte 12 · 35,0 mm"
+}
+
+// Série em preparação (pasta ou arquivo multiquadro). Fica só na tela: apenas os cortes-chave
+// escolhidos viram imagens do exame e são salvos no histórico.
+export interface ImageSeries {
+  id: string;
+  name: string;
+  modality?: string;
+  frames: SeriesFrame[];
+  keyFrames: number[]; // Índices em frames, em ordem crescente
+}
+
+export type PreprocessedImageFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+// Pipeline aplicado às imagens carregadas antes do envio, salvo no navegador.
+export interface PreprocessingSettings {
+  maxDimension: number; // Lado maior em pixels; imagens menores não são ampliadas
+  outputFormat: PreprocessedImageFormat;
+  normalizeContrast: boolean; // Valor inicial da normalização de contraste em novas imagens
+}
+
+// Recorte em frações (0 a 1) da imagem já girada/espelhada, como em RegionOfInterest.
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
+// Receita dos pixels enviados. Toda alteração é refeita a partir da origem, nunca sobre o resultado,
+// para que girar, recortar ou mudar o tamanho máximo não acumule perdas.
+export interface ImagePreprocessing {
+  sourceDataUrl: string; // Imagem como carregada (ou renderizada do DICOM)
+  sourceWidth: number;
+  sourceHeight: number;
+  originalBytes: number; // Tamanho do arquivo carregado
+  flipHorizontal: boolean; // Aplicado antes da rotação
+  rotation: 0 | 90 | 180 | 270; // Sentido horário
+  crop?: ImageCrop;
+  normalizeContrast: boolean; // CLAHE sobre a luminância
+  width: number; // Dimensões do resultado
+  height: number;
+}
+
+// Tarja preta sobre texto gravado na imagem (nome, registro, datas). Coordenadas em frações
+// da imagem, como em RegionOfInterest.
+export interface RedactionBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  source: 'detected' | 'manual'; // Encontrada pela detecção local de texto ou desenhada pelo usuário
+}
+
+// A imagem guardada no navegador fica intacta; as tarjas são aplicadas numa cópia no momento do envio.
+export interface ImageRedaction {
+  boxes: RedactionBox[];
+  detectedAt: number;
+  reviewedAt?: number; // Ausente enquanto o usuário não conferiu as tarjas na pré-visualização
+}
+
+// Registro de auditoria da anonimização feita no envio ao modelo.
+export interface DeidentificationAudit {
+  appliedAt: number;
+  imageCount: number;         // Imagens enviadas ao modelo
+  redactedImageCount: number; // Imagens que receberam ao menos uma tarja
+  boxCount: number;
+  unreviewedImageCount: number; // Imagens enviadas com tarjas automáticas não conferidas (inclui as de URL)
+  phiValuesScrubbed: number;  // Ocorrências de valores do paciente lidos do DICOM removidas dos textos enviados com o laudo
+}
+
+// Região de interesse desenhada na pré-visualização. Coordenadas em frações (0 a 1) da largura
+// e altura da imagem, a partir do canto superior esquerdo, para independer da resolução.
+export interface RegionOfInterest {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Metadados editáveis de cada imagem, enviados ao modelo como texto logo antes da imagem.
+export interface ImageAnnotation {
+  view?: string;   // Incidência/projeção (ex: PA, perfil, axial)
+  series?: string;
+  phase?: string;  // Fase do contraste (ex: arterial, portal)
+  note?: string;
+  regions?: RegionOfInterest[];
+}
+
+// Metadados DICOM extraídos do cabeçalho do arquivo. Todos os campos são opcionais,
+// pois muitos exportadores de PACS omitem tags não obrigatórias.
+export interface DicomMetadata {
+  modality?: string;          // (0008,0060) ex: 'CR', 'CT', 'MR'
+  studyDate?: string;         // (0008,0020) formato DICOM 'YYYYMMDD'
+  bodyPartExamined?: string;  // (0018,0015)
+  studyDescription?: string;  // (0008,1030)
+  seriesDescription?: string; // (0008,103E)
+  patientName?: string;       // (0010,0010)
+  patientId?: string;         // (0010,0020)
+  patientBirthDate?: string;  // (0010,0030)
+  patientSex?: string;        // (0010,0040)
+  institutionName?: string;   // (0008,0080)
+  accessionNumber?: string;   // (0008,0050)
+  referringPhysicianName?: string; // (0008,0090)
+  studyInstanceUid?: string;  // (0020,000D)
+  seriesInstanceUid?: string; // (0020,000E)
+  instanceNumber?: number;    // (0020,0013)
+  sliceLocation?: number;     // (0020,1041) em mm, para ordenar os cortes de uma série
+  pixelSpacing?: [number, number]; // (0028,0030) [linha, coluna] em mm
+}
+
+// Valores de pixel decodificados de um quadro DICOM, mantidos para que o
+// janelamento possa ser refeito sobre os valores originais (ex: unidades Hounsfield).
+export interface DicomPixelData {
+  width: number;
+  height: number;
+  samplesPerPixel: 1 | 3;
+  values: Float32Array;   // Monocromático: valores já com rescale slope/intercept. RGB: intercalado 0-255.
+  minValue: number;
+  maxValue: number;
+  windowCenter?: number;
+  windowWidth?: number;
+  invert: boolean;        // true para MONOCHROME1
+}
+
+export interface DicomImageInfo {
+  metadata: DicomMetadata;
+  transferSyntaxUid: string;
+  pixelData: DicomPixelData | null; // null quando o quadro foi decodificado pelo navegador (ex: JPEG encapsulado)
+}
+
+// Resumo dos metadados DICOM de todas as imagens de um estudo, usado no cabeçalho do laudo.
+export interface DicomStudyInfo {
+  modalities: string[];
+  studyDate?: string;
+  bodyParts: string[];
+  studyDescription?: string;
+}
+
+// Imagem já convertida em base64, no formato neutro aceito por todos os provedores de modelo.
+export interface ReportImageInput {
+  mimeType: string;
+  base64: string;
+  name?: string; // Nome do arquivo ou da URL, citado no texto que acompanha a imagem
+  annotation?: ImageAnnotation;
+}
+
+export interface ReportRequest {
+  prompt: string;
+  images: ReportImageInput[];
+  studyInfo?: DicomStudyInfo;
+  template?: ReportTemplate;
+  prior?: PriorStudyInput;
+  clinicalContext?: ClinicalContext;
+}
+
+export type ClinicalContextSex = '' | 'F' | 'M' | 'O'; // '' = não informado
+
+// Dados do paciente e do pedido preenchidos na tela. Vão ao modelo como campos explícitos e
+// saem no cabeçalho do laudo, para que o modelo não precise (nem possa) inventá-los.
+export interface ClinicalContext {
+  patientAge: string;          // Em anos; texto livre para admitir "8 meses"
+  patientSex: ClinicalContextSex;
+  clinicalIndication: string;
+  requestingPhysician: string;
+  examType: string;            // Exame solicitado (ex: "TC de crânio sem contraste")
+  relevantHistory: string;     // Antecedentes, cirurgias, medicações relevantes
+}
+
+// Exame anterior enviado junto com o atual para que o modelo descreva a evolução.
+export interface PriorStudyInput {
+  studyDate: string; // DD/MM/AAAA
+  reportText: string;
+  images: ReportImageInput[];
+}
 
-// These types are based on the Python example for Gemini TTS configuration.
-// They are defined here as their direct export from @google/genai JS SDK
-// for this specific configuration path (responseModalities, speechConfig) is not explicitly
-// detailed in the provided general SDK guidelines, but is crucial for replicating
-// the "Gemini Native TTS" functionality shown in the Python script.
+// Exame anterior montado na tela: imagens marcadas como anteriores ou carregadas de um estudo do histórico.
+export interface PriorStudy {
+  studyDate: string; // DD/MM/AAAA
+  reportText: string;
+  images: ProcessedImageFile[];
+  sourceStudyId?: string; // Estudo do histórico de onde o exame anterior foi carregado
+}
+
+// Modelo de laudo por tipo de exame, criado pelo usuário e guardado no navegador.
+export interface ReportTemplate {
+  id: string;
+  name: string;             // ex: "Radiografia de tórax (PA e perfil)"
+  examType: string;         // Modalidade/região esperada, repassada ao modelo como contexto
+  defaultPrompt: string;    // Prompt sugerido ao selecionar o modelo
+  sectionHeadings: string[]; // Seções próprias, preenchidas além das seções fixas do laudo
+  normalFindings: string;   // Texto padrão de normalidade usado como base quando não há alterações
+  instructions: string;     // Orientações adicionais ao modelo (terminologia, classificações etc.)
+}
+
+export interface SynthesizedAudio {
+  base64: string;
+  mimeType: string;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Eventos da geração em streaming: trechos do JSON bruto conforme chegam e, ao final, o laudo validado.
+export type ReportStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; report: StructuredReport };
+
+// Contratos implementados por cada adaptador em services/providers.
+export interface ReportProvider {
+  readonly id: ProviderId;
+  generateReport(request: ReportRequest): Promise<StructuredReport>;
+  streamReport(request: ReportRequest, signal: AbortSignal): AsyncGenerator<ReportStreamEvent>;
+  chat(request: ReportChatRequest): Promise<ReportChatReply>;
+  classifyCriticalFindings(reportText: string): Promise<CriticalFinding[]>;
+}
+
+export interface SpeechProvider {
+  readonly id: ProviderId;
+  synthesizeSpeech(text: string, options: SpeechOptions): Promise<SynthesizedAudio>;
+}
+
+// Converte o áudio ditado (WAV mono) em texto; os comandos de ditado são interpretados depois, na interface.
+export interface TranscriptionProvider {
+  readonly id: ProviderId;
+  transcribeAudio(audio: SynthesizedAudio): Promise<string>;
+}
 
-export interface PrebuiltVoiceConfig {
-  voiceName: string; // Corresponds to Python 'nome_da_voz'
+export type SpeakingRate = 'slow' | 'normal' | 'fast';
+
+// Como o texto deve ser lido; cada provedor traduz para seus próprios parâmetros.
+export interface SpeechOptions {
+  style: string; // Instrução livre de estilo de leitura (ex.: "tom calmo e profissional")
+  rate: SpeakingRate;
+}
+
+// Termo do laudo e a forma por extenso com que deve ser lido (ex.: "TC" → "tomografia computadorizada").
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  spoken: string;
+}
+
+export interface SpeechSettings extends SpeechOptions {
+  lexicon: PronunciationEntry[];
+}
+
+export interface GeminiProviderSettings {
+  reportModel: string;
+  speechModel: string;
+  voice: string; // Uma das vozes pré-definidas do Gemini TTS
+  transcriptionModel: string;
 }
 
-export interface VoiceConfig {
-  prebuiltVoiceConfig?: PrebuiltVoiceConfig;
-  // customVoiceConfig could be added if needed
+// A URL base e a chave ficam no servidor (OPENAI_COMPATIBLE_BASE_URL e OPENAI_COMPATIBLE_API_KEY).
+export interface OpenAiCompatibleProviderSettings {
+  reportModel: string;
+  speechModel: string;
+  voice: string;
+  transcriptionModel: string;
 }
 
-export interface SpeechConfig {
-  voiceConfig: VoiceConfig;
-  // audioEncoding?: string; // e.g., 'LINEAR16', 'MP3'. Python example implies PCM default.
+export interface ProviderSettings {
+  reportProvider: ProviderId;
+  maxImagesPerReport: number; // Imagens do exame atual por pedido de laudo (e por pergunta no chat)
+  speechProvider: ProviderId;
+  transcriptionProvider: ProviderId;
+  gemini: GeminiProviderSettings;
+  openAiCompatible: OpenAiCompatibleProviderSettings;
 }
 
-// This is to augment the standard GenerationConfig from @google/genai
-// to include TTS specific parameters if the API supports them via this route.
-// It combines TTS-specific fields with common GenerationConfig fields.
-export interface TTSGenerationConfig {
-  responseModalities?: string[];
-  speechConfig?: SpeechConfig;
-  candidateCount?: number;
-  stopSequences?: string[];
-  maxOutputTokens?: number;
-  temperature?: number;
-  topP?: number;
-  topK?: number;
-  responseMimeType?: string; 
-}
\ No newline at end of file
+export interface UrlImageEntry {
+  id: string; // Para keys em listas React
+  value: string;
+  annotation?: ImageAnnotation;
+}
+
+// Estudo salvo no histórico (IndexedDB). Guarda o estado de entrada e o laudo
+// exatamente como estavam, para que reabrir o estudo restaure a tela.
+export interface StudyRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  prompt: string;
+  processedFiles: ProcessedImageFile[];
+  urlEntries: UrlImageEntry[];
+  templateId?: string; // Modelo de laudo selecionado na geração, se houver
+  priorStudy?: PriorStudy; // Exame anterior usado na comparação, se houver
+  clinicalContext?: ClinicalContext; // Ausente em estudos salvos antes do formulário de contexto clínico
+  deidentification?: DeidentificationAudit; // Ausente em estudos gerados antes da anonimização automática
+  reportData: ReportData;
+}
+
+// Versão leve do estudo usada na listagem do histórico, sem imagens nem áudio.
+export interface StudySummary {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  prompt: string;
+  modality?: string;
+  impression?: string;
+  imageCount: number;
+  hasAudio: boolean;
+  status?: ReportStatus; // Ausente em resumos salvos antes do fluxo de assinatura
+  // O que foi de fato aplicado no envio ao modelo; resumos antigos não trazem o campo.
+  deidentification?: Pick<DeidentificationAudit, 'boxCount' | 'phiValuesScrubbed' | 'unreviewedImageCount'>;
+}
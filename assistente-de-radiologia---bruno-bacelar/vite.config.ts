@@ -4,9 +4,11 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // As chaves dos provedores ficam apenas no servidor (server/index.ts); o Vite só repassa /api para ele.
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {